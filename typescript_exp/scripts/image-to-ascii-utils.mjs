@@ -0,0 +1,188 @@
+import { inflateSync } from 'node:zlib';
+
+const pngSignature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const channelsByColorType = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const paeth = (left, up, upLeft) => {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+};
+
+const unfilterScanlines = (inflated, height, stride, bytesPerPixel) => {
+  const pixels = Buffer.alloc(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = inflated[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const target = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const raw = inflated[source + x];
+      const left = x >= bytesPerPixel ? pixels[target + x - bytesPerPixel] : 0;
+      const up = y > 0 ? pixels[target - stride + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? pixels[target - stride + x - bytesPerPixel] : 0;
+      let value;
+      switch (filter) {
+        case 0: value = raw; break;
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: value = raw + paeth(left, up, upLeft); break;
+        default: throw new Error(`Unknown PNG filter type ${filter} on row ${y}`);
+      }
+      pixels[target + x] = value & 0xff;
+    }
+  }
+  return pixels;
+};
+
+/**
+ * Decode a non-interlaced PNG (any color type, bit depths 1-16) into
+ * RGBA pixels: { width, height, data } with 4 bytes per pixel.
+ */
+export const decodePng = (buffer) => {
+  if (buffer.length < pngSignature.length || !buffer.subarray(0, pngSignature.length).equals(pngSignature)) {
+    throw new Error('Not a PNG file; convert the image to PNG first');
+  }
+
+  let header = null;
+  let palette = null;
+  let transparency = null;
+  const dataChunks = [];
+  let offset = pngSignature.length;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === 'IHDR') {
+      header = {
+        width: chunk.readUInt32BE(0),
+        height: chunk.readUInt32BE(4),
+        bitDepth: chunk[8],
+        colorType: chunk[9],
+        interlace: chunk[12]
+      };
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      dataChunks.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!header) {
+    throw new Error('PNG is missing its IHDR header');
+  }
+  const { width, height, bitDepth, colorType, interlace } = header;
+  const channels = channelsByColorType[colorType];
+  if (!channels) {
+    throw new Error(`Unsupported PNG color type ${colorType}`);
+  }
+  if (interlace) {
+    throw new Error('Interlaced PNGs are not supported; re-save the image without interlacing');
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error('Palette PNG is missing its PLTE chunk');
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const pixels = unfilterScanlines(inflateSync(Buffer.concat(dataChunks)), height, stride, Math.max(1, bitsPerPixel >> 3));
+
+  const maxSample = (1 << bitDepth) - 1;
+  const readSample = (rowStart, sampleIndex) => {
+    if (bitDepth === 16) return pixels[rowStart + sampleIndex * 2];
+    if (bitDepth === 8) return pixels[rowStart + sampleIndex];
+    const bit = sampleIndex * bitDepth;
+    return (pixels[rowStart + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  // Scale low bit depths up to 0-255 (palette indices stay as they are)
+  const toByte = (sample) => (bitDepth >= 8 || colorType === 3 ? sample : Math.round((sample * 255) / maxSample));
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * stride;
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      const first = readSample(rowStart, x * channels);
+      if (colorType === 3) {
+        data[target] = palette[first * 3];
+        data[target + 1] = palette[first * 3 + 1];
+        data[target + 2] = palette[first * 3 + 2];
+        data[target + 3] = transparency && first < transparency.length ? transparency[first] : 255;
+      } else if (colorType === 0 || colorType === 4) {
+        const gray = toByte(first);
+        data[target] = gray;
+        data[target + 1] = gray;
+        data[target + 2] = gray;
+        data[target + 3] = colorType === 4 ? toByte(readSample(rowStart, x * channels + 1)) : 255;
+      } else {
+        data[target] = toByte(first);
+        data[target + 1] = toByte(readSample(rowStart, x * channels + 1));
+        data[target + 2] = toByte(readSample(rowStart, x * channels + 2));
+        data[target + 3] = colorType === 6 ? toByte(readSample(rowStart, x * channels + 3)) : 255;
+      }
+    }
+  }
+
+  return { width, height, data };
+};
+
+const parseInsets = (value) => {
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) {
+    throw new Error(`--insets expects top,right,bottom,left fractions, got "${value}"`);
+  }
+  const [top, right, bottom, left] = parts;
+  return { top, right, bottom, left };
+};
+
+/**
+ * Parse `image-to-ascii` arguments into { input, output, options } where
+ * options are passed straight to imageToAscii.
+ */
+export const parseImageToAsciiArgs = (args) => {
+  const options = { columns: 120 };
+  let input = null;
+  let output = null;
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    const next = () => {
+      const value = args[++index];
+      if (value === undefined) {
+        throw new Error(`${arg} needs a value`);
+      }
+      return value;
+    };
+
+    if (arg === '--columns') options.columns = Number(next());
+    else if (arg === '--rows') options.rows = Number(next());
+    else if (arg === '--ramp') options.ramp = next();
+    else if (arg === '--dither') options.dither = next();
+    else if (arg === '--gamma') options.gamma = Number(next());
+    else if (arg === '--insets') options.insets = parseInsets(next());
+    else if (arg === '--edges') options.edges = true;
+    else if (arg === '--edge-threshold') options.edges = { threshold: Number(next()) };
+    else if (arg === '--invert') options.invert = true;
+    else if (arg === '--out') output = next();
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else input = arg;
+  }
+
+  if (!input) {
+    throw new Error('Usage: node scripts/image-to-ascii.mjs <image.png> [--columns 120] [--rows N] [--ramp classic] [--edges] [--edge-threshold 0.3] [--dither none|floyd-steinberg|ordered] [--gamma 1] [--insets top,right,bottom,left] [--invert] [--out file.txt]');
+  }
+  if (options.dither && !['none', 'floyd-steinberg', 'ordered'].includes(options.dither)) {
+    throw new Error(`Unknown dither "${options.dither}"`);
+  }
+
+  return { input, output, options };
+};
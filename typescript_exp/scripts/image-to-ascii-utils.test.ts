@@ -0,0 +1,58 @@
+// @vitest-environment node
+
+import { deflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { decodePng, parseImageToAsciiArgs } from './image-to-ascii-utils.mjs';
+
+// Minimal PNG writer for fixtures; CRCs are left at zero because the decoder skips them
+const encodePng = ({ width, height, bitDepth, colorType, rows, palette }) => {
+  const chunk = (type, data) => {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(data.length, 0);
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([header, data, Buffer.alloc(4)]);
+  };
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = bitDepth;
+  ihdr[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    ...(palette ? [chunk('PLTE', Buffer.from(palette))] : []),
+    chunk('IDAT', deflateSync(Buffer.concat(rows.map(([filter, ...bytes]) => Buffer.from([filter, ...bytes]))))),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+};
+
+describe('image to ascii helpers', () => {
+  it('decodes filtered RGBA, palette and low bit depth gray PNGs', () => {
+    // Row 0 unfiltered, row 1 "up" filtered (adds the row above)
+    const rgba = decodePng(encodePng({
+      width: 2,
+      height: 2,
+      bitDepth: 8,
+      colorType: 6,
+      rows: [[0, 10, 20, 30, 255, 40, 50, 60, 128], [2, 1, 1, 1, 0, 0, 0, 0, 0]]
+    }));
+    expect(Array.from(rgba.data)).toEqual([10, 20, 30, 255, 40, 50, 60, 128, 11, 21, 31, 255, 40, 50, 60, 128]);
+
+    const indexed = decodePng(encodePng({ width: 3, height: 1, bitDepth: 2, colorType: 3, palette: [0, 0, 0, 255, 0, 0], rows: [[0, 0b01000100]] }));
+    expect(Array.from(indexed.data.slice(0, 8))).toEqual([255, 0, 0, 255, 0, 0, 0, 255]);
+
+    const gray = decodePng(encodePng({ width: 2, height: 1, bitDepth: 1, colorType: 0, rows: [[0, 0b01000000]] }));
+    expect(Array.from(gray.data)).toEqual([0, 0, 0, 255, 255, 255, 255, 255]);
+    expect(() => decodePng(Buffer.from('GIF89a'))).toThrow('Not a PNG file');
+  });
+
+  it('parses converter options from the command line', () => {
+    expect(parseImageToAsciiArgs(['photo.png', '--columns', '90', '--edges', '--dither', 'ordered', '--insets', '0.1,0,0.05,0', '--out', 'art.txt'])).toEqual({
+      input: 'photo.png',
+      output: 'art.txt',
+      options: { columns: 90, edges: true, dither: 'ordered', insets: { top: 0.1, right: 0, bottom: 0.05, left: 0 } }
+    });
+    expect(() => parseImageToAsciiArgs(['--columns', '90'])).toThrow('Usage:');
+    expect(() => parseImageToAsciiArgs(['a.png', '--dither', 'random'])).toThrow('Unknown dither "random"');
+  });
+});
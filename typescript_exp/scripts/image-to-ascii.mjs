@@ -0,0 +1,33 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { createServer } from 'vite';
+import { decodePng, parseImageToAsciiArgs } from './image-to-ascii-utils.mjs';
+
+// Converts a photo into hero art with the same converter the browser uses, e.g.
+// npm run render:image-ascii -- src/assets/fish/pictures/fish_placeholder.png --columns 140 --edges --insets 0.133,0,0.005,0 --out src/assets/fish/fish_ascii.txt
+const { input, output, options } = parseImageToAsciiArgs(process.argv.slice(2));
+
+const image = decodePng(await fs.readFile(path.resolve(input)));
+
+// Vite resolves the TypeScript sources and their extensionless imports; the
+// converter needs neither the app config nor dependency pre-bundling
+const server = await createServer({
+  configFile: false,
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true, include: [] },
+  appType: 'custom',
+  logLevel: 'error'
+});
+
+try {
+  const { imageToAscii } = await server.ssrLoadModule('/src/components/ascii-art2/imageToAscii.ts');
+  const art = imageToAscii(image, options);
+  if (output) {
+    await fs.writeFile(path.resolve(output), `${art}\n`);
+    console.log(`Wrote ${art.split('\n').length} rows to ${output}`);
+  } else {
+    console.log(art);
+  }
+} finally {
+  await server.close();
+}
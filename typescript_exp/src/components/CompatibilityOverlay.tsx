@@ -1,5 +1,6 @@
 import { useEffect, useMemo, useState } from 'react';
 import { updateCharMetricsForViewport } from './ascii-art2/constants';
+import { useReducedMotion } from './ascii-art2/hooks';
 
 type Phase = 'fadeIn' | 'hold' | 'fadeOut' | 'done';
 
@@ -48,6 +49,7 @@ function CompatibilityOverlay({
 }: CompatibilityOverlayProps) {
   const targetChars = useMemo(() => message.split(''), [message]);
   const blankState = useMemo(() => createBlankString(targetChars), [targetChars]);
+  const reducedMotion = useReducedMotion();
   const [phase, setPhase] = useState<Phase>('fadeIn');
   const [displayText, setDisplayText] = useState(() => blankState);
   const [viewport, setViewport] = useState(() => ({
@@ -82,6 +84,13 @@ function CompatibilityOverlay({
       return;
     }
 
+    // Without motion the message simply appears
+    if (reducedMotion) {
+      setDisplayText(message);
+      setPhase('hold');
+      return;
+    }
+
     const thresholds = targetChars.map(() => Math.random() * scrambleDuration);
     const startTime = now();
 
@@ -109,7 +118,7 @@ function CompatibilityOverlay({
     }, 45);
 
     return () => clearInterval(interval);
-  }, [phase, targetChars, scrambleDuration, message]);
+  }, [phase, targetChars, scrambleDuration, message, reducedMotion]);
 
   useEffect(() => {
     if (phase !== 'hold') {
@@ -124,6 +133,12 @@ function CompatibilityOverlay({
       return;
     }
 
+    if (reducedMotion) {
+      setDisplayText(blankState);
+      setPhase('done');
+      return;
+    }
+
     const thresholds = targetChars.map(() => Math.random() * scrambleDuration);
     const startTime = now();
 
@@ -151,7 +166,7 @@ function CompatibilityOverlay({
     }, 45);
 
     return () => clearInterval(interval);
-  }, [phase, targetChars, scrambleDuration, blankState]);
+  }, [phase, targetChars, scrambleDuration, blankState, reducedMotion]);
 
   useEffect(() => {
     if (phase !== 'done') {
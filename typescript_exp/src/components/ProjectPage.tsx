@@ -3,6 +3,7 @@ import { useLocation } from 'react-router-dom';
 import { getCurrentCharMetrics } from './ascii-art2/constants';
 import { TextBounds, TextContentItem } from './ascii-art2/types';
 import type { FontName } from './ascii-art2/ASCII_text_renderer';
+import type { BackgroundField } from './ascii-art2/backgroundFields';
 import PhotoModeScene, { type PhotoModeTransformResolver } from './photorealistic/PhotoModeScene';
 import {
   PhotoContentInsets,
@@ -123,6 +124,7 @@ type ProjectPageProps = {
   photoInitialScrollAlignment?: 'center' | 'start';
   photoInitialScrollPaddingRows?: number;
   photoCenterOnEnter?: boolean;
+  backgroundField?: BackgroundField;
 };
 
 const DEFAULT_VIDEO_HEIGHT_RATIO = 0.35;
@@ -157,7 +159,8 @@ const ProjectPage = ({
   photoInitialScrollTargetId,
   photoInitialScrollAlignment = 'center',
   photoInitialScrollPaddingRows = 0,
-  photoCenterOnEnter = false
+  photoCenterOnEnter = false,
+  backgroundField
 }: ProjectPageProps) => {
   const location = useLocation();
   const [textContent, setTextContent] = useState<TextContentItem[]>([]);
@@ -634,6 +637,7 @@ const ProjectPage = ({
           exportMetadataKey={pdfExportMode ? title : undefined}
           exportPrimaryPhotoItemId={exportPrimaryPhotoItemId}
           exportBackgroundOnly={pdfBackgroundOnly}
+          backgroundField={backgroundField}
         />
       )}
     </div>
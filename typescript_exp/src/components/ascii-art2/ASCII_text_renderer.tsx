@@ -3,30 +3,16 @@
  * Renders text as ASCII art with intelligent letter overlapping
  */
 
-// Import font definitions from separate file
-import {
-  asciiChars,
-  blockAsciiChars,
-  blockAsciiDoubleChars,
-  outlineAsciiChars,
-  lineAsciiChars,
-  twinRailWireframeChars,
-  smallAsciiChars,
-  microAsciiChars
-} from '../asciiFonts';
-import { countGraphemeCells } from './utils';
-
-// ADDED/MODIFIED: FontName type to include all supported fonts
-export type FontName =
-  | 'regular'
-  | 'ascii'
-  | 'blockAscii'
-  | 'blockAsciiDouble'
-  | 'outlineAscii'
-  | 'lineAscii'
-  | 'twinRailWireframe'
-  | 'smallAscii'
-  | 'microAscii';
+import { countGraphemeCells, segmentGraphemeCells } from './utils';
+import { escapeMarkup, MarkupNode, MarkupWarning, markupToPlainText, parseMarkup, tokenizeMarkup } from './markup';
+import { getHyphenationPoints } from './hyphenation';
+import { parseTextBlocks } from './markdownBlocks';
+import { AsciiArtBlock, getAsciiArt, isAsciiArtRegistered } from './artRegistry';
+import { layoutFigletText } from './figlet';
+import { fontOverlaps, getAsciiFont, getAsciiGlyph } from './fontRegistry';
+
+// 'regular' for plain text, otherwise any font added with registerAsciiFont
+export type FontName = string;
 
 /**
  * Interface for a styled text segment
@@ -35,6 +21,8 @@ interface TextSegment {
   text: string;
   isBold?: boolean;
   isItalic?: boolean;
+  isUnderline?: boolean;
+  isInverse?: boolean;
   isLink?: boolean;
   url?: string;
   color?: string;
@@ -44,39 +32,154 @@ interface TextSegment {
 interface TextWrapOptions {
   maxWidth?: number;
   respectLineBreaks?: boolean;
+  headingFont?: FontName; // Font for "# Heading" lines in regular text (default 'slim')
+  justify?: boolean; // Stretch wrapped regular text to the full width, except each paragraph's last line
+  hyphenation?: string; // Language registered in ./hyphenation; long words break at its patterns
+}
+
+// Width of text as displayed, ignoring markup
+function measureMarkupWidth(value: string): number {
+  const plain = markupToPlainText(parseMarkup(value).children);
+  return Array.from(plain).some(char => (char.codePointAt(0) ?? 0) > 127) ? countGraphemeCells(plain) : plain.length;
+}
+
+// CJK punctuation that must not start a line, and brackets that must not end one
+const NO_BREAK_BEFORE = new Set(Array.from('、。，．・：；？！ー」』）〕］｝〉》】'));
+const NO_BREAK_AFTER = new Set(Array.from('「『（〔［｛〈《【'));
+
+/**
+ * Split a word that overflows the line at the last break whose head (plus
+ * any hyphen) fits in `available` cells. Wide (CJK) graphemes may break
+ * between each other like spaces; with a hyphenation language, words also
+ * break at its patterns. Breaks only fall inside plain text, so markers and
+ * escapes stay intact, and words that carry link markup are never split.
+ */
+function splitOverflowingWord(
+  word: string,
+  available: number,
+  language: string | undefined,
+  measurePlain: (plain: string) => number
+): [string, string] | null {
+  const tokens = tokenizeMarkup(word);
+  if (available < 2 || tokens.some(token => token.type === 'linkOpen' || token.type === 'linkClose')) {
+    return null;
+  }
+
+  const breaks: Array<{ offset: number, hyphen: boolean }> = [];
+  for (const token of tokens) {
+    if (token.type !== 'text') continue;
+    const source = word.slice(token.start, token.end);
+    const cells = segmentGraphemeCells(source);
+    for (let i = 1; i < cells.length; i++) {
+      const before = cells[i - 1];
+      const after = cells[i];
+      if ((before.width === 2 || after.width === 2) && !NO_BREAK_AFTER.has(before.cell) && !NO_BREAK_BEFORE.has(after.cell)) {
+        breaks.push({ offset: token.start + after.start, hyphen: false });
+      }
+    }
+    if (!language) continue;
+    for (const run of source.matchAll(/\p{L}+/gu)) {
+      for (const point of getHyphenationPoints(run[0], language)) {
+        breaks.push({ offset: token.start + (run.index ?? 0) + point, hyphen: true });
+      }
+    }
+    // Compounds that already have a hyphen can break right after it
+    for (const match of source.matchAll(/\p{L}-(?=\p{L})/gu)) {
+      breaks.push({ offset: token.start + (match.index ?? 0) + 2, hyphen: false });
+    }
+  }
+
+  const plainPrefix = (offset: number) => tokens
+    .map(token => {
+      if (token.type !== 'text' || token.start >= offset) return '';
+      return token.end > offset
+        ? markupToPlainText(parseMarkup(word.slice(token.start, offset)).children)
+        : token.value;
+    })
+    .join('');
+
+  breaks.sort((a, b) => b.offset - a.offset);
+  for (const { offset, hyphen } of breaks) {
+    const suffix = hyphen ? '-' : '';
+    if (measurePlain(plainPrefix(offset) + suffix) <= available) {
+      return [word.slice(0, offset) + suffix, word.slice(offset)];
+    }
+  }
+  return null;
+}
+
+/**
+ * Stretch every line but the last to `width` by widening the gaps between
+ * words. Only spaces in plain text grow, so link text (held together by
+ * non-breaking spaces) and URLs keep their exact length.
+ */
+function justifyLines(lines: string[], width: number): string[] {
+  return lines.map((line, index) => {
+    const extra = width - measureMarkupWidth(line);
+    if (index === lines.length - 1 || extra <= 0) {
+      return line;
+    }
+
+    const indentEnd = line.length - line.trimStart().length;
+    const gaps: number[] = [];
+    for (const token of tokenizeMarkup(line)) {
+      if (token.type !== 'text') continue;
+      for (let i = Math.max(token.start, indentEnd); i < token.end; i++) {
+        if (line[i] === ' ') gaps.push(i);
+      }
+    }
+    if (!gaps.length) {
+      return line;
+    }
+
+    let justified = '';
+    let cursor = 0;
+    gaps.forEach((gap, gapIndex) => {
+      const widen = Math.floor(extra / gaps.length) + (gapIndex < extra % gaps.length ? 1 : 0);
+      justified += line.slice(cursor, gap + 1) + ' '.repeat(widen);
+      cursor = gap + 1;
+    });
+    return justified + line.slice(cursor);
+  });
 }
 
 /**
- * Wraps text at specified max width, breaking only at spaces
+ * Wraps text at specified max width, breaking at spaces, between wide
+ * (CJK) characters and, when a hyphenation language is given, inside long words
  * @param text The text to wrap
  * @param maxWidth Maximum width for each line
+ * @param hyphenation Language registered in ./hyphenation
  * @returns Array of wrapped text lines
  */
-function wrapText(text: string, maxWidth: number = 80): string[] {
+function wrapText(text: string, maxWidth: number = 80, hyphenation?: string): string[] {
   // If no maxWidth provided or invalid, return text split by newlines
   if (!maxWidth || maxWidth <= 0) {
     return text.split('\n');
   }
 
-  const protectLinkSpaces = (value: string) => value.replace(
-    /\[([\s\S]*?)\]\(([\s\S]*?)\)/g,
-    (_match, textPart: string, urlPart: string) => {
-      const protectedText = textPart.replace(/ /g, '\u00A0');
-      return `[${protectedText}](${urlPart})`;
-    }
-  );
+  // Keep link text on one line by turning its spaces into non-breaking ones
+  const protectLinkSpaces = (value: string) => {
+    const chars = value.split('');
+    const visit = (nodes: MarkupNode[]) => {
+      for (const node of nodes) {
+        if (node.type === 'text') continue;
+        if (node.type === 'link') {
+          for (let i = node.contentRange[0]; i < node.contentRange[1]; i++) {
+            if (chars[i] === ' ') chars[i] = '\u00A0';
+          }
+        }
+        visit(node.children);
+      }
+    };
+    visit(parseMarkup(value).children);
+    return chars.join('');
+  };
   const processedText = protectLinkSpaces(text);
-  const stripMarkupForMeasure = (value: string) => value
-    .replace(/\[([\s\S]*?)\]\(([\s\S]*?)\)/g, '$1')
-    .replace(/==([\s\S]*?)==/g, '$1')
-    .replace(/\/\/([\s\S]*?)\/\//g, '$1')
-    .replace(/&&([\s\S]*?)&&/g, '$1');
+  const stripMarkupForMeasure = (value: string) => markupToPlainText(parseMarkup(value).children);
   const measureSource = stripMarkupForMeasure(processedText);
   const shouldUseGraphemeWidths = Array.from(measureSource).some(char => (char.codePointAt(0) ?? 0) > 127);
-  const measureWidth = (value: string) => {
-    const stripped = stripMarkupForMeasure(value);
-    return shouldUseGraphemeWidths ? countGraphemeCells(stripped) : stripped.length;
-  };
+  const measurePlain = (plain: string) => shouldUseGraphemeWidths ? countGraphemeCells(plain) : plain.length;
+  const measureWidth = (value: string) => measurePlain(stripMarkupForMeasure(value));
 
   const lines: string[] = [];
   const paragraphs = processedText.split('\n');
@@ -93,16 +196,28 @@ function wrapText(text: string, maxWidth: number = 80): string[] {
 
     // Process each word
     for (const word of words) {
-      const lineWidth = line.length === 0 ? 0 : measureWidth(line);
-      const wordWidth = measureWidth(word);
-      const nextWidth = lineWidth + wordWidth + (lineWidth > 0 ? 1 : 0);
-      // If adding this word would exceed maxWidth
-      if (nextWidth > maxWidth && lineWidth > 0) {
-        lines.push(line); // Push current line
-        line = word; // Start new line with current word
-      } else {
-        // Add word to current line with a space if not first word
-        line = lineWidth === 0 ? word : `${line} ${word}`;
+      let pending: string | null = word;
+      while (pending !== null) {
+        const lineWidth = line.length === 0 ? 0 : measureWidth(line);
+        const wordWidth = measureWidth(pending);
+        const nextWidth = lineWidth + wordWidth + (lineWidth > 0 ? 1 : 0);
+        const split: [string, string] | null = nextWidth > maxWidth
+          ? splitOverflowingWord(pending, maxWidth - lineWidth - (lineWidth > 0 ? 1 : 0), hyphenation, measurePlain)
+          : null;
+        if (split) {
+          // Fill the line with the head of the word and carry the rest over
+          lines.push(line.length === 0 ? split[0] : `${line} ${split[0]}`);
+          line = '';
+          pending = split[1];
+        } else if (nextWidth > maxWidth && lineWidth > 0) {
+          // If adding this word would exceed maxWidth, start a new line with it
+          lines.push(line);
+          line = '';
+        } else {
+          // Add word to current line with a space if not first word
+          line = lineWidth === 0 ? pending : `${line} ${pending}`;
+          pending = null;
+        }
       }
     }
 
@@ -116,84 +231,34 @@ function wrapText(text: string, maxWidth: number = 80): string[] {
 }
 
 /**
- * Parse text with style markers and convert to styled segments
- * Supports:
- * - ==bold== (changed from **bold**)
- * - //italic// (changed from _italic_)
- * - [link text](url)
- * - &&red text&& (added support for red text)
+ * Flatten the markup tree (see ./markup) into styled segments; nested markers
+ * combine, so ==bold //and italic//== yields a bold+italic segment.
  */
 function parseTextWithStyles(text: string): TextSegment[] {
   if (!text) return [];
 
   const segments: TextSegment[] = [];
-  let cursor = 0;
-
-  // Regular expressions for style markers
-  // Note: [\\s\\S] allows matches across line breaks, which is needed when a
-  // marker pair is split across wrapped lines (e.g. "==bold\\ntext==").
-  const boldRegex = /==([\s\S]*?)==/g;
-  const italicRegex = /\/\/([\s\S]*?)\/\//g; // Double slash for italic
-  const linkRegex = /\[([\s\S]*?)\]\(([\s\S]*?)\)/g;
-  const redTextRegex = /&&([\s\S]*?)&&/g; // Text between && markers
-
-  while (cursor < text.length) {
-    let nextMatch: RegExpExecArray | null = null;
-    let matchType: 'bold' | 'italic' | 'link' | 'red' | null = null;
-
-    boldRegex.lastIndex = cursor;
-    const boldMatch = boldRegex.exec(text);
-    if (boldMatch) {
-      nextMatch = boldMatch;
-      matchType = 'bold';
-    }
-
-    italicRegex.lastIndex = cursor;
-    const italicMatch = italicRegex.exec(text);
-    if (italicMatch && (!nextMatch || italicMatch.index < nextMatch.index)) {
-      nextMatch = italicMatch;
-      matchType = 'italic';
-    }
-
-    linkRegex.lastIndex = cursor;
-    const linkMatch = linkRegex.exec(text);
-    if (linkMatch && (!nextMatch || linkMatch.index < nextMatch.index)) {
-      nextMatch = linkMatch;
-      matchType = 'link';
-    }
-
-    redTextRegex.lastIndex = cursor;
-    const redMatch = redTextRegex.exec(text);
-    if (redMatch && (!nextMatch || redMatch.index < nextMatch.index)) {
-      nextMatch = redMatch;
-      matchType = 'red';
-    }
-
-    if (!nextMatch || !matchType) {
-      break;
-    }
-
-    if (nextMatch.index > cursor) {
-      segments.push({ text: text.substring(cursor, nextMatch.index) });
-    }
-
-    if (matchType === 'bold') {
-      segments.push({ text: nextMatch[1], isBold: true });
-    } else if (matchType === 'italic') {
-      segments.push({ text: nextMatch[1], isItalic: true });
-    } else if (matchType === 'link') {
-      segments.push({ text: nextMatch[1], isLink: true, url: nextMatch[2] });
-    } else if (matchType === 'red') {
-      segments.push({ text: nextMatch[1], color: '#FF0000' });
+  const visit = (nodes: MarkupNode[], style: Omit<TextSegment, 'text'>) => {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        segments.push({ ...style, text: node.value });
+        continue;
+      }
+      const nested = { ...style };
+      if (node.type === 'bold') nested.isBold = true;
+      else if (node.type === 'italic') nested.isItalic = true;
+      else if (node.type === 'underline') nested.isUnderline = true;
+      else if (node.type === 'inverse') nested.isInverse = true;
+      else if (node.type === 'color') nested.color = node.color;
+      else if (node.type === 'link') {
+        nested.isLink = true;
+        nested.url = node.url;
+      }
+      visit(node.children, nested);
     }
+  };
 
-    cursor = nextMatch.index + nextMatch[0].length;
-  }
-
-  if (cursor < text.length) {
-    segments.push({ text: text.substring(cursor) });
-  }
-
+  visit(parseMarkup(text).children, {});
   return segments;
 }
 
@@ -220,6 +285,8 @@ function splitSegmentsByNewlines(segments: TextSegment[]): TextSegment[][] {
 interface TextStyle {
   isBold?: boolean;
   isItalic?: boolean;
+  isUnderline?: boolean;
+  isInverse?: boolean;
   isLink?: boolean;
   url?: string;
   color?: string; // Add color field
@@ -237,6 +304,8 @@ function buildStyledChars(segments: TextSegment[]): StyledChar[] {
     const style: TextStyle = {
       isBold: segment.isBold,
       isItalic: segment.isItalic,
+      isUnderline: segment.isUnderline,
+      isInverse: segment.isInverse,
       isLink: segment.isLink,
       url: segment.url,
       color: segment.isLink ? '#3498db' : segment.color
@@ -345,10 +414,30 @@ function wrapStyledChars(
   return lines;
 }
 
+/**
+ * Output columns [start, end) drawn by each character of a line. Hand-authored
+ * fonts place glyphs side by side; FIGlet faces may kern or smush them together.
+ */
+function getAsciiCharSpans(lineText: string, fontName: FontName): Array<[number, number]> {
+  const font = getAsciiFont(fontName);
+  if (fontOverlaps(font)) {
+    return layoutFigletText(font, lineText).spans;
+  }
+
+  const spans: Array<[number, number]> = [];
+  let position = 0;
+  for (let i = 0; i < lineText.length; i++) {
+    const charWidth = getAsciiCharWidth(lineText[i], fontName);
+    spans.push([position, position + charWidth]);
+    position += charWidth;
+  }
+  return spans;
+}
+
 function buildAsciiRanges(
   lineText: string,
   styleMap: Record<number, TextStyle>,
-  fontName: FontName
+  spans: Array<[number, number]>
 ) {
   const linkRanges: Array<{start: number, end: number, url: string}> = [];
   const styleRanges: Array<{start: number, end: number, style: TextStyle}> = [];
@@ -360,9 +449,9 @@ function buildAsciiRanges(
 
   for (let i = 0; i < lineText.length; i++) {
     const style = styleMap[i] || {};
-    const charWidth = getAsciiCharWidth(lineText[i], fontName);
+    styledLength = spans[i][0];
 
-    if (style.color || style.isBold || style.isItalic || style.isLink) {
+    if (style.color || style.isBold || style.isItalic || style.isUnderline || style.isInverse || style.isLink) {
       if (currentStyleStart === -1 || JSON.stringify(currentStyle) !== JSON.stringify(style)) {
         if (currentStyleStart !== -1 && currentStyle) {
           styleRanges.push({
@@ -398,7 +487,7 @@ function buildAsciiRanges(
       currentLinkStart = -1;
     }
 
-    styledLength += charWidth;
+    styledLength = spans[i][1];
   }
 
   if (currentStyleStart !== -1 && currentStyle) {
@@ -421,9 +510,7 @@ function buildAsciiRanges(
 }
 
 function getAsciiFontHeight(fontName: FontName): number {
-  const fontSet = selectAsciiFont(fontName);
-  const sample = fontSet['A'] || fontSet['a'] || fontSet['0'] || fontSet[' '] || [''];
-  return sample.length;
+  return getAsciiFont(fontName).height;
 }
 
 function renderStyledAsciiLines(
@@ -441,7 +528,8 @@ function renderStyledAsciiLines(
     asciiLines = Array.from({ length: getAsciiFontHeight(fontName) }, () => '');
   }
 
-  const { linkRanges, styleRanges } = buildAsciiRanges(lineText, styleMap, fontName);
+  const spans = getAsciiCharSpans(lineText, fontName);
+  const { linkRanges, styleRanges } = buildAsciiRanges(lineText, styleMap, spans);
   const renderedLines: Array<{
     html?: string,
     line?: string,
@@ -452,13 +540,10 @@ function renderStyledAsciiLines(
   for (const line of asciiLines) {
     let styledLine = '';
     let htmlLine = '';
-    let lastCharEnd = 0;
 
     for (let i = 0; i < lineText.length; i++) {
       const style = styleMap[i] || {};
-      const charWidth = getAsciiCharWidth(lineText[i], fontName);
-      const charStart = lastCharEnd;
-      const charEnd = charStart + charWidth;
+      const [charStart, charEnd] = spans[i];
       const charSection = line.substring(charStart, charEnd);
 
       let htmlCharSection = charSection
@@ -478,7 +563,6 @@ function renderStyledAsciiLines(
 
       styledLine += charSection;
       htmlLine += htmlCharSection;
-      lastCharEnd = charEnd;
     }
 
     renderedLines.push({
@@ -492,10 +576,170 @@ function renderStyledAsciiLines(
   return renderedLines;
 }
 
+const DEFAULT_HEADING_FONT: FontName = 'slim';
+const RULE_FALLBACK_WIDTH = 40;
+const QUOTE_GUTTER = '| ';
+const FLOAT_GAP = 2; // Columns between floated art and the text beside it
+const MIN_FLOAT_TEXT_WIDTH = 12; // Narrower than this, floated art breaks the text instead
+
+/**
+ * Length of `value` that the leading `rows` of its wrapped lines cover.
+ * Wrapping only drops the spaces it breaks at, turns link spaces into
+ * non-breaking ones and adds hyphens at word breaks, so the rows can be
+ * matched back against the source character by character.
+ */
+function wrappedSourceLength(value: string, rows: string[]): number {
+  let offset = 0;
+  for (const row of rows) {
+    while (value[offset] === ' ' && row[0] !== ' ') {
+      offset++;
+    }
+    for (const char of row) {
+      const source = value[offset];
+      if (source === char || (char === '\u00A0' && source === ' ')) {
+        offset++;
+      }
+      // Anything else is a hyphen added at a break
+    }
+  }
+  return offset;
+}
+
+/**
+ * Turn block markup (see ./markdownBlocks) into source lines for regular text.
+ * Generated text such as heading art, list markers and gutters is escaped so
+ * only the author's inline markup is parsed; `tight` holds the indexes of
+ * lines that must sit directly above the next one and `verbatim` those of
+ * art rows, which keep their left-to-right order in right-to-left text.
+ */
+function layoutTextBlocks(
+  text: string,
+  maxWidth: number,
+  options: TextWrapOptions
+): { lines: string[], tight: Set<number>, verbatim: Set<number> } {
+  const lines: string[] = [];
+  const tight = new Set<number>();
+  const verbatim = new Set<number>();
+  const headingFont = options.headingFont ?? DEFAULT_HEADING_FONT;
+  const wrapRows = (value: string, width: number) =>
+    maxWidth <= 0 ? [value] : wrapText(value, Math.max(1, width), options.hyphenation);
+  const justifyRows = (rows: string[], width: number) =>
+    options.justify && maxWidth > 0 ? justifyLines(rows, Math.max(1, width)) : rows;
+  const wrap = (value: string, width: number) => justifyRows(wrapRows(value, width), width);
+  const pushTight = (rows: string[], isArt = true) => {
+    rows.forEach((row, i) => {
+      if (i < rows.length - 1) tight.add(lines.length);
+      if (isArt) verbatim.add(lines.length);
+      lines.push(row);
+    });
+  };
+
+  // Floated art is drawn two rows per text line: beside the line and beside the gap after it
+  let float: { art: AsciiArtBlock, side: 'left' | 'right', nextRow: number } | null = null;
+  const floatTextWidth = (art: AsciiArtBlock) => maxWidth - art.width - FLOAT_GAP;
+  const besideArt = (row: string) => {
+    if (!float) return row;
+    const artRow = escapeMarkup(float.art.rows[float.nextRow++] ?? ' '.repeat(float.art.width));
+    if (float.side === 'left') {
+      return row ? `${artRow}${' '.repeat(FLOAT_GAP)}${row}` : artRow.trimEnd();
+    }
+    const pad = ' '.repeat(Math.max(0, floatTextWidth(float.art) - measureMarkupWidth(row)) + FLOAT_GAP);
+    return `${row}${pad}${artRow}`;
+  };
+  // Art rows left over after the text stand in for the usual gap, so they stay tight
+  const flushFloat = () => {
+    while (float && float.nextRow < float.art.rows.length) {
+      tight.add(lines.length);
+      verbatim.add(lines.length);
+      lines.push(besideArt(''));
+    }
+    float = null;
+  };
+  const wrapBesideFloat = (value: string) => {
+    if (!float) return;
+    const width = floatTextWidth(float.art);
+    const rows = wrapRows(value, width);
+    const besideCount = Math.min(rows.length, Math.ceil((float.art.rows.length - float.nextRow) / 2));
+    // Rewrap what follows from the source, so a word hyphenated beside the art comes back whole
+    const rest = besideCount < rows.length ? value.slice(wrappedSourceLength(value, rows.slice(0, besideCount))).trimStart() : '';
+    const beside = rest ? justifyRows([...rows.slice(0, besideCount), ''], width).slice(0, -1) : justifyRows(rows, width);
+
+    for (const row of beside) {
+      const textRow = besideArt(row);
+      if (float.nextRow < float.art.rows.length) {
+        tight.add(lines.length);
+        lines.push(textRow);
+        tight.add(lines.length);
+        verbatim.add(lines.length);
+        lines.push(besideArt(''));
+      } else {
+        lines.push(textRow);
+      }
+    }
+    if (float.nextRow >= float.art.rows.length) {
+      flushFloat();
+    }
+    if (rest) {
+      lines.push(...wrap(rest, maxWidth));
+    }
+  };
+
+  for (const block of parseTextBlocks(text)) {
+    if (float && block.type !== 'paragraph') {
+      flushFloat();
+    }
+
+    if (block.type === 'art' && !isAsciiArtRegistered(block.name)) {
+      // Left as written; renderFormattedText reports it with the markup warnings
+      lines.push(...wrap(escapeMarkup(block.source), maxWidth));
+    } else if (block.type === 'art') {
+      const art = getAsciiArt(block.name);
+      if (block.float && maxWidth > 0 && floatTextWidth(art) >= MIN_FLOAT_TEXT_WIDTH) {
+        float = { art, side: block.float, nextRow: 0 };
+      } else {
+        pushTight(art.rows.map(escapeMarkup));
+      }
+    } else if (float && block.type === 'paragraph') {
+      wrapBesideFloat(block.text);
+    } else if (block.type === 'heading' && block.level === 1) {
+      const art = renderText(block.text, headingFont, {
+        maxWidth: maxWidth > 0 ? maxWidth : undefined,
+        respectLineBreaks: true
+      });
+      pushTight(art.map(row => escapeMarkup(row.line || '')));
+    } else if (block.type === 'heading') {
+      // Deeper headings stay in the body font, in bold
+      lines.push(...wrap(`==${block.text}==`, maxWidth));
+    } else if (block.type === 'list') {
+      // Hanging indent: wrapped lines start under the item text, not the marker
+      const indent = Math.max(...block.items.map(item => item.marker.length)) + 1;
+      for (const item of block.items) {
+        wrap(item.text, maxWidth - indent).forEach((row, i) => {
+          const prefix = i === 0 ? item.marker.padEnd(indent, ' ') : ' '.repeat(indent);
+          lines.push(escapeMarkup(prefix) + row);
+        });
+      }
+    } else if (block.type === 'quote') {
+      for (const row of wrap(block.text, maxWidth - QUOTE_GUTTER.length)) {
+        lines.push(escapeMarkup(QUOTE_GUTTER) + row);
+      }
+    } else if (block.type === 'rule') {
+      lines.push('-'.repeat(maxWidth > 0 ? maxWidth : RULE_FALLBACK_WIDTH));
+    } else if (block.type === 'preformatted') {
+      pushTight(block.lines.map(escapeMarkup), false);
+    } else {
+      lines.push(...wrap(block.text, maxWidth));
+    }
+  }
+  flushFloat();
+
+  return { lines, tight, verbatim };
+}
+
 /**
  * Renders text with styles and applies formatting
  * @param text The text to render with style markers (bold, italic, links)
- * @param fontName The font to use: 'regular', 'ascii', 'blockAscii', 'blockAsciiDouble', 'outlineAscii', 'lineAscii', 'twinRailWireframe', 'smallAscii', or 'microAscii'
+ * @param fontName The font to use: 'regular' or any registered ASCII font ('ascii', 'smallAscii', 'slim', ...)
  * @param options Additional options including text wrapping
  * @returns An array of styled text lines with metadata
  */
@@ -506,6 +750,8 @@ export function renderText(
 ): Array<{
   html?: string,
   line?: string,
+  tight?: boolean, // Keep the next line directly below (heading art, preformatted text)
+  verbatim?: boolean, // Art row that is never reordered as right-to-left text
   links: Array<{start: number, end: number, url: string}>,
   styles: Array<{start: number, end: number, style: TextStyle}>
 }> {
@@ -518,26 +764,22 @@ export function renderText(
     const result: Array<{
       html: string, 
       line?: string,
+      tight?: boolean,
+      verbatim?: boolean,
       links: Array<{start: number, end: number, url: string}>,
       styles: Array<{start: number, end: number, style: TextStyle}>
     }> = [];
     const maxWidth = options.maxWidth ?? 80;
 
-    // 1) Wrap text first (preserves existing layout behavior).
+    // 1) Lay out blocks and wrap text first (preserves existing layout behavior).
     // 2) Parse styles across the full wrapped block so markers can span lines.
-    const rawWrappedLines: string[] = [];
-    for (const paragraph of text.split('\n')) {
-      const wrappedLines = maxWidth && maxWidth > 0
-        ? wrapText(paragraph, maxWidth)
-        : [paragraph];
-      rawWrappedLines.push(...wrappedLines);
-    }
+    const { lines: rawWrappedLines, tight, verbatim } = layoutTextBlocks(text, maxWidth, options);
 
     const wrappedText = rawWrappedLines.join('\n');
     const parsedSegments = parseTextWithStyles(wrappedText);
     const segmentsByLine = splitSegmentsByNewlines(parsedSegments);
 
-    for (const lineSegments of segmentsByLine) {
+    segmentsByLine.forEach((lineSegments, lineIndex) => {
       let formattedLine = '';
       let htmlLine = '';
       const lineLinks: Array<{start: number, end: number, url: string}> = [];
@@ -556,6 +798,8 @@ export function renderText(
         const cssStyles: string[] = [];
         if (segment.isBold) cssStyles.push('font-weight: bold');
         if (segment.isItalic) cssStyles.push('font-style: italic');
+        if (segment.isUnderline) cssStyles.push('text-decoration: underline');
+        if (segment.isInverse) cssStyles.push('filter: invert(1)');
         if (segment.color) cssStyles.push(`color: ${segment.color}`);
         if (segment.isLink) cssStyles.push('color: #3498db; text-decoration: underline; cursor: pointer');
 
@@ -574,13 +818,15 @@ export function renderText(
           segmentHtml = `<span style="color: #3498db; cursor: pointer;">${segmentHtml}</span>`;
         }
 
-        if (segment.isBold || segment.isItalic || segment.isLink || segment.color) {
+        if (segment.isBold || segment.isItalic || segment.isUnderline || segment.isInverse || segment.isLink || segment.color) {
           lineStyles.push({
             start: startPos,
             end: startPos + formattedSegment.length,
             style: {
               isBold: segment.isBold,
               isItalic: segment.isItalic,
+              isUnderline: segment.isUnderline,
+              isInverse: segment.isInverse,
               isLink: segment.isLink,
               url: segment.url,
               color: segment.color || (segment.isLink ? '#3498db' : undefined)
@@ -604,10 +850,12 @@ export function renderText(
       result.push({
         html: htmlLine,
         line: formattedLine,
+        tight: tight.has(lineIndex) || undefined,
+        verbatim: verbatim.has(lineIndex) || undefined,
         links: lineLinks,
         styles: lineStyles
       });
-    }
+    });
 
     return result;
   }
@@ -642,16 +890,14 @@ export function renderText(
  * Get the width of an ASCII character in the specified font
  */
 function getAsciiCharWidth(char: string, fontName: FontName): number {
-  const fontSet = selectAsciiFont(fontName);
-  const charArt = fontSet[char] || fontSet[' '];
-  return charArt[0]?.length || 0;
+  return getAsciiGlyph(getAsciiFont(fontName), char)[0]?.length || 0;
 }
 
 
 /**
  * Renders text with styles as a string
  * @param text The text to render
- * @param fontName The font to use: 'regular', 'ascii', 'blockAscii', 'blockAsciiDouble', 'outlineAscii', 'lineAscii', 'twinRailWireframe', 'smallAscii', or 'microAscii'
+ * @param fontName The font to use: 'regular' or any registered ASCII font ('ascii', 'smallAscii', 'slim', ...)
  * @param options Additional options including text wrapping
  * @returns A rendered string with style information
  */
@@ -674,24 +920,26 @@ function renderAsciiArt(text: string, fontName: FontName = 'ascii'): string[] {
   if (!text || text.length === 0) {
     return [''];
   }
+
+  const font = getAsciiFont(fontName);
+  if (fontOverlaps(font)) {
+    return layoutFigletText(font, text).lines;
+  }
   
-  // Select the font to use
-  const fontSet = selectAsciiFont(fontName);
-  
-  // For normal text that uses small font, just return the text itself
+  // For normal text in a words-only font, just return the text itself
   // Only convert single words or titles to ASCII art
-  if (text.includes(' ') && !text.startsWith('#') && fontName === 'smallAscii') {
+  if (text.includes(' ') && !text.startsWith('#') && font.wordsOnly) {
     return text.split('\n');
   }
   
   // Get the first character's ASCII art
   const firstChar = text[0];
-  const result = [...(fontSet[firstChar] || fontSet[' '])];
+  const result = [...getAsciiGlyph(font, firstChar)];
   
   // Process the rest of the characters
   for (let i = 1; i < text.length; i++) {
     const char = text[i];
-    const charArt = fontSet[char] || fontSet[' '];
+    const charArt = getAsciiGlyph(font, char);
     
     // Ensure the character art has the same height as our result
     const paddedCharArt = [...charArt];
@@ -725,10 +973,17 @@ function renderAsciiArtString(text: string, fontName: FontName = 'ascii'): strin
   return renderAsciiArt(text, fontName).join('\n');
 }
 
+// Embeds of unregistered art stay literal text (see layoutTextBlocks)
+const findUnknownArtEmbeds = (text: string): MarkupWarning[] =>
+  parseTextBlocks(text).flatMap(block =>
+    block.type === 'art' && !isAsciiArtRegistered(block.name)
+      ? [{ message: `Unknown ASCII art "${block.name}"`, offset: block.offset }]
+      : []);
+
 /**
  * Renders text with styles and returns formatted result
  * @param text The text to render with style markers
- * @param fontName The font to use: 'regular', 'ascii', 'blockAscii', 'blockAsciiDouble', 'outlineAscii', 'lineAscii', 'twinRailWireframe', 'smallAscii', or 'microAscii'
+ * @param fontName The font to use: 'regular' or any registered ASCII font ('ascii', 'smallAscii', 'slim', ...)
  * @param options Additional options including text wrapping
  * @returns Formatted text and link data
  */
@@ -741,8 +996,14 @@ export function renderFormattedText(
   html: string; // Add HTML output
   links: Array<{line: number, start: number, end: number, url: string}>;
   styles: Array<{line: number, start: number, end: number, style: TextStyle}>;
+  verbatimLines: number[]; // Art rows that keep their left-to-right order (see ./bidi)
+  warnings: MarkupWarning[]; // Markup problems, with offsets into the source text
 } {
   const renderedLines = renderText(text, fontName, options);
+  const warnings = [
+    ...parseMarkup(text || '').warnings,
+    ...(fontName === 'regular' ? findUnknownArtEmbeds(text || '') : [])
+  ].sort((a, b) => a.offset - b.offset);
   const linkData: Array<{line: number, start: number, end: number, url: string}> = [];
   const styleData: Array<{line: number, start: number, end: number, style: TextStyle}> = [];
 
@@ -777,19 +1038,24 @@ export function renderFormattedText(
     const spacedHtmlLines: string[] = [];
     const adjustedLinkData: Array<{line: number, start: number, end: number, url: string}> = [];
     const adjustedStyleData: Array<{line: number, start: number, end: number, style: TextStyle}> = [];
+    const verbatimLines: number[] = [];
     
     // Add spacing and adjust line numbers for links and styles
     renderedLines.forEach((line, i) => {
+      // Tight rows skip the spacing line, so count where this line actually lands
+      const spacedLine = spacedLines.length;
+
       // Add the current line
       spacedLines.push(line.line || '');
       spacedHtmlLines.push(line.html || '');
+      if (line.verbatim) verbatimLines.push(spacedLine);
       
       // Adjust line numbers for links on this line
       linkData.forEach(link => {
         if (link.line === i) {
           adjustedLinkData.push({
             ...link,
-            line: i * 2 // Each original line becomes 2 lines (original + spacing)
+            line: spacedLine
           });
         }
       });
@@ -799,13 +1065,13 @@ export function renderFormattedText(
         if (style.line === i) {
           adjustedStyleData.push({
             ...style,
-            line: i * 2 // Each original line becomes 2 lines (original + spacing)
+            line: spacedLine
           });
         }
       });
       
-      // Add an empty line after each line except the last one
-      if (i < renderedLines.length - 1) {
+      // Add an empty line after each line except the last one and rows that belong together
+      if (i < renderedLines.length - 1 && !line.tight) {
         spacedLines.push('');
         spacedHtmlLines.push('');
       }
@@ -815,7 +1081,9 @@ export function renderFormattedText(
       text: spacedLines.join('\n'),
       html: spacedHtmlLines.join('\n'),
       links: adjustedLinkData,  // Use adjusted link data
-      styles: adjustedStyleData // Use adjusted style data
+      styles: adjustedStyleData, // Use adjusted style data
+      verbatimLines,
+      warnings
     };
   }
   
@@ -823,30 +1091,11 @@ export function renderFormattedText(
     text: renderedLines.map(l => l.line || '').join('\n'),
     html: renderedLines.map(l => l.html || l.line || '').join('\n'),
     links: linkData,
-    styles: styleData
+    styles: styleData,
+    verbatimLines: [],
+    warnings
   };
 }
 
 // Export the functions for use in other modules
 export { renderAsciiArt, renderAsciiArtString };
-
-function selectAsciiFont(fontName: FontName) {
-  switch (fontName) {
-    case 'blockAscii':
-      return blockAsciiChars;
-    case 'blockAsciiDouble':
-      return blockAsciiDoubleChars;
-    case 'outlineAscii':
-      return outlineAsciiChars;
-    case 'lineAscii':
-      return lineAsciiChars;
-    case 'twinRailWireframe':
-      return twinRailWireframeChars;
-    case 'smallAscii':
-      return smallAsciiChars;
-    case 'microAscii':
-      return microAsciiChars;
-    default:
-      return asciiChars;
-  }
-}
@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+
+import { act } from 'react';
+import ReactDOM from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import AsciiArtGenerator from './AsciiArtGenerator';
+import { renderDirtyCells, renderFrameRows } from './frameRenderer';
+import { QUALITY_LEVELS, qualityGovernor } from './qualityGovernor';
+
+vi.mock('./frameRenderer', async importOriginal => {
+  const actual = await importOriginal<typeof import('./frameRenderer')>();
+  return {
+    ...actual,
+    renderDirtyCells: vi.fn(actual.renderDirtyCells),
+    renderFrameRows: vi.fn(actual.renderFrameRows)
+  };
+});
+
+// Unlike ./AsciiArtGenerator.test.tsx, the real hooks run here so frames go through useAnimation
+describe('AsciiArtGenerator frames', () => {
+  let container: HTMLDivElement;
+  let root: ReactDOM.Root;
+  let frameCallbacks: FrameRequestCallback[] = [];
+  let frameTimestamp = 0;
+
+  const runFrames = async (count: number) => {
+    for (let frame = 0; frame < count; frame++) {
+      frameTimestamp += 100;
+      const callbacks = frameCallbacks;
+      frameCallbacks = [];
+      await act(async () => {
+        callbacks.forEach(callback => callback(frameTimestamp));
+      });
+    }
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    window.sessionStorage.clear();
+    vi.spyOn(window, 'requestAnimationFrame').mockImplementation(callback => {
+      frameCallbacks.push(callback);
+      return frameCallbacks.length;
+    });
+    vi.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {});
+    // Slow jsdom frames must not drop the quality level to skipped columns
+    qualityGovernor.lock(QUALITY_LEVELS.length - 1);
+
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = ReactDOM.createRoot(container);
+  });
+
+  afterEach(async () => {
+    await act(async () => {
+      root.unmount();
+    });
+    container.remove();
+    qualityGovernor.lock(null);
+    frameCallbacks = [];
+    vi.mocked(renderDirtyCells).mockClear();
+    vi.mocked(renderFrameRows).mockClear();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  const renderGenerator = async (reducedMotion = false) => {
+    await act(async () => {
+      root.render(
+        <AsciiArtGenerator
+          textContent={[{ name: 'label', text: 'idle frames', x: 10, y: 20 }]}
+          reducedMotion={reducedMotion}
+        />
+      );
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(2000);
+    });
+  };
+
+  it('reuses cells on idle frames of the builtin wave field', async () => {
+    await renderGenerator();
+    await runFrames(12);
+
+    const masks = vi.mocked(renderDirtyCells).mock.calls.map(call => call[5]);
+    expect(masks.length).toBeGreaterThan(0);
+    const lastMask = masks[masks.length - 1];
+    const dirtyCells = lastMask.reduce((sum, value) => sum + value, 0);
+    expect(dirtyCells).toBeLessThan(lastMask.length / 2);
+  });
+
+  it('keeps a reduced-motion frame still while the pointer moves', async () => {
+    await renderGenerator(true);
+    await runFrames(3);
+    const frame = container.querySelector('pre')?.textContent;
+    expect(frame?.trim()).toBeTruthy();
+
+    for (const [clientX, clientY] of [[200, 150], [700, 500]]) {
+      await act(async () => {
+        window.dispatchEvent(new MouseEvent('mouseenter'));
+        window.dispatchEvent(new MouseEvent('mousemove', { clientX, clientY }));
+        await vi.advanceTimersByTimeAsync(100);
+      });
+      await runFrames(2);
+      expect(container.querySelector('pre')?.textContent).toBe(frame);
+    }
+  });
+});
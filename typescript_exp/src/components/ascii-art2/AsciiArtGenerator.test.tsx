@@ -146,7 +146,9 @@ vi.mock('./hooks', async () => {
       handleClick: vi.fn()
     }),
     useContentHeight: () => ({ maxScroll: 0 }),
-    useAnimation: () => {}
+    useAnimation: () => {},
+    useReducedMotion: () => false,
+    useLayoutInspectorOpen: () => false
   };
 });
 
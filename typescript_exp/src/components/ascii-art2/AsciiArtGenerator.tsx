@@ -1,5 +1,5 @@
 import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
-import { AsciiArtGeneratorProps, Size, LinkPosition, TextBounds } from './types';
+import { AsciiArtGeneratorProps, Size, LinkPosition } from './types';
 import { 
   SCALE_FACTOR, 
   CHAR_HEIGHT, 
@@ -12,7 +12,8 @@ import {
   getCurrentCharMetrics
 } from './constants';
 import { createSinTable, createCosTable, createFastSin, createFastCos } from './utils';
-import { getTextItemKey } from './hooks/useTextPositioning/positioning';
+import { flattenLayoutContainers } from './hooks/useTextPositioning/layoutContainers';
+import { collectNamedBounds, collectNamedRawBounds } from './layoutSnapshot';
 import { 
   useTextPositioning,
   useBlobCache,
@@ -20,9 +21,18 @@ import {
   useCursor,
   useLinks,
   useContentHeight,
-  useAnimation
+  useAnimation,
+  useReducedMotion,
+  useLayoutInspectorOpen
 } from './hooks';
-import { calculateCharacter, CharacterPrecomputation } from './renderer';
+import LayoutInspector from './LayoutInspector';
+import { calculateCharacter, CharacterPrecomputation, createStillCursorRef } from './renderer';
+import { RenderWorkerSource } from './renderWorkerClient';
+import { defaultBackgroundField, isBuiltinBackgroundField } from './backgroundFields';
+import { resolveCharacterRamp } from './characterRamps';
+import { resolveResponsiveTextContent } from './responsive';
+import { createBackgroundColorLookup, resolveColorPalette } from './palette';
+import { createFrozenClock, realTimeClock } from './animationClock';
 import {
   hasHandledAutoWhiteInPage,
   markHandledAutoWhiteInPage,
@@ -61,7 +71,7 @@ const getAutoWhiteInStateForPage = (pageUrl: string) => {
 };
 
 const AsciiArtGenerator: React.FC<AsciiArtGeneratorProps> = ({ 
-  textContent, 
+  textContent: authoredTextContent, 
   maxScrollHeight,
   onScrollOffsetChange,
   onLayoutChange,
@@ -76,14 +86,30 @@ const AsciiArtGenerator: React.FC<AsciiArtGeneratorProps> = ({
   initialScrollOffset,
   scrollToOffset,
   whiteInRequest,
-  externalContainerRef
+  externalContainerRef,
+  renderBackend = 'pre',
+  backgroundField = defaultBackgroundField,
+  characterRamp,
+  seed = 0,
+  clock = realTimeClock,
+  reducedMotion: reducedMotionOverride,
+  palette
 }) => {
   // Log Safari detection status for debugging
   // console.log(`Browser detection - IS_SAFARI: ${IS_SAFARI}`, navigator.userAgent);
   
   const textRef = useRef<HTMLPreElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const useCanvasBackend = renderBackend === 'canvas';
   const containerRef = useRef<HTMLDivElement | null>(null);
   const [size, setSize] = useState<Size>({ height: null, width: null });
+  // Items as they apply to this viewport; everything below lays out and looks up these
+  const textContent = useMemo(
+    () => (size.width && size.height
+      ? resolveResponsiveTextContent(authoredTextContent, { width: size.width, height: size.height })
+      : authoredTextContent),
+    [authoredTextContent, size.width, size.height]
+  );
   const scrollOffsetRef = useRef<number>(0);
   const appliedInitialScrollRef = useRef<number | null>(null);
   const appliedScrollToRef = useRef<number | null>(null);
@@ -128,51 +154,18 @@ const AsciiArtGenerator: React.FC<AsciiArtGeneratorProps> = ({
     linkPositionsRef
   );
 
-  const namedBounds = useMemo(() => {
-    const next: Record<string, TextBounds> = {};
-    textContent.forEach(item => {
-      if (!item.name) return;
-      const key = getTextItemKey(item.name, item.text, item.x, item.y);
-      const bounds = textPositionCache.bounds[key];
-      if (bounds) {
-        next[item.name] = bounds;
-      }
-    });
-    return next;
-  }, [textContent, textPositionCache.bounds]);
-
-  const namedRawBounds = useMemo(() => {
-    const next: Record<string, TextBounds> = {};
-    textContent.forEach(item => {
-      if (!item.name) return;
-      const key = getTextItemKey(item.name, item.text, item.x, item.y);
-      const positions = textPositionCache.cache[key];
-      if (!positions?.length) return;
-
-      let minX = Infinity;
-      let maxX = -Infinity;
-      let minY = Infinity;
-      let maxY = -Infinity;
-
-      positions.forEach(pos => {
-        minX = Math.min(minX, pos.startX);
-        maxX = Math.max(maxX, pos.endX);
-        minY = Math.min(minY, pos.y);
-        maxY = Math.max(maxY, pos.y);
-      });
+  // Container children are laid out as items of their own, under their own (or generated) names
+  const layoutItems = useMemo(() => flattenLayoutContainers(textContent), [textContent]);
 
-      if (minX !== Infinity && minY !== Infinity) {
-        next[item.name] = {
-          minX,
-          maxX,
-          minY,
-          maxY,
-          fixed: textPositionCache.bounds[key]?.fixed ?? false
-        };
-      }
-    });
-    return next;
-  }, [textContent, textPositionCache.cache, textPositionCache.bounds]);
+  const namedBounds = useMemo(
+    () => collectNamedBounds(layoutItems, textPositionCache),
+    [layoutItems, textPositionCache]
+  );
+
+  const namedRawBounds = useMemo(
+    () => collectNamedRawBounds(layoutItems, textPositionCache),
+    [layoutItems, textPositionCache]
+  );
 
   useEffect(() => {
     if (onLayoutChange) {
@@ -196,8 +189,24 @@ const AsciiArtGenerator: React.FC<AsciiArtGeneratorProps> = ({
     buildBlobCache 
   } = useBlobCache(textPositionCache, size);
 
+  // Reduced motion holds the background on one frame; explicit test clocks are left alone
+  const prefersReducedMotion = useReducedMotion();
+  const reducedMotion = reducedMotionOverride ?? prefersReducedMotion;
+  const layoutInspectorOpen = useLayoutInspectorOpen();
+  const frozenClock = useMemo(() => createFrozenClock(), []);
+  const activeClock = reducedMotion && clock.kind === 'realtime' ? frozenClock : clock;
+
   // Cursor tracking with white-in/whiteout support
-  const { cursor, cursorRef, startWhiteout, startWhiteIn } = useCursor(textRef, size);
+  const { cursor, cursorRef, startWhiteout, startWhiteIn } = useCursor(textRef, size, {
+    clock: activeClock,
+    seed,
+    reducedMotion
+  });
+  // Frames read this one; with reduced motion the pointer leaves the background alone
+  const frameCursorRef = useMemo(
+    () => (reducedMotion ? createStillCursorRef(cursorRef) : cursorRef),
+    [cursorRef, reducedMotion]
+  );
   const isWhiteoutActive = Boolean(cursor.whiteout?.active);
   const isWhiteInActive = Boolean(cursor.whiteIn?.active);
   const normalizeHashPath = useCallback((value: string) => {
@@ -695,6 +704,17 @@ const AsciiArtGenerator: React.FC<AsciiArtGeneratorProps> = ({
     startWhiteIn(whiteInRequest.position, { startProgress: whiteInRequest.startProgress });
   }, [startWhiteIn, whiteInRequest]);
 
+  const resolvedCharacterRamp = useMemo(() => resolveCharacterRamp(characterRamp), [characterRamp]);
+  const resolvedPalette = useMemo(() => resolveColorPalette(palette), [palette]);
+  const { rampRegions } = textPositionCache;
+  const backgroundColors = useMemo(
+    () => createBackgroundColorLookup(resolvedPalette, [
+      resolvedCharacterRamp,
+      ...(rampRegions ?? []).map(region => region.ramp)
+    ]),
+    [rampRegions, resolvedCharacterRamp, resolvedPalette]
+  );
+
   // Character calculation function
   const characterCalculator = useCallback((
     x: number,
@@ -716,16 +736,39 @@ const AsciiArtGenerator: React.FC<AsciiArtGeneratorProps> = ({
       time,
       textPositionCache,
       blobGridCache.current,
-      cursorRef,
+      frameCursorRef,
       scrollOffsetRef.current,
       fastSin,
         fastCos,
         precomputed,
         frameSeed,
         frameNow,
-        suppressTextCharacters
+        suppressTextCharacters,
+        backgroundField,
+        resolvedCharacterRamp,
+        seed
       );
-  }, [blobGridCache, cursorRef, fastCos, fastSin, suppressTextCharacters, textPositionCache]);
+  }, [backgroundField, blobGridCache, frameCursorRef, fastCos, fastSin, resolvedCharacterRamp, seed, suppressTextCharacters, textPositionCache]);
+
+  // Plain-data view of the scene so frames can be computed in a worker.
+  // Custom background fields can't cross the worker boundary, so they stay in-thread.
+  const renderWorkerSource = useMemo<RenderWorkerSource | undefined>(() => {
+    if (!isBuiltinBackgroundField(backgroundField)) {
+      return undefined;
+    }
+
+    return {
+      getScene: () => ({
+        textPositionCache,
+        blobGridCache: blobGridCache.current,
+        suppressTextCharacters,
+        backgroundFieldId: backgroundField.id,
+        characterRamp: resolvedCharacterRamp,
+        seed
+      }),
+      getCursorState: () => frameCursorRef.current
+    };
+  }, [backgroundField, blobGridCache, frameCursorRef, resolvedCharacterRamp, seed, suppressTextCharacters, textPositionCache]);
 
   // Animation
   useAnimation(
@@ -734,10 +777,21 @@ const AsciiArtGenerator: React.FC<AsciiArtGeneratorProps> = ({
     characterCalculator,
     scrollOffsetRef,
     textPositionCache,
-    isScrolling,
-    scrollVelocity,
     linkPositionsRef,
-    pauseAnimation
+    {
+      isPaused: pauseAnimation,
+      workerSource: renderWorkerSource,
+      renderBackend,
+      canvasRef,
+      transparentBackground,
+      clock: activeClock,
+      seed,
+      blobGridCacheRef: blobGridCache,
+      cursorStateRef: frameCursorRef,
+      timeInvariantField: Boolean(backgroundField.timeInvariant),
+      palette: resolvedPalette,
+      backgroundColors
+    }
   );
 
   // Resize handling
@@ -993,6 +1047,21 @@ const AsciiArtGenerator: React.FC<AsciiArtGeneratorProps> = ({
         `}} />
       )}
       
+      {useCanvasBackend && (
+        <canvas
+          ref={canvasRef}
+          aria-hidden="true"
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            marginLeft: '-1px',
+            pointerEvents: 'none',
+            zIndex: 0
+          }}
+        />
+      )}
+
       <pre
         ref={textRef}
         style={{
@@ -1003,12 +1072,16 @@ const AsciiArtGenerator: React.FC<AsciiArtGeneratorProps> = ({
           padding: 0,
           overflow: 'hidden',
           whiteSpace: 'pre',
-          backgroundColor: transparentBackground ? 'transparent' : 'white',
+          // The canvas backend paints underneath; the pre stays for pointer handling
+          backgroundColor: transparentBackground || useCanvasBackend ? 'transparent' : 'white',
           color: 'black',
           fontSize: `${SCALE_FACTOR}px`,
           lineHeight: `${SCALE_FACTOR}px`,
           fontFamily: 'monospace',
           letterSpacing: 0,
+          // Rows are already in visual order (see ./bidi); keep the browser from reordering them again
+          direction: 'ltr',
+          unicodeBidi: 'bidi-override',
           marginLeft: '-1px',
           width: 'calc(100% + 2px)',
           height: preHeightPx ? `${preHeightPx}px` : '100vh',
@@ -1228,6 +1301,37 @@ const AsciiArtGenerator: React.FC<AsciiArtGeneratorProps> = ({
           })}
         </div>
       )}
+
+      {layoutInspectorOpen && (
+        <LayoutInspector textPositionCache={textPositionCache} scrollOffset={scrollOffset} size={size} />
+      )}
+
+      {/* Dev builds list anchor problems on the page as well as in the console */}
+      {import.meta.env.DEV && !!textPositionCache.anchorDiagnostics?.length && (
+        <div
+          role="status"
+          data-anchor-diagnostics="true"
+          style={{
+            position: 'fixed',
+            left: 8,
+            bottom: 8,
+            maxWidth: 'calc(100% - 16px)',
+            padding: '6px 10px',
+            backgroundColor: 'rgba(255, 255, 255, 0.95)',
+            border: '1px solid #c0392b',
+            color: '#c0392b',
+            fontFamily: 'monospace',
+            fontSize: '12px',
+            lineHeight: 1.4,
+            pointerEvents: 'none',
+            zIndex: 4000
+          }}
+        >
+          {textPositionCache.anchorDiagnostics.map(diagnostic => (
+            <div key={diagnostic.message}>{diagnostic.message}</div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
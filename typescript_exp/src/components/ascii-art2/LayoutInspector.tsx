@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CHAR_HEIGHT, CHAR_WIDTH } from './constants';
+import { useInspectorPhotoRects } from './hooks';
+import {
+  buildInspectorBoxes,
+  buildInspectorLinkRects,
+  findInspectedBox,
+  InspectorRect
+} from './layoutInspector';
+import { Size, TextPositionCacheResult } from './types';
+
+type LayoutInspectorProps = {
+  textPositionCache: TextPositionCacheResult;
+  scrollOffset: number;
+  size: Size;
+};
+
+const PADDED_COLOR = 'rgba(0, 120, 255, 0.45)';
+const RAW_COLOR = '#0078ff';
+const ANCHOR_COLOR = '#e67e22';
+const LINK_COLOR = '#c0392b';
+const PHOTO_COLOR = '#27ae60';
+
+const rectStyle = (rect: InspectorRect, border: string): React.CSSProperties => ({
+  position: 'absolute',
+  left: `${rect.left}px`,
+  top: `${rect.top}px`,
+  width: `${rect.width}px`,
+  height: `${rect.height}px`,
+  border,
+  boxSizing: 'border-box'
+});
+
+const labelStyle = (left: number, top: number, color: string): React.CSSProperties => ({
+  position: 'absolute',
+  left: `${left}px`,
+  top: `${top}px`,
+  transform: 'translateY(-100%)',
+  padding: '0 3px',
+  backgroundColor: 'rgba(255, 255, 255, 0.9)',
+  color,
+  whiteSpace: 'nowrap'
+});
+
+// Long art and text would bury the placement fields
+const shortenStrings = (_key: string, value: unknown) =>
+  typeof value === 'string' && value.length > 120 ? `${value.slice(0, 120)}…` : value;
+
+/**
+ * Debug overlay drawn over the text and its link overlays (see ./layoutInspector).
+ * It never takes pointer events, so the page keeps working underneath; the
+ * hovered box is found from window mouse moves instead.
+ */
+const LayoutInspector: React.FC<LayoutInspectorProps> = ({ textPositionCache, scrollOffset, size }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+  const photoRects = useInspectorPhotoRects();
+  const scrolledRows = Math.floor(scrollOffset / CHAR_HEIGHT);
+
+  const boxes = useMemo(
+    () => buildInspectorBoxes(textPositionCache, scrolledRows, { charWidth: CHAR_WIDTH, charHeight: CHAR_HEIGHT }),
+    [textPositionCache, scrolledRows]
+  );
+  const linkRects = useMemo(
+    () => buildInspectorLinkRects(textPositionCache.links, textPositionCache.bounds, scrolledRows),
+    [textPositionCache.links, textPositionCache.bounds, scrolledRows]
+  );
+  const hovered = pointer ? findInspectedBox(boxes, pointer.x, pointer.y) : null;
+
+  useEffect(() => {
+    const handleMouseMove = (event: MouseEvent) => {
+      const rect = overlayRef.current?.getBoundingClientRect();
+      setPointer(rect ? { x: event.clientX - rect.left, y: event.clientY - rect.top } : null);
+    };
+    const handleMouseLeave = () => setPointer(null);
+    window.addEventListener('mousemove', handleMouseMove, { passive: true });
+    document.addEventListener('mouseleave', handleMouseLeave);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseleave', handleMouseLeave);
+    };
+  }, []);
+
+  return (
+    <div
+      ref={overlayRef}
+      data-layout-inspector="true"
+      aria-hidden="true"
+      style={{
+        position: 'absolute',
+        inset: 0,
+        overflow: 'hidden',
+        pointerEvents: 'none',
+        fontFamily: 'monospace',
+        fontSize: '10px',
+        lineHeight: '12px',
+        zIndex: 3500
+      }}
+    >
+      {boxes.map(box => (
+        <React.Fragment key={box.key}>
+          <div data-inspector-padded={box.label} style={rectStyle(box.padded, `1px dashed ${PADDED_COLOR}`)} />
+          {box.raw && (
+            <div
+              data-inspector-raw={box.label}
+              style={{
+                ...rectStyle(box.raw, `${box === hovered ? 2 : 1}px solid ${RAW_COLOR}`),
+                backgroundColor: box === hovered ? 'rgba(0, 120, 255, 0.08)' : 'transparent'
+              }}
+            />
+          )}
+          <div style={labelStyle((box.raw ?? box.padded).left, (box.raw ?? box.padded).top, RAW_COLOR)}>
+            {box.label}
+            {box.item.layout && ` [${box.item.layout.type}]`}
+            {box.nudge && ` (nudged ${box.nudge.x},${box.nudge.y})`}
+            {box.fixed && ' fixed'}
+          </div>
+        </React.Fragment>
+      ))}
+
+      <svg
+        width={size.width ?? 0}
+        height={size.height ?? 0}
+        style={{ position: 'absolute', left: 0, top: 0, overflow: 'visible' }}
+      >
+        {boxes.map(box => box.anchor && (
+          <g key={box.key} data-inspector-anchor={`${box.label}->${box.anchor.name}`}>
+            <line
+              x1={box.anchor.point.x}
+              y1={box.anchor.point.y}
+              x2={box.anchor.item.x}
+              y2={box.anchor.item.y}
+              stroke={ANCHOR_COLOR}
+              strokeDasharray="4 3"
+            />
+            <circle cx={box.anchor.point.x} cy={box.anchor.point.y} r={3} fill={ANCHOR_COLOR} />
+          </g>
+        ))}
+      </svg>
+
+      {linkRects.map((link, index) => (
+        <div
+          key={`inspector-link-${index}-${link.url}`}
+          data-inspector-link={link.url}
+          style={{ ...rectStyle(link, `1px dotted ${LINK_COLOR}`), backgroundColor: 'rgba(192, 57, 43, 0.06)' }}
+        />
+      ))}
+
+      {photoRects.map(photo => {
+        const rect = photo.fixed ? photo : { ...photo, top: photo.top - scrollOffset };
+        return (
+          <React.Fragment key={`inspector-photo-${photo.id}`}>
+            <div data-inspector-photo={photo.id} style={rectStyle(rect, `2px dashed ${PHOTO_COLOR}`)} />
+            <div style={labelStyle(rect.left, rect.top, PHOTO_COLOR)}>
+              {photo.id} @ {photo.anchorName}
+            </div>
+          </React.Fragment>
+        );
+      })}
+
+      <pre
+        data-inspector-details="true"
+        style={{
+          position: 'fixed',
+          top: 8,
+          right: 8,
+          maxWidth: 'min(420px, calc(100% - 16px))',
+          maxHeight: '60vh',
+          margin: 0,
+          padding: '6px 10px',
+          overflow: 'hidden',
+          whiteSpace: 'pre-wrap',
+          backgroundColor: 'rgba(255, 255, 255, 0.95)',
+          border: `1px solid ${RAW_COLOR}`,
+          color: '#222'
+        }}
+      >
+        {hovered
+          ? JSON.stringify({ key: hovered.key, nudge: hovered.nudge, item: hovered.item }, shortenStrings, 2)
+          : 'Layout inspector: hover a box for its item (Alt+Shift+L closes)'}
+      </pre>
+    </div>
+  );
+};
+
+export default LayoutInspector;
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { validateAnchorGraph } from './hooks/useTextPositioning/anchorGraph';
+import { buildTextPositionCache } from './hooks/useTextPositioning/buildTextPositionCache';
+import { TextContentItem } from './types';
+
+const item = (text: string, extra: Partial<TextContentItem> = {}): TextContentItem => ({
+  text,
+  x: 0,
+  y: 0,
+  usePercentPosition: false,
+  ...extra
+});
+
+describe('anchor graph', () => {
+  it('orders anchors before the items placed against them', () => {
+    const graph = validateAnchorGraph([
+      item('caption', { anchorTo: 'title' }),
+      item('footer', { anchorTo: 'caption', name: 'footer' }),
+      item('Title', { name: 'title' })
+    ]);
+    expect(graph.order).toEqual([2, 0, 1]);
+    expect(graph.diagnostics).toEqual([
+      expect.objectContaining({ type: 'missingAnchor', items: [1] })
+    ]);
+    expect(graph.items[1].anchorTo).toBeUndefined();
+  });
+
+  it('reports duplicate names and breaks anchor cycles', () => {
+    const textContent = [
+      item('A', { name: 'a', anchorTo: 'b' }),
+      item('B', { name: 'b', anchorTo: 'a' }),
+      item('C', { name: 'c', anchorTo: 'a', anchorOffsetY: 4 }),
+      item('again', { name: 'c' })
+    ];
+    const { order, diagnostics } = validateAnchorGraph(textContent);
+    expect(order).toEqual([1, 0, 2, 3]);
+    expect(diagnostics.map(({ type, items }) => ({ type, items }))).toEqual([
+      { type: 'duplicateName', items: [2, 3] },
+      { type: 'cycle', items: [0, 1] }
+    ]);
+    expect(diagnostics[1].message).toBe('Anchor cycle #0 "a" -> #1 "b" -> #0 "a"; #1 "b" is placed by its own x/y');
+
+    // Layout finishes instead of recursing forever, and anchors downstream of the cycle still work
+    const cache = buildTextPositionCache(textContent, 40, 10);
+    expect(cache.anchorDiagnostics).toEqual(diagnostics);
+    expect(cache.cache['c-C'][0].y).toBe(cache.bounds['a-A'].minY + 4);
+  });
+});
@@ -0,0 +1,64 @@
+import { renderHook } from '@testing-library/react';
+import { createRef } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { createFrozenClock, createSteppedClock, realTimeClock } from './animationClock';
+import { useCursor } from './hooks/useCursor';
+import { createSeededRandom, deriveFrameSeed } from './utils';
+
+describe('animation clocks', () => {
+  it('passes requestAnimationFrame timestamps through in real time', () => {
+    expect(realTimeClock.frameTime(1234.5)).toBe(1234.5);
+  });
+
+  it('reports the same instant from a frozen clock', () => {
+    const clock = createFrozenClock(5000);
+    expect(clock.frameTime(16)).toBe(5000);
+    expect(clock.frameTime(32)).toBe(5000);
+    expect(clock.now()).toBe(5000);
+  });
+
+  it('only moves a stepped clock when advanced', () => {
+    const clock = createSteppedClock(100);
+    expect(clock.frameTime(999)).toBe(100);
+    expect(clock.advance(16)).toBe(116);
+    expect(clock.now()).toBe(116);
+    clock.set(0);
+    expect(clock.frameTime(999)).toBe(0);
+  });
+
+  it('finishes whiteout and white-in at once under a frozen clock', () => {
+    const requestFrame = vi.spyOn(window, 'requestAnimationFrame');
+    const { result } = renderHook(() =>
+      useCursor(createRef<HTMLPreElement>(), { width: 800, height: 600 }, { clock: createFrozenClock(1000) }));
+    const onComplete = vi.fn();
+
+    result.current.startWhiteout({ x: 0, y: 0 }, undefined, { onComplete });
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    result.current.startWhiteIn({ x: 0, y: 0 });
+    expect(result.current.cursorRef.current.whiteIn).toBeNull();
+    expect(requestFrame).not.toHaveBeenCalled();
+    requestFrame.mockRestore();
+  });
+});
+
+describe('seeded randomness', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const take = (seed: number) => {
+      const random = createSeededRandom(seed);
+      return [random(), random(), random()];
+    };
+
+    expect(take(42)).toEqual(take(42));
+    expect(take(42)).not.toEqual(take(43));
+    take(42).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('derives frame seeds from the seed and frame time only', () => {
+    expect(deriveFrameSeed(7, 1000)).toBe(deriveFrameSeed(7, 1000.4));
+    expect(deriveFrameSeed(7, 1000)).not.toBe(deriveFrameSeed(8, 1000));
+    expect(deriveFrameSeed(7, 1000)).not.toBe(deriveFrameSeed(7, 1001));
+  });
+});
@@ -0,0 +1,49 @@
+// 'realtime' follows requestAnimationFrame and the wall clock, 'frozen' always
+// reports the same instant, 'stepped' only moves when advanced by the caller
+export type AnimationClockKind = 'realtime' | 'frozen' | 'stepped';
+
+/**
+ * Time source for the generator. frameTime drives the background animation,
+ * now() timestamps ripples and whiteout/white-in transitions. Both read the
+ * same value for frozen and stepped clocks, so a frame depends only on the
+ * clock, the seed and the input.
+ */
+export interface AnimationClock {
+  kind: AnimationClockKind;
+  frameTime: (rafTimestamp: number) => number;
+  now: () => number;
+}
+
+export interface SteppedAnimationClock extends AnimationClock {
+  kind: 'stepped';
+  advance: (milliseconds: number) => number;
+  set: (time: number) => void;
+}
+
+export const realTimeClock: AnimationClock = {
+  kind: 'realtime',
+  frameTime: (rafTimestamp) => rafTimestamp,
+  now: () => Date.now()
+};
+
+export const createFrozenClock = (time: number = 0): AnimationClock => ({
+  kind: 'frozen',
+  frameTime: () => time,
+  now: () => time
+});
+
+export const createSteppedClock = (startTime: number = 0): SteppedAnimationClock => {
+  let current = startTime;
+  return {
+    kind: 'stepped',
+    frameTime: () => current,
+    now: () => current,
+    advance: (milliseconds) => {
+      current += milliseconds;
+      return current;
+    },
+    set: (time) => {
+      current = time;
+    }
+  };
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { getAsciiArt, registerAsciiArt } from './artRegistry';
+import { parseTextBlocks } from './markdownBlocks';
+import { renderFormattedText } from './ASCII_text_renderer';
+
+registerAsciiArt('box', '+--+\n|<>|\n|  |\n+--+\n\n');
+
+describe('inline ASCII art embeds', () => {
+  it('registers padded blocks and rejects unknown names', () => {
+    registerAsciiArt('step', ['#', '##']);
+    expect(getAsciiArt('step')).toEqual({ name: 'step', rows: ['# ', '##'], width: 2 });
+    expect(getAsciiArt('box').rows).toHaveLength(4);
+    expect(() => getAsciiArt('missing')).toThrow('Unknown ASCII art "missing"');
+    expect(() => registerAsciiArt('no spaces', 'x')).toThrow('ASCII art names');
+  });
+
+  it('breaks paragraphs around block embeds and keeps escaped ones literal', () => {
+    expect(parseTextBlocks('Before {{art:box}} after\n\\{{art:box}}')).toEqual([
+      { type: 'paragraph', text: 'Before' },
+      { type: 'art', name: 'box', source: '{{art:box}}', offset: 7 },
+      { type: 'paragraph', text: 'after' },
+      { type: 'paragraph', text: '\\{{art:box}}' }
+    ]);
+
+    const { text, links } = renderFormattedText('Before {{art:box}} after [link](u)', 'regular', { maxWidth: 24 });
+    expect(text.split('\n')).toEqual(['Before', '', '+--+', '|<>|', '|  |', '+--+', '', 'after link']);
+    expect(links).toEqual([{ line: 7, start: 6, end: 10, url: 'u' }]);
+  });
+
+  it('leaves unregistered embeds as written and warns about them', () => {
+    const { text, warnings } = renderFormattedText('Before\n{{art:bxo|left}} after', 'regular', { maxWidth: 24 });
+    expect(text.split('\n')).toEqual(['Before', '', '{{art:bxo|left}}', '', 'after']);
+    expect(warnings).toEqual([{ message: 'Unknown ASCII art "bxo"', offset: 7 }]);
+  });
+
+  it('wraps the following text beside floated art, two art rows per text line', () => {
+    const left = renderFormattedText('{{art:box|left}}one two three four five six seven eight nine ten eleven\nnext', 'regular', { maxWidth: 24 });
+    expect(left.text.split('\n')).toEqual([
+      '+--+  one two three four',
+      '|<>|',
+      '|  |  five six seven',
+      '+--+',
+      'eight nine ten eleven',
+      '',
+      'next'
+    ]);
+
+    const right = renderFormattedText('{{art:box|right}}==one two== three four', 'regular', { maxWidth: 24 });
+    expect(right.text.split('\n')).toEqual([
+      'one two three four  +--+',
+      '                    |<>|',
+      '                    |  |',
+      '                    +--+'
+    ]);
+    expect(right.styles).toEqual([expect.objectContaining({ line: 0, start: 0, end: 7 })]);
+  });
+
+  it('rewraps the text below floated art from the source, not the hyphenated rows', () => {
+    registerAsciiArt('tall', ['##', '##']);
+    const { text } = renderFormattedText('{{art:tall|left}}de stad verkeersveiligheid', 'regular', {
+      maxWidth: 16,
+      hyphenation: 'nl'
+    });
+    expect(text.split('\n')).toEqual(['##  de stad ver-', '##', 'keersveiligheid']);
+  });
+});
@@ -0,0 +1,48 @@
+import { countGraphemeCells } from './utils';
+
+/**
+ * Named ASCII blocks for `{{art:name}}` embeds in regular text. Page modules
+ * register their art when they load, e.g. registerAsciiArt('fish', fishAscii).
+ */
+
+export interface AsciiArtBlock {
+  name: string;
+  rows: string[]; // Padded with spaces to `width`, so alignment keeps the shape
+  width: number; // In grid columns
+}
+
+const ART_NAME_PATTERN = /^[\w-]+$/;
+
+const registry = new Map<string, AsciiArtBlock>();
+
+/**
+ * Make a block available to `{{art:name}}`. Trailing blank rows are dropped;
+ * registering an existing name replaces it.
+ */
+export const registerAsciiArt = (name: string, art: string | string[]) => {
+  if (!ART_NAME_PATTERN.test(name)) {
+    throw new Error(`ASCII art names may only use letters, digits, "_" and "-", got "${name}"`);
+  }
+  const rows = (typeof art === 'string' ? art.split('\n') : art).map(row => row.trimEnd());
+  while (rows.length && !rows[rows.length - 1]) {
+    rows.pop();
+  }
+  const width = rows.reduce((widest, row) => Math.max(widest, countGraphemeCells(row)), 0);
+  registry.set(name, {
+    name,
+    rows: rows.map(row => row + ' '.repeat(width - countGraphemeCells(row))),
+    width
+  });
+};
+
+export const isAsciiArtRegistered = (name: string) => registry.has(name);
+
+export const listAsciiArt = () => Array.from(registry.keys());
+
+export const getAsciiArt = (name: string): AsciiArtBlock => {
+  const block = registry.get(name);
+  if (!block) {
+    throw new Error(`Unknown ASCII art "${name}". Registered art: ${listAsciiArt().join(', ') || 'none'}`);
+  }
+  return block;
+};
@@ -0,0 +1,108 @@
+import type { CharacterFrameData, CharacterPrecomputation } from './renderer';
+
+// Inputs for one background cell. calculateCharacter reuses a single instance
+// per call, so fields must read it synchronously and never keep a reference.
+export interface BackgroundFieldSample {
+  x: number;
+  y: number;
+  normX: number;
+  normY: number;
+  posX: number;
+  posY: number;
+  time: number;
+  timeFactor: number;
+  mouseX: number;
+  mouseY: number;
+  isInWindow: boolean;
+  mouseInfluence: number; // Distance to the cursor in normalized units, 0 when outside the window
+  precomputed: CharacterPrecomputation | null;
+  frameData: CharacterFrameData | null;
+  fastSin: (angle: number) => number;
+  fastCos: (angle: number) => number;
+}
+
+/**
+ * Maps a background cell to an intensity in [0, 1] (0 = densest character,
+ * 1 = blank). Blob masking, text, cursor glow and click ripples are layered
+ * on top by calculateCharacter, so fields only describe the ambient pattern.
+ */
+export interface BackgroundField {
+  id: string;
+  sample: (input: BackgroundFieldSample) => number;
+  // Ignores time, or drifts too slowly to see within AMBIENT_REFRESH_FRAMES, so idle
+  // frames may reuse cells while a sweep refreshes them (see ./dirtyRegions)
+  timeInvariant?: boolean;
+}
+
+// Its phases advance a few hundredths of a radian per second
+export const wavesBackgroundField: BackgroundField = {
+  id: 'waves',
+  timeInvariant: true,
+  sample: ({ x, y, posX, posY, timeFactor, mouseX, mouseY, isInWindow, mouseInfluence, precomputed, frameData, fastSin, fastCos }) => {
+    const wave1 = frameData
+      ? frameData.sinPosX[x] * frameData.cosPosY[y]
+      : fastSin(posX * 1.5 + timeFactor + mouseX) * fastCos(posY * 1.5 - timeFactor + mouseY);
+
+    const wave2Base = precomputed
+      ? precomputed.posXWave2[x] * posY + (frameData?.wave2Phase ?? timeFactor * 1.2)
+      : posX * posY * 0.8 + timeFactor * 1.2;
+    const wave2 = fastCos(wave2Base);
+
+    const spiralMagnitude = precomputed
+      ? Math.sqrt(precomputed.posXSquared[x] + precomputed.posYSquared[y]) * 3
+      : Math.sqrt(posX * posX + posY * posY) * 3;
+    const spiral = fastSin(spiralMagnitude - (frameData?.spiralPhase ?? timeFactor * 1.5));
+
+    let mouseRipple = 0;
+    if (isInWindow && mouseInfluence > 1e-6) { // Avoid division by zero/small number if mouseInfluence is 0
+      mouseRipple = fastSin(mouseInfluence * 5 - timeFactor * 2) / (mouseInfluence + 1);
+    }
+
+    return (wave1 * 0.3 + wave2 * 0.2 + spiral * 0.2 + mouseRipple * 0.3 + 1) / 2;
+  }
+};
+
+// Horizontal currents with slow eddies; the cursor leaves a small wake
+export const waterCurrentBackgroundField: BackgroundField = {
+  id: 'waterCurrent',
+  sample: ({ posX, posY, timeFactor, isInWindow, mouseInfluence, fastSin, fastCos }) => {
+    const drift = timeFactor * 40;
+    const current = fastSin(posX * 2.2 - drift + fastSin(posY * 3 + drift * 0.5) * 0.8);
+    const eddy = fastCos(posY * 4 - posX * 0.6 + drift * 0.7) * 0.5;
+    const wake = isInWindow ? fastSin(mouseInfluence * 8 - drift * 2) / (mouseInfluence * 3 + 1) : 0;
+
+    return (current * 0.5 + eddy * 0.3 + wake * 0.2 + 1) / 2;
+  }
+};
+
+const HAZARD_STRIPE_PERIOD = 16;
+
+// Diagonal warning tape bands that slowly crawl to the right
+export const hazardStripeBackgroundField: BackgroundField = {
+  id: 'hazardStripes',
+  sample: ({ x, y, timeFactor, fastSin }) => {
+    const phase = x + y * 2 - timeFactor * 300;
+    const band = fastSin((phase * Math.PI * 2) / HAZARD_STRIPE_PERIOD);
+    if (Math.abs(band) < 0.2) {
+      return 0.5;
+    }
+    return band > 0 ? 0.12 : 0.88;
+  }
+};
+
+export const defaultBackgroundField = wavesBackgroundField;
+
+const BUILTIN_BACKGROUND_FIELDS: Record<string, BackgroundField> = {
+  [wavesBackgroundField.id]: wavesBackgroundField,
+  [waterCurrentBackgroundField.id]: waterCurrentBackgroundField,
+  [hazardStripeBackgroundField.id]: hazardStripeBackgroundField
+};
+
+export const getBuiltinBackgroundField = (id: string): BackgroundField | null => {
+  return BUILTIN_BACKGROUND_FIELDS[id] ?? null;
+};
+
+// Only built-in fields can be rebuilt inside the render worker (functions don't clone)
+export const isBuiltinBackgroundField = (field: BackgroundField) => {
+  return BUILTIN_BACKGROUND_FIELDS[field.id] === field;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { detectTextDirection, layoutBidiLine } from './bidi';
+import { layoutGraphemeColumns } from './utils';
+import { buildTextPositionCache } from './hooks/useTextPositioning/buildTextPositionCache';
+
+const visual = (text: string, direction: 'ltr' | 'rtl') =>
+  layoutBidiLine(text, direction).cells.map(cell => cell.cell).join('');
+
+const gridRow = (cache: ReturnType<typeof buildTextPositionCache>, y: number, width: number) =>
+  cache.grid
+    .slice((y - cache.offsetY) * cache.gridCols, (y - cache.offsetY) * cache.gridCols + width)
+    .map(cell => cell?.char ?? ' ')
+    .join('');
+
+describe('bidirectional text', () => {
+  it('reorders right-to-left runs and keeps numbers reading left to right', () => {
+    expect(detectTextDirection('**שלום** world')).toBe('rtl');
+    expect(detectTextDirection('123 Doha')).toBe('ltr');
+    expect(visual('abc שלום', 'ltr')).toBe('abc םולש');
+    expect(visual('שלום 123 עולם', 'rtl')).toBe('םלוע 123 םולש');
+    expect(visual('שלום abc!', 'rtl')).toBe('!abc םולש');
+    expect(visual('(שלום)', 'rtl')).toBe('(םולש)');
+    expect(layoutBidiLine('plain (text)', 'ltr')).toEqual(layoutGraphemeColumns('plain (text)'));
+  });
+
+  it('shapes Arabic letters and merges lam-alef into one cell', () => {
+    const { cells, width } = layoutBidiLine('سلام', 'rtl');
+    expect(cells.map(cell => cell.cell)).toEqual(['ﻡ', 'ﻼ', 'ﺳ']);
+    expect(width).toBe(3);
+    // The ligature still covers both source letters, so styles and links find it
+    expect(cells[1]).toMatchObject({ start: 1, end: 3, column: 1 });
+    expect(visual('العدد ١٢٣ و 4.5%', 'rtl')).toBe('4.5% ﻭ ١٢٣ ﺩﺪﻌﻟﺍ');
+  });
+
+  it('right-aligns right-to-left items and places links on their visual columns', () => {
+    const cache = buildTextPositionCache(
+      [{ text: 'اقرأ [المزيد](u)', x: 0, y: 0, usePercentPosition: false, name: 'ar', maxWidthPercent: 50 }],
+      40,
+      10
+    );
+    expect(gridRow(cache, 0, 20).trimEnd()).toMatch(/^ {9}\S{6} \S{4}$/);
+    expect(cache.links).toEqual([{ textKey: 'ar-اقرأ [المزيد](u)', url: 'u', startX: 9, endX: 14, y: 0 }]);
+
+    // Heading art is drawn as-is, not mirrored with the paragraph
+    const heading = (direction: 'ltr' | 'rtl') => {
+      const headingCache = buildTextPositionCache(
+        [{ text: '# Hi', x: 0, y: 0, usePercentPosition: false, direction, alignment: 'left' }],
+        40,
+        10
+      );
+      return [0, 1, 2].map(y => gridRow(headingCache, y, 10));
+    };
+    expect(heading('ltr').join('').trim()).not.toBe('');
+    expect(heading('rtl')).toEqual(heading('ltr'));
+  });
+});
@@ -0,0 +1,232 @@
+import { GraphemeColumn, layoutGraphemeColumns } from './utils';
+
+/**
+ * Bidirectional text for the character grid. Text is wrapped in logical
+ * order; each line is then shaped and reordered into visual order, so the
+ * grid (and every backend drawing it) shows cells left to right as stored.
+ * This is a compact take on the Unicode Bidirectional Algorithm (UAX #9)
+ * without explicit embeddings or isolates: strong letters, numbers with
+ * their separators, neutrals resolved from their neighbours, per-line
+ * reordering and bracket mirroring.
+ */
+
+export type TextDirection = 'ltr' | 'rtl';
+
+type BidiClass = 'L' | 'R' | 'EN' | 'AN' | 'ES' | 'CS' | 'ET' | 'WS' | 'ON';
+
+// Hebrew, Arabic, Syriac, Thaana, NKo and friends, with their presentation forms
+const RTL_PATTERN = /[\u0590-\u05FF\u0600-\u065F\u066A-\u06EF\u06FA-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFC\u{10800}-\u{10FFF}\u{1E800}-\u{1EFFF}]/u;
+const STRONG_LTR_PATTERN = /[\p{L}\p{M}]/u;
+
+const classify = (cell: string): BidiClass => {
+  const codePoint = cell.codePointAt(0) ?? 0;
+  if (codePoint >= 0x30 && codePoint <= 0x39) return 'EN';
+  if ((codePoint >= 0x0660 && codePoint <= 0x0669) || (codePoint >= 0x06f0 && codePoint <= 0x06f9)) return 'AN';
+  if (RTL_PATTERN.test(cell)) return 'R';
+  if (cell === '+' || cell === '-') return 'ES';
+  if (cell === ',' || cell === '.' || cell === ':' || cell === '/' || cell === '\u00A0') return 'CS';
+  if ('#$%°€£¥¢'.includes(cell)) return 'ET';
+  if (/^\s/u.test(cell)) return 'WS';
+  if (STRONG_LTR_PATTERN.test(cell) || /\p{N}/u.test(cell)) return 'L';
+  return 'ON';
+};
+
+export const containsRtl = (text: string) => RTL_PATTERN.test(text);
+
+/**
+ * Direction of the first strong character; text without one reads left to right
+ */
+export const detectTextDirection = (text: string): TextDirection => {
+  for (const char of text) {
+    if (RTL_PATTERN.test(char)) return 'rtl';
+    if (STRONG_LTR_PATTERN.test(char)) return 'ltr';
+  }
+  return 'ltr';
+};
+
+const MIRRORED: Record<string, string> = {
+  '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<',
+  '«': '»', '»': '«', '‹': '›', '›': '‹', '⟨': '⟩', '⟩': '⟨'
+};
+
+// Arabic letters with their isolated presentation form; dual-joining letters
+// ('D') continue with final, initial and medial forms, right-joining ('R') only
+// with a final form
+const ARABIC_FORMS: Record<string, [number, 'D' | 'R']> = {
+  'آ': [0xfe81, 'R'], 'أ': [0xfe83, 'R'], 'ؤ': [0xfe85, 'R'], 'إ': [0xfe87, 'R'],
+  'ئ': [0xfe89, 'D'], 'ا': [0xfe8d, 'R'], 'ب': [0xfe8f, 'D'], 'ة': [0xfe93, 'R'],
+  'ت': [0xfe95, 'D'], 'ث': [0xfe99, 'D'], 'ج': [0xfe9d, 'D'], 'ح': [0xfea1, 'D'],
+  'خ': [0xfea5, 'D'], 'د': [0xfea9, 'R'], 'ذ': [0xfeab, 'R'], 'ر': [0xfead, 'R'],
+  'ز': [0xfeaf, 'R'], 'س': [0xfeb1, 'D'], 'ش': [0xfeb5, 'D'], 'ص': [0xfeb9, 'D'],
+  'ض': [0xfebd, 'D'], 'ط': [0xfec1, 'D'], 'ظ': [0xfec5, 'D'], 'ع': [0xfec9, 'D'],
+  'غ': [0xfecd, 'D'], 'ف': [0xfed1, 'D'], 'ق': [0xfed5, 'D'], 'ك': [0xfed9, 'D'],
+  'ل': [0xfedd, 'D'], 'م': [0xfee1, 'D'], 'ن': [0xfee5, 'D'], 'ه': [0xfee9, 'D'],
+  'و': [0xfeed, 'R'], 'ى': [0xfeef, 'R'], 'ي': [0xfef1, 'D'],
+  // Persian and Urdu letters live in Presentation Forms-A
+  'پ': [0xfb56, 'D'], 'چ': [0xfb7a, 'D'], 'ژ': [0xfb8a, 'R'], 'ک': [0xfb8e, 'D'],
+  'گ': [0xfb92, 'D'], 'ی': [0xfbfc, 'D']
+};
+const TATWEEL = 'ـ';
+// Lam followed by one of these alefs becomes a single ligature (isolated form; final is +1)
+const LAM_ALEF: Record<string, number> = { 'آ': 0xfef5, 'أ': 0xfef7, 'إ': 0xfef9, 'ا': 0xfefb };
+
+const joiningType = (cell: GraphemeColumn | undefined) => {
+  if (!cell) return null;
+  const base = Array.from(cell.cell)[0];
+  return base === TATWEEL ? 'D' : ARABIC_FORMS[base]?.[1] ?? null;
+};
+
+/**
+ * Replace Arabic letters with the presentation form their neighbours call
+ * for, merging lam-alef pairs into one cell. Marks stay on their letter.
+ */
+const shapeArabic = (cells: GraphemeColumn[]): GraphemeColumn[] => {
+  const shaped: GraphemeColumn[] = [];
+  for (let i = 0; i < cells.length; i++) {
+    const cell = cells[i];
+    const [base, ...marks] = Array.from(cell.cell);
+    const form = ARABIC_FORMS[base];
+    if (!form) {
+      shaped.push(cell);
+      continue;
+    }
+
+    const joinsBefore = joiningType(cells[i - 1]) === 'D';
+    const next = cells[i + 1];
+    const nextBase = next ? Array.from(next.cell)[0] : '';
+    if (base === 'ل' && LAM_ALEF[nextBase] !== undefined) {
+      const ligature = String.fromCodePoint(LAM_ALEF[nextBase] + (joinsBefore ? 1 : 0));
+      shaped.push({ ...cell, cell: ligature + marks.join('') + Array.from(next.cell).slice(1).join(''), end: next.end });
+      i++;
+      continue;
+    }
+
+    const [isolated, type] = form;
+    const joinsAfter = type === 'D' && joiningType(next) !== null;
+    let offset = 0;
+    if (joinsBefore && joinsAfter) offset = 3;
+    else if (joinsBefore) offset = 1;
+    else if (joinsAfter) offset = 2;
+    shaped.push({ ...cell, cell: String.fromCodePoint(isolated + offset) + marks.join('') });
+  }
+  return shaped;
+};
+
+/**
+ * Embedding level of every cell (even = left to right) for one line
+ */
+const resolveLevels = (cells: GraphemeColumn[], direction: TextDirection): number[] => {
+  const baseLevel = direction === 'rtl' ? 1 : 0;
+  const baseClass: BidiClass = direction === 'rtl' ? 'R' : 'L';
+  const types = cells.map(cell => classify(cell.cell));
+  const count = types.length;
+
+  // W4: a single separator between two numbers of the same kind joins them
+  for (let i = 1; i < count - 1; i++) {
+    const before = types[i - 1];
+    if ((types[i] === 'ES' && before === 'EN' && types[i + 1] === 'EN')
+      || (types[i] === 'CS' && before === types[i + 1] && (before === 'EN' || before === 'AN'))) {
+      types[i] = before;
+    }
+  }
+  // W5: currency and percent signs next to European numbers take their type
+  for (let i = 0; i < count; i++) {
+    if (types[i] !== 'ET') continue;
+    let end = i;
+    while (end < count && types[end] === 'ET') end++;
+    if ((i > 0 && types[i - 1] === 'EN') || types[end] === 'EN') {
+      for (let j = i; j < end; j++) types[j] = 'EN';
+    }
+    i = end - 1;
+  }
+  // W6: leftover separators are neutral; W7: numbers after a strong L read as L
+  let lastStrong: BidiClass = baseClass;
+  for (let i = 0; i < count; i++) {
+    if (types[i] === 'ES' || types[i] === 'CS' || types[i] === 'ET') types[i] = 'ON';
+    if (types[i] === 'L' || types[i] === 'R') lastStrong = types[i];
+    else if (types[i] === 'EN' && lastStrong === 'L') types[i] = 'L';
+  }
+
+  // N1/N2: neutrals between two runs of the same direction take it, otherwise the base direction
+  const strongDirection = (type: BidiClass) => (type === 'L' ? 'L' : type === 'R' || type === 'EN' || type === 'AN' ? 'R' : null);
+  for (let i = 0; i < count; i++) {
+    if (strongDirection(types[i])) continue;
+    let end = i;
+    while (end < count && !strongDirection(types[end])) end++;
+    const before = i > 0 ? strongDirection(types[i - 1]) : baseClass;
+    const after = end < count ? strongDirection(types[end]) : baseClass;
+    const resolved = before !== null && before === after ? before : baseClass;
+    for (let j = i; j < end; j++) types[j] = resolved;
+    i = end - 1;
+  }
+
+  // I1/I2
+  const levels = types.map(type => {
+    if (baseLevel === 0) return type === 'L' ? 0 : type === 'R' ? 1 : 2;
+    return type === 'R' ? 1 : 2;
+  });
+
+  // L1: trailing whitespace returns to the paragraph level
+  for (let i = count - 1; i >= 0 && /^\s/u.test(cells[i].cell); i--) {
+    levels[i] = baseLevel;
+  }
+  return levels;
+};
+
+/**
+ * Place one line on grid columns in visual order. Cells keep their logical
+ * `start`/`end`, so styles and links still match by source offset, while
+ * `cell` may hold a shaped or mirrored character. Lines without right-to-left
+ * text in a left-to-right item are laid out exactly as layoutGraphemeColumns does.
+ */
+export const layoutBidiLine = (
+  input: string,
+  direction: TextDirection,
+  maxColumns = Infinity
+): { cells: GraphemeColumn[]; width: number } => {
+  const logical = layoutGraphemeColumns(input, maxColumns);
+  if (direction === 'ltr' && !containsRtl(input)) {
+    return logical;
+  }
+
+  const cells = shapeArabic(logical.cells);
+  const levels = resolveLevels(cells, direction);
+
+  // L2: from the highest level down to the lowest odd one, reverse every run at or above it
+  const order = cells.map((_, index) => index);
+  const maxLevel = Math.max(0, ...levels);
+  const minOddLevel = Math.min(...levels.map(level => (level % 2 ? level : level + 1)));
+  for (let level = maxLevel; level >= minOddLevel; level--) {
+    for (let i = 0; i < order.length; i++) {
+      if (levels[order[i]] < level) continue;
+      let end = i;
+      while (end < order.length && levels[order[end]] >= level) end++;
+      order.splice(i, end - i, ...order.slice(i, end).reverse());
+      i = end - 1;
+    }
+  }
+
+  const visual: GraphemeColumn[] = [];
+  let column = 0;
+  for (const index of order) {
+    const cell = cells[index];
+    const mirrored = levels[index] % 2 ? MIRRORED[cell.cell] : undefined;
+    visual.push({ ...cell, cell: mirrored ?? cell.cell, column });
+    column += cell.width;
+  }
+  return { cells: visual, width: column };
+};
+
+/**
+ * Paragraph direction of a text item: its `direction`, or for 'auto' (the
+ * default) the first strong character of its text
+ */
+export const resolveTextDirection = (text: string, direction: 'ltr' | 'rtl' | 'auto' = 'auto'): TextDirection =>
+  direction === 'auto' ? detectTextDirection(text) : direction;
+
+/**
+ * Alignment used to place lines: right-to-left text defaults to the right
+ * edge, and its justified lines settle there too
+ */
+export const resolveLineAlignment = <A extends string>(alignment: A | undefined, direction: TextDirection) =>
+  direction === 'rtl' && (!alignment || alignment === 'justify') ? 'right' : alignment;
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CHARACTER_RAMP_PRESETS,
+  CharacterRampName,
+  findRegionRamp,
+  resolveCharacterRamp,
+  sampleCharacterRamp
+} from './characterRamps';
+import { selectedCharacterSet } from './constants';
+
+const sampleGrid = (rampName: CharacterRampName, seed: number) => {
+  const ramp = resolveCharacterRamp(rampName);
+  let output = '';
+  for (let y = 0; y < 6; y++) {
+    for (let x = 0; x < 12; x++) {
+      output += sampleCharacterRamp(ramp, (x * 0.37 + y * 0.11) % 1, x, y, seed);
+    }
+    output += '\n';
+  }
+  return output;
+};
+
+describe('character ramps', () => {
+  it('keeps the classic ramp identical to the original checker dithering', () => {
+    const length = selectedCharacterSet.length;
+    for (const [x, y, intensity] of [[0, 0, 0.2], [3, 4, 0.5], [7, 2, 0.99]]) {
+      const expected = selectedCharacterSet[((intensity * length + ((x + y) & 1)) | 0) % length];
+      expect(sampleCharacterRamp(CHARACTER_RAMP_PRESETS.classic, intensity, x, y, 123)).toBe(expected);
+    }
+  });
+
+  it('produces the same output for the same seed', () => {
+    expect(sampleGrid('sparse', 7)).toBe(sampleGrid('sparse', 7));
+    expect(sampleGrid('sparse', 7)).not.toBe(sampleGrid('sparse', 8));
+    expect(sampleGrid('braille', 7)).toBe(sampleGrid('braille', 8)); // checker ramps ignore the seed
+  });
+
+  it('rejects unknown preset names', () => {
+    expect(() => resolveCharacterRamp('nope' as CharacterRampName)).toThrow('Unknown character ramp "nope"');
+  });
+
+  it('matches fixed regions in screen rows and scrolling regions in layout rows', () => {
+    const regions = [
+      { bounds: { minX: 0, maxX: 4, minY: 0, maxY: 4, fixed: true }, ramp: CHARACTER_RAMP_PRESETS.blocks },
+      { bounds: { minX: 0, maxX: 4, minY: 20, maxY: 24, fixed: false }, ramp: CHARACTER_RAMP_PRESETS.braille }
+    ];
+
+    expect(findRegionRamp(regions, 2, 2, 50)).toBe(CHARACTER_RAMP_PRESETS.blocks);
+    expect(findRegionRamp(regions, 2, 2, 20)).toBe(CHARACTER_RAMP_PRESETS.braille);
+    expect(findRegionRamp(regions, 2, 10, 12)).toBe(CHARACTER_RAMP_PRESETS.braille);
+    expect(findRegionRamp(regions, 9, 10, 12)).toBeNull();
+  });
+});
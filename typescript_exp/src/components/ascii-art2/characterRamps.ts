@@ -0,0 +1,103 @@
+import { selectedCharacterSet } from './constants';
+import type { TextBounds } from './types';
+import { pseudoRandom } from './utils';
+
+// 'checker' alternates between neighbouring ramp steps like the original renderer,
+// 'noise' scatters them with seeded hash noise (stable for a given seed)
+export type RampDither = 'checker' | 'noise';
+
+// Characters ordered from densest (intensity 0) to blank (intensity 1)
+export interface CharacterRamp {
+  name: string;
+  chars: string[];
+  dither: RampDither;
+}
+
+export const createCharacterRamp = (
+  name: string,
+  characters: string,
+  dither: RampDither = 'checker'
+): CharacterRamp => {
+  const chars = Array.from(characters);
+  if (!chars.length) {
+    throw new Error(`Character ramp "${name}" needs at least one character`);
+  }
+  return { name, chars, dither };
+};
+
+export const CHARACTER_RAMP_PRESETS = {
+  classic: createCharacterRamp('classic', selectedCharacterSet),
+  blocks: createCharacterRamp('blocks', '█▓▒░ '),
+  braille: createCharacterRamp('braille', '⣿⣷⣶⣦⣤⣄⣀⡀ '),
+  sparse: createCharacterRamp('sparse', "*+=:;,.'`        ", 'noise')
+} satisfies Record<string, CharacterRamp>;
+
+export type CharacterRampName = keyof typeof CHARACTER_RAMP_PRESETS;
+export type CharacterRampSpec = CharacterRampName | CharacterRamp;
+
+export const defaultCharacterRamp: CharacterRamp = CHARACTER_RAMP_PRESETS.classic;
+
+export const resolveCharacterRamp = (spec?: CharacterRampSpec): CharacterRamp => {
+  if (!spec) {
+    return defaultCharacterRamp;
+  }
+  if (typeof spec !== 'string') {
+    return spec;
+  }
+  const preset = CHARACTER_RAMP_PRESETS[spec];
+  if (!preset) {
+    throw new Error(`Unknown character ramp "${spec}"`);
+  }
+  return preset;
+};
+
+// Offset keeps ramp noise independent from the transition noise in calculateCharacter
+const RAMP_NOISE_OFFSET = 0x5a17;
+
+export const sampleCharacterRamp = (
+  ramp: CharacterRamp,
+  intensity: number,
+  x: number,
+  y: number,
+  seed: number
+): string => {
+  const { chars, dither } = ramp;
+  const length = chars.length;
+  const jitter = dither === 'noise'
+    ? pseudoRandom(x, y, seed ^ RAMP_NOISE_OFFSET)
+    : ((x + y) & 1);
+  // Use bitwise OR for faster integer conversion
+  const index = (intensity * length + jitter) | 0;
+  return chars[index % length];
+};
+
+// A text item's padded bounds shaded with its own ramp
+export interface CharacterRampRegion {
+  bounds: TextBounds;
+  ramp: CharacterRamp;
+}
+
+/**
+ * Find the ramp for a background cell, preferring the last matching region.
+ * Fixed regions are tested in screen rows, scrolling regions in layout rows.
+ */
+export const findRegionRamp = (
+  regions: CharacterRampRegion[] | undefined,
+  x: number,
+  y: number,
+  scrolledY: number
+): CharacterRamp | null => {
+  if (!regions || !regions.length) {
+    return null;
+  }
+
+  for (let index = regions.length - 1; index >= 0; index--) {
+    const { bounds, ramp } = regions[index];
+    const layoutY = bounds.fixed ? y : y + scrolledY;
+    if (x >= bounds.minX && x <= bounds.maxX && layoutY >= bounds.minY && layoutY <= bounds.maxY) {
+      return ramp;
+    }
+  }
+
+  return null;
+};
@@ -59,10 +59,7 @@ export const BLOB_RADIUS = 10;  // Size of blob effect
 export const BLOB_PADDING = 15; // Padding around blobs
 export const GRID_CELL_SIZE = 4; // Cell size for spatial partitioning
 export const BLOB_CACHE_GRID_SIZE = 4; // Size of cells in the blob cache grid
-export const BLOB_CACHE_HEIGHT_MULTIPLIER = 2.8; // Number of viewport heights cached vertically
-export const SAFARI_BLOB_CACHE_HEIGHT_MULTIPLIER = 1.8; // Slightly shallower cache for Safari performance
 export const BLOB_PADDING_MULTIPLIER = 2.6; // Radius-based padding multiplier
-export const SAFARI_BLOB_PADDING_MULTIPLIER = 1.9; // Reduced padding for Safari performance
 
 // Browser-specific adjustments 
 export const IS_SAFARI = typeof navigator !== 'undefined' && 
@@ -80,3 +77,4 @@ export const DEBUG_LINK_OVERLAYS = false; // Set to true to visualize link overl
 // Performance constants
 export const MOUSE_MOVE_THROTTLE = 16; // ~60fps
 export const BASE_CHUNK_SIZE = 15; 
+export const AMBIENT_REFRESH_FRAMES = 8; // Idle frames over which the slow background drift is fully redrawn
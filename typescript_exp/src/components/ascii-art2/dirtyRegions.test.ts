@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { createDirtyRegionTracker } from './dirtyRegions';
+import { CharacterCalculator, FrameRowWindow, FrameTiming, renderDirtyCells, renderFrameRows } from './frameRenderer';
+import { calculateCharacter, clearCharacterCache, createCharacterPrecomputation } from './renderer';
+import { buildTextPositionCache } from './hooks/useTextPositioning/buildTextPositionCache';
+import { buildBlobGridCache } from './hooks/useBlobCache/buildBlobGridCache';
+import { createIdleCursorState } from './headlessRenderer';
+import { deriveFrameSeed } from './utils';
+import { hazardStripeBackgroundField, type BackgroundField } from './backgroundFields';
+import type { CursorState } from './types';
+
+const cols = 48;
+const rows = 24;
+const textPositionCache = buildTextPositionCache(
+  [{ text: 'dirty regions', x: 20, y: 40, name: 'label' }],
+  cols,
+  rows
+);
+const blobGridCache = buildBlobGridCache(textPositionCache, cols, rows);
+const precomputed = createCharacterPrecomputation(cols, rows, 1.5);
+const rowWindow: FrameRowWindow = {
+  rowStart: 0,
+  rowEnd: rows,
+  colStart: 0,
+  colEnd: cols,
+  skipFactor: 1,
+  chunkSize: 15,
+  baseChunkSize: 15
+};
+
+// Time-invariant field, so every change between frames comes from a tracked region
+const staticField: BackgroundField = {
+  id: 'static',
+  sample: ({ x, y }) => ((x * 7 + y * 3) % 10) / 10,
+  timeInvariant: true
+};
+
+const createCalculator = (cursorRef: { current: CursorState }, field: BackgroundField): CharacterCalculator =>
+  (x, y, frameCols, frameRows, aspect, time, frame, frameSeed, frameNow) => calculateCharacter(
+    x, y, frameCols, frameRows, aspect, time, textPositionCache, blobGridCache, cursorRef, 0,
+    Math.sin, Math.cos, frame, frameSeed, frameNow, false, field
+  );
+
+const createBuffers = () => new Array(rows).fill(null).map(() => new Array(cols).fill(' '));
+
+const renderSequence = (
+  cursorAt: (time: number) => CursorState,
+  times: number[],
+  { field = staticField, clockFrozen = false }: { field?: BackgroundField; clockFrozen?: boolean } = {}
+) => {
+  const tracker = createDirtyRegionTracker();
+  const reused = createBuffers();
+  const dirtyCounts: number[] = [];
+
+  times.forEach(time => {
+    const cursorRef = { current: cursorAt(time) };
+    const calculator = createCalculator(cursorRef, field);
+    const timing: FrameTiming = { cols, rows, aspect: 1.5, time, frameSeed: deriveFrameSeed(0, time), frameNow: time };
+
+    clearCharacterCache();
+    const fresh = createBuffers();
+    renderFrameRows(fresh, rowWindow, timing, precomputed, calculator);
+
+    clearCharacterCache();
+    const mask = tracker.collect({
+      cols,
+      rows,
+      cursor: cursorRef.current,
+      frameNow: time,
+      scrolledY: 0,
+      textPositionCache,
+      blobGridCache,
+      calculateCharacter: field,
+      timeInvariantField: Boolean(field.timeInvariant),
+      clockFrozen
+    });
+    if (mask) {
+      dirtyCounts.push(mask.reduce((sum, value) => sum + value, 0));
+      renderDirtyCells(reused, rowWindow, timing, precomputed, calculator, mask);
+    } else {
+      dirtyCounts.push(cols * rows);
+      reused.forEach(row => row.fill(' '));
+      renderFrameRows(reused, rowWindow, timing, precomputed, calculator);
+    }
+
+    expect(reused.map(row => row.join('')).join('\n')).toBe(fresh.map(row => row.join('')).join('\n'));
+  });
+
+  return dirtyCounts;
+};
+
+const frameTimes = Array.from({ length: 20 }, (_, index) => index * 60);
+
+describe('createDirtyRegionTracker', () => {
+  it('only redraws a fraction of an idle frame', () => {
+    const counts = renderSequence(() => createIdleCursorState(), frameTimes);
+
+    expect(counts[0]).toBe(cols * rows);
+    counts.slice(1).forEach(count => expect(count).toBeLessThan(cols * rows / 2));
+  });
+
+  it('keeps reused rows identical to full frames while click ripples animate', () => {
+    renderSequence(() => ({
+      ...createIdleCursorState(),
+      clickRipples: [
+        { position: { x: -0.3, y: 0.2 }, timestamp: 0, lifespan: 900, intensity: 0.9, speedFactor: 1 },
+        { position: { x: 0.5, y: 0.5 }, timestamp: 200, lifespan: 600, intensity: 0.6, speedFactor: 1.2 }
+      ]
+    }), frameTimes);
+  });
+
+  it('keeps reused rows identical to full frames during a whiteout', () => {
+    renderSequence(time => ({
+      ...createIdleCursorState(),
+      whiteout: { active: true, position: { x: 0, y: 0 }, timestamp: 0, progress: time / 1200, duration: 1200 }
+    }), frameTimes);
+  });
+
+  it('redraws every frame of a field that moves with time', () => {
+    const counts = renderSequence(() => createIdleCursorState(), frameTimes, { field: hazardStripeBackgroundField });
+
+    counts.forEach(count => expect(count).toBe(cols * rows));
+  });
+
+  it('redraws the reach of a resting cursor, whose ripple spans most of the screen', () => {
+    const counts = renderSequence(
+      () => ({ ...createIdleCursorState(), normalized: { x: 0.9, y: -0.9 }, isInWindow: true }),
+      frameTimes
+    );
+
+    counts.slice(1).forEach(count => expect(count).toBeLessThan(cols * rows));
+  });
+
+  it('reuses every cell under a frozen clock, even for a moving field and a resting cursor', () => {
+    const counts = renderSequence(
+      () => ({ ...createIdleCursorState(), normalized: { x: 0.5, y: -0.5 }, isInWindow: true }),
+      frameTimes.map(() => 600),
+      { field: hazardStripeBackgroundField, clockFrozen: true }
+    );
+
+    expect(counts[0]).toBe(cols * rows);
+    counts.slice(1).forEach(count => expect(count).toBe(0));
+  });
+
+  it('redraws everything when the scene changes', () => {
+    const tracker = createDirtyRegionTracker();
+    const input = {
+      cols,
+      rows,
+      cursor: createIdleCursorState(),
+      frameNow: 0,
+      scrolledY: 0,
+      textPositionCache,
+      blobGridCache,
+      calculateCharacter: staticField,
+      timeInvariantField: true,
+      clockFrozen: false
+    };
+
+    expect(tracker.collect(input)).toBeNull();
+    expect(tracker.collect(input)).not.toBeNull();
+    expect(tracker.collect({ ...input, scrolledY: 3 })).toBeNull();
+    tracker.invalidate();
+    expect(tracker.collect({ ...input, scrolledY: 3 })).toBeNull();
+  });
+});
@@ -0,0 +1,275 @@
+import { AMBIENT_REFRESH_FRAMES } from './constants';
+import { BlobGridCache, CursorState, TextPositionCacheResult } from './types';
+import {
+  CURSOR_EFFECT_RADIUS,
+  getClickRippleBand,
+  getTransitionRadius,
+  readBlobCell
+} from './renderer';
+
+export interface DirtyFrameInput {
+  cols: number;
+  rows: number;
+  cursor: CursorState;
+  frameNow: number;
+  scrolledY: number;
+  textPositionCache: TextPositionCacheResult;
+  blobGridCache: BlobGridCache;
+  calculateCharacter: unknown; // Compared by identity; a new calculator means new scene inputs
+  timeInvariantField: boolean; // The background field ignores time (see BackgroundField.timeInvariant)
+  clockFrozen: boolean; // Nothing drifts, pulses or crawls, whatever the field
+}
+
+export interface DirtyRegionTracker {
+  // Cells to recompute this frame (1 = dirty), or null when the whole frame must be redrawn
+  collect: (input: DirtyFrameInput) => Uint8Array | null;
+  // Forget the previous frame, e.g. after a frame was rendered outside the tracker
+  invalidate: () => void;
+}
+
+type RippleBand = { x: number; y: number; inner: number; outer: number };
+
+type TrackedFrame = {
+  cols: number;
+  rows: number;
+  scrolledY: number;
+  cursorX: number;
+  cursorY: number;
+  isInWindow: boolean;
+  overlayActive: boolean;
+  whiteoutKey: string | null;
+  whiteInKey: string | null;
+  whiteoutRadius: number;
+  whiteInRadius: number;
+  rippleBands: RippleBand[];
+  textPositionCache: TextPositionCacheResult;
+  blobGridCache: BlobGridCache;
+  calculateCharacter: unknown;
+};
+
+// Transitions are identified by where and when they started
+const transitionKey = (transition: { active: boolean; position: { x: number; y: number }; timestamp: number } | null) =>
+  transition?.active ? `${transition.position.x}:${transition.position.y}:${transition.timestamp}` : null;
+
+/**
+ * Tracks what changed between animation frames so idle frames only recompute
+ * the resting cursor's glow and ripple, live click ripple rings,
+ * whiteout/white-in fronts and the blob border band. The slow ambient drift
+ * is refreshed a few rows per frame. Under a frozen clock only click rings and
+ * transitions can change. Fields that move with a running clock redraw every
+ * frame, as do scrolling, cursor moves and scene changes.
+ */
+export const createDirtyRegionTracker = (): DirtyRegionTracker => {
+  let mask = new Uint8Array(0);
+  let previous: TrackedFrame | null = null;
+  let sweepRow = 0;
+  let borderRuns: number[] = [];
+  let borderKey: { blobGridCache: BlobGridCache; scrolledY: number; cols: number; rows: number } | null = null;
+
+  const markRow = (cols: number, y: number, start: number, end: number) => {
+    const from = Math.max(0, start);
+    const to = Math.min(cols, end);
+    if (from < to) {
+      mask.fill(1, y * cols + from, y * cols + to);
+    }
+  };
+
+  // Column range [start, end) whose normalized x lies within halfWidth of centerX
+  const columnSpan = (cols: number, centerX: number, halfWidth: number): [number, number] => [
+    Math.floor(((centerX - halfWidth + 1) * cols) / 2),
+    Math.ceil(((centerX + halfWidth + 1) * cols) / 2) + 1
+  ];
+
+  // Marks every cell within `radius` of the center, padded by one cell
+  const markCircle = (cols: number, rows: number, centerX: number, centerY: number, radius: number) => {
+    const padded = radius + 2 / Math.min(cols, rows);
+    for (let y = 0; y < rows; y++) {
+      const dy = (y * 2) / rows - 1 - centerY;
+      if (Math.abs(dy) > padded) {
+        continue;
+      }
+      const [start, end] = columnSpan(cols, centerX, Math.sqrt(padded * padded - dy * dy));
+      markRow(cols, y, start, end);
+    }
+  };
+
+  // Marks every cell except those safely inside `radius` of the center
+  const markOutsideCircle = (cols: number, rows: number, centerX: number, centerY: number, radius: number) => {
+    const shrunk = radius - 2 / Math.min(cols, rows);
+    for (let y = 0; y < rows; y++) {
+      const dy = (y * 2) / rows - 1 - centerY;
+      if (shrunk <= 0 || Math.abs(dy) >= shrunk) {
+        markRow(cols, y, 0, cols);
+        continue;
+      }
+      const halfWidth = Math.sqrt(shrunk * shrunk - dy * dy);
+      const insideStart = Math.ceil(((centerX - halfWidth + 1) * cols) / 2) + 1;
+      const insideEnd = Math.floor(((centerX + halfWidth + 1) * cols) / 2) - 1;
+      if (insideStart >= insideEnd) {
+        markRow(cols, y, 0, cols);
+        continue;
+      }
+      markRow(cols, y, 0, insideStart);
+      markRow(cols, y, insideEnd, cols);
+    }
+  };
+
+  const markAnnulus = (cols: number, rows: number, band: RippleBand) => {
+    const padding = 2 / Math.min(cols, rows);
+    const outer = band.outer + padding;
+    const inner = band.inner - padding;
+    for (let y = 0; y < rows; y++) {
+      const dy = (y * 2) / rows - 1 - band.y;
+      if (Math.abs(dy) > outer) {
+        continue;
+      }
+      const [start, end] = columnSpan(cols, band.x, Math.sqrt(outer * outer - dy * dy));
+      if (inner <= 0 || Math.abs(dy) >= inner) {
+        markRow(cols, y, start, end);
+        continue;
+      }
+      const innerHalf = Math.sqrt(inner * inner - dy * dy);
+      const innerStart = Math.ceil(((band.x - innerHalf + 1) * cols) / 2) + 1;
+      const innerEnd = Math.floor(((band.x + innerHalf + 1) * cols) / 2) - 1;
+      if (innerStart >= innerEnd) {
+        markRow(cols, y, start, end);
+        continue;
+      }
+      markRow(cols, y, start, innerStart);
+      markRow(cols, y, innerEnd, end);
+    }
+  };
+
+  // Border cells animate every frame; their runs only change with the blob cache or scroll row
+  const markBorderBand = (input: DirtyFrameInput) => {
+    const { blobGridCache, scrolledY, cols, rows } = input;
+    if (
+      !borderKey ||
+      borderKey.blobGridCache !== blobGridCache ||
+      borderKey.scrolledY !== scrolledY ||
+      borderKey.cols !== cols ||
+      borderKey.rows !== rows
+    ) {
+      borderRuns = [];
+      for (let y = 0; y < rows; y++) {
+        let runStart = -1;
+        for (let x = 0; x <= cols; x++) {
+          const isBorder = x < cols && (
+            readBlobCell(blobGridCache.fixed, x, y) === 2 ||
+            readBlobCell(blobGridCache.scroll, x, y + scrolledY) === 2
+          );
+          if (isBorder && runStart < 0) {
+            runStart = x;
+          } else if (!isBorder && runStart >= 0) {
+            borderRuns.push(y, runStart, x);
+            runStart = -1;
+          }
+        }
+      }
+      borderKey = { blobGridCache, scrolledY, cols, rows };
+    }
+
+    for (let index = 0; index < borderRuns.length; index += 3) {
+      markRow(cols, borderRuns[index], borderRuns[index + 1], borderRuns[index + 2]);
+    }
+  };
+
+  const collect = (input: DirtyFrameInput): Uint8Array | null => {
+    const { cols, rows, cursor, frameNow } = input;
+    const rippleBands: RippleBand[] = [];
+    for (const ripple of cursor.clickRipples) {
+      const band = getClickRippleBand(ripple, frameNow);
+      if (band) {
+        rippleBands.push({ x: ripple.position.x, y: ripple.position.y, ...band });
+      }
+    }
+
+    const current: TrackedFrame = {
+      cols,
+      rows,
+      scrolledY: input.scrolledY,
+      cursorX: cursor.normalized.x,
+      cursorY: cursor.normalized.y,
+      isInWindow: cursor.isInWindow,
+      overlayActive: Boolean(cursor.whiteOverlay?.active),
+      whiteoutKey: transitionKey(cursor.whiteout),
+      whiteInKey: transitionKey(cursor.whiteIn),
+      whiteoutRadius: cursor.whiteout?.active ? getTransitionRadius(cursor.whiteout.progress) : 0,
+      whiteInRadius: cursor.whiteIn?.active ? getTransitionRadius(cursor.whiteIn.progress) : 0,
+      rippleBands,
+      textPositionCache: input.textPositionCache,
+      blobGridCache: input.blobGridCache,
+      calculateCharacter: input.calculateCharacter
+    };
+    const last = previous;
+    previous = current;
+
+    const needsFullFrame =
+      (!input.timeInvariantField && !input.clockFrozen) ||
+      !last ||
+      last.cols !== cols ||
+      last.rows !== rows ||
+      last.scrolledY !== current.scrolledY ||
+      last.cursorX !== current.cursorX ||
+      last.cursorY !== current.cursorY ||
+      last.isInWindow !== current.isInWindow ||
+      last.overlayActive !== current.overlayActive ||
+      last.whiteoutKey !== current.whiteoutKey ||
+      last.whiteInKey !== current.whiteInKey ||
+      last.textPositionCache !== current.textPositionCache ||
+      last.blobGridCache !== current.blobGridCache ||
+      last.calculateCharacter !== current.calculateCharacter;
+
+    if (needsFullFrame || cols <= 0 || rows <= 0) {
+      return null;
+    }
+
+    if (mask.length !== cols * rows) {
+      mask = new Uint8Array(cols * rows);
+    } else {
+      mask.fill(0);
+    }
+
+    if (!input.clockFrozen) {
+      const sweepRows = Math.ceil(rows / AMBIENT_REFRESH_FRAMES);
+      for (let offset = 0; offset < sweepRows; offset++) {
+        markRow(cols, (sweepRow + offset) % rows, 0, cols);
+      }
+      sweepRow = (sweepRow + sweepRows) % rows;
+
+      markBorderBand(input);
+
+      if (cursor.isInWindow) {
+        markCircle(cols, rows, cursor.normalized.x, cursor.normalized.y, CURSOR_EFFECT_RADIUS);
+      }
+    }
+
+    // Previous rings are redrawn too so cells they leave return to the background
+    for (const band of last.rippleBands) {
+      markAnnulus(cols, rows, band);
+    }
+    for (const band of rippleBands) {
+      markAnnulus(cols, rows, band);
+    }
+
+    // Inside a transition circle everything is already blank; the front and the
+    // speckled area beyond it change every frame
+    if (cursor.whiteout?.active) {
+      const radius = Math.min(last.whiteoutRadius, current.whiteoutRadius);
+      markOutsideCircle(cols, rows, cursor.whiteout.position.x, cursor.whiteout.position.y, radius);
+    }
+    if (cursor.whiteIn?.active) {
+      const radius = Math.min(last.whiteInRadius, current.whiteInRadius);
+      markOutsideCircle(cols, rows, cursor.whiteIn.position.x, cursor.whiteIn.position.y, radius);
+    }
+
+    return mask;
+  };
+
+  return {
+    collect,
+    invalidate: () => {
+      previous = null;
+    }
+  };
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { layoutFigletText, parseFigletFont } from './figlet';
+import { renderAsciiArt, renderFormattedText } from './ASCII_text_renderer';
+
+// Two-row test face: only "|", "_", "/", "\" and "x" have glyphs, the rest are blanks
+const buildTestFont = (layoutFields: string) => {
+  const glyphs: Record<string, string[]> = {
+    ' ': ['$$', '$$'],
+    '/': [' /', '/ '],
+    '\\': ['\\ ', ' \\'],
+    _: ['  ', '__'],
+    '|': ['| ', '| '],
+    x: ['x ', ' x']
+  };
+  const lines = [`flf2a$ 2 2 4 ${layoutFields}`, 'test face'];
+  for (let code = 32; code < 127; code++) {
+    const [top, bottom] = glyphs[String.fromCharCode(code)] ?? ['  ', '  '];
+    lines.push(`${top}@`, `${bottom}@@`);
+  }
+  // The German block is required before any code-tagged glyphs
+  for (let index = 0; index < 7; index++) {
+    lines.push('  @', '  @@');
+  }
+  lines.push('0x263A  SMILE', 'oo@', '~~@@');
+  return lines.join('\n');
+};
+
+describe('FIGlet fonts', () => {
+  it('parses glyphs, endmarks and code-tagged characters', () => {
+    const font = parseFigletFont(buildTestFont('-1 1'), 'test');
+    expect(font.height).toBe(2);
+    expect(font.hardblank).toBe('$');
+    expect(font.layout).toBe(0);
+    expect(font.glyphs['/']).toEqual([' /', '/ ']);
+    expect(font.glyphs['☺']).toEqual(['oo', '~~']);
+  });
+
+  it('rejects sources without a FIGlet header', () => {
+    expect(() => parseFigletFont('not a font', 'broken')).toThrow('FIGlet font "broken" is missing its flf2a header');
+  });
+
+  it('keeps glyphs apart at full width and slides them together when kerning', () => {
+    expect(layoutFigletText(parseFigletFont(buildTestFont('-1 1'), 'full'), 'xx').lines).toEqual(['x x ', ' x x']);
+    expect(layoutFigletText(parseFigletFont(buildTestFont('0 1'), 'kern'), 'xx').lines).toEqual(['xx ', ' xx']);
+  });
+
+  it('applies the smushing rules from the full layout', () => {
+    // Equal characters, underscore, hierarchy and big-X rules (1 + 2 + 4 + 16)
+    const font = parseFigletFont(buildTestFont('23 1 0 151'), 'smush');
+    expect(layoutFigletText(font, '||').lines).toEqual(['| ', '| ']);
+    expect(layoutFigletText(font, '_|').lines).toEqual([' | ', '_| ']);
+    expect(layoutFigletText(font, '/\\')).toEqual({ lines: [' | ', '/ \\'], spans: [[0, 2], [2, 3]] });
+    // Hardblanks never smush away, so words stay apart
+    expect(layoutFigletText(font, '| |').lines).toEqual(['|  | ', '|  | ']);
+  });
+
+  it('renders bundled faces through the text renderer', () => {
+    expect(renderAsciiArt('HI', 'slim')).toEqual([
+      '      ',
+      '|_| | ',
+      '| | | '
+    ]);
+    const { styles } = renderFormattedText('H ==I==', 'slim');
+    expect(styles[0]).toMatchObject({ start: 6, end: 8, style: { isBold: true } });
+  });
+});
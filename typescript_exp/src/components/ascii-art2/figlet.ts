@@ -0,0 +1,278 @@
+// Horizontal layout bits from the FIGlet 2 header ("full layout")
+export const FIGLET_SMUSH_EQUAL = 1;
+export const FIGLET_SMUSH_LOWLINE = 2;
+export const FIGLET_SMUSH_HIERARCHY = 4;
+export const FIGLET_SMUSH_PAIR = 8;
+export const FIGLET_SMUSH_BIGX = 16;
+export const FIGLET_SMUSH_HARDBLANK = 32;
+export const FIGLET_KERNING = 64;
+export const FIGLET_SMUSHING = 128;
+
+const SMUSH_RULE_MASK = 63;
+const GERMAN_CODES = [196, 214, 220, 228, 246, 252, 223];
+
+export interface FigletFont {
+  name: string;
+  hardblank: string; // Drawn as a space but never smushed away
+  height: number;
+  baseline: number;
+  layout: number; // FIGLET_* bits; 0 means full width
+  glyphs: Record<string, string[]>; // Rows still contain hardblanks
+}
+
+// The parts of a font that layout needs; registered ASCII fonts provide the same fields
+export type FigletLayoutFont = Pick<FigletFont, 'hardblank' | 'height' | 'layout' | 'glyphs'>;
+
+// Per input character, the output columns [start, end) it added; smushed columns stay with the earlier character
+export interface FigletLayout {
+  lines: string[];
+  spans: Array<[number, number]>;
+}
+
+const parseCharCode = (value: string) => {
+  const negative = value.startsWith('-');
+  const digits = negative ? value.slice(1) : value;
+  const code = /^0x/i.test(digits)
+    ? parseInt(digits.slice(2), 16)
+    : digits.length > 1 && digits.startsWith('0')
+      ? parseInt(digits.slice(1), 8)
+      : parseInt(digits, 10);
+  return negative ? -code : code;
+};
+
+// Old-style layout (-1 full width, 0 kerning, >0 smushing rules) when no full layout is given
+const resolveLayout = (oldLayout: number, fullLayout: number | undefined) => {
+  if (fullLayout !== undefined && Number.isFinite(fullLayout)) {
+    return fullLayout & (SMUSH_RULE_MASK | FIGLET_KERNING | FIGLET_SMUSHING);
+  }
+  if (oldLayout === 0) {
+    return FIGLET_KERNING;
+  }
+  if (oldLayout < 0) {
+    return 0;
+  }
+  return (oldLayout & 31) | FIGLET_SMUSHING;
+};
+
+/**
+ * Parse a FIGlet 2 (.flf) font: the 95 printable ASCII glyphs, the optional
+ * German block and any code-tagged glyphs after it.
+ */
+export const parseFigletFont = (source: string, name: string): FigletFont => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const header = lines[0]?.split(/\s+/) ?? [];
+  if (!header[0]?.startsWith('flf2a') || header[0].length < 6) {
+    throw new Error(`FIGlet font "${name}" is missing its flf2a header`);
+  }
+
+  const hardblank = header[0][5];
+  const [height, baseline, , oldLayout, commentLines, , fullLayout] = header.slice(1).map(Number);
+  if (!Number.isInteger(height) || height <= 0 || !Number.isInteger(commentLines) || commentLines < 0) {
+    throw new Error(`FIGlet font "${name}" has an invalid header: ${lines[0]}`);
+  }
+
+  let cursor = 1 + commentLines;
+
+  const readGlyph = (): string[] | null => {
+    if (cursor + height > lines.length) {
+      return null;
+    }
+    const rows: string[] = [];
+    for (let row = 0; row < height; row++) {
+      const line = lines[cursor++].replace(/\s+$/, '');
+      const endmark = line[line.length - 1];
+      let end = line.length;
+      while (end > 0 && line[end - 1] === endmark) {
+        end--;
+      }
+      rows.push(line.slice(0, end));
+    }
+    const width = Math.max(...rows.map(row => row.length));
+    return rows.map(row => row.padEnd(width, ' '));
+  };
+
+  const glyphs: Record<string, string[]> = {};
+  for (let code = 32; code < 127; code++) {
+    const glyph = readGlyph();
+    if (!glyph) {
+      throw new Error(`FIGlet font "${name}" ends before the glyph for "${String.fromCharCode(code)}"`);
+    }
+    glyphs[String.fromCharCode(code)] = glyph;
+  }
+
+  for (const code of GERMAN_CODES) {
+    const glyph = readGlyph();
+    if (!glyph) {
+      break;
+    }
+    glyphs[String.fromCharCode(code)] = glyph;
+  }
+
+  while (cursor < lines.length) {
+    const tag = lines[cursor].trim();
+    if (!tag) {
+      cursor++;
+      continue;
+    }
+    cursor++;
+    const glyph = readGlyph();
+    const code = parseCharCode(tag.split(/\s+/)[0]);
+    if (!glyph) {
+      break;
+    }
+    if (Number.isFinite(code) && code >= 0) {
+      glyphs[String.fromCodePoint(code)] = glyph;
+    }
+  }
+
+  return {
+    name,
+    hardblank,
+    height,
+    baseline: Number.isInteger(baseline) ? baseline : height,
+    layout: resolveLayout(oldLayout, fullLayout),
+    glyphs
+  };
+};
+
+const HIERARCHY_CLASSES = ['|', '/\\', '[]', '{}', '()', '<>'];
+const PAIRS = ['[]', '][', '{}', '}{', '()', ')('];
+
+// The character two overlapping cells collapse into, or null when they can't merge
+const smushCharacters = (
+  font: FigletLayoutFont,
+  left: string,
+  right: string,
+  leftWidth: number,
+  rightWidth: number
+): string | null => {
+  if (left === ' ') {
+    return right;
+  }
+  if (right === ' ') {
+    return left;
+  }
+  // Narrow glyphs would disappear entirely
+  if (leftWidth < 2 || rightWidth < 2) {
+    return null;
+  }
+  const { layout, hardblank } = font;
+  if (!(layout & FIGLET_SMUSHING)) {
+    return null;
+  }
+
+  if (!(layout & SMUSH_RULE_MASK)) {
+    // Universal smushing: the later glyph wins unless it is a hardblank
+    if (left === hardblank) {
+      return right;
+    }
+    return right === hardblank ? left : right;
+  }
+
+  if (layout & FIGLET_SMUSH_HARDBLANK && left === hardblank && right === hardblank) {
+    return left;
+  }
+  if (left === hardblank || right === hardblank) {
+    return null;
+  }
+  if (layout & FIGLET_SMUSH_EQUAL && left === right) {
+    return left;
+  }
+  if (layout & FIGLET_SMUSH_LOWLINE) {
+    if (left === '_' && '|/\\[]{}()<>'.includes(right)) {
+      return right;
+    }
+    if (right === '_' && '|/\\[]{}()<>'.includes(left)) {
+      return left;
+    }
+  }
+  if (layout & FIGLET_SMUSH_HIERARCHY) {
+    const leftClass = HIERARCHY_CLASSES.findIndex(members => members.includes(left));
+    const rightClass = HIERARCHY_CLASSES.findIndex(members => members.includes(right));
+    if (leftClass >= 0 && rightClass >= 0 && leftClass !== rightClass) {
+      return leftClass > rightClass ? left : right;
+    }
+  }
+  if (layout & FIGLET_SMUSH_PAIR && PAIRS.includes(left + right)) {
+    return '|';
+  }
+  if (layout & FIGLET_SMUSH_BIGX) {
+    if (left === '/' && right === '\\') {
+      return '|';
+    }
+    if (left === '\\' && right === '/') {
+      return 'Y';
+    }
+    if (left === '>' && right === '<') {
+      return 'X';
+    }
+  }
+  return null;
+};
+
+/**
+ * Lay out text left to right the way figlet does: each glyph slides left
+ * until it touches the output (kerning) or overlaps it by one more column
+ * where every row can smush. Unknown characters fall back to the space glyph.
+ */
+export const layoutFigletText = (font: FigletLayoutFont, text: string): FigletLayout => {
+  const output: string[] = Array.from({ length: font.height }, () => '');
+  const spans: Array<[number, number]> = [];
+  let previousWidth = 0;
+
+  // Indexed by UTF-16 unit like the rest of the text renderer, so spans line up with style maps
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    const glyph = font.glyphs[char] ?? font.glyphs[' '] ?? [];
+    const width = glyph[0]?.length ?? 0;
+    const outputWidth = output[0].length;
+
+    let overlap = 0;
+    if (font.layout & (FIGLET_KERNING | FIGLET_SMUSHING) && outputWidth > 0) {
+      overlap = width;
+      for (let row = 0; row < font.height; row++) {
+        const line = output[row];
+        const glyphRow = glyph[row] ?? '';
+        let lineEnd = line.length - 1;
+        while (lineEnd > 0 && line[lineEnd] === ' ') {
+          lineEnd--;
+        }
+        let glyphStart = 0;
+        while (glyphStart < glyphRow.length && glyphRow[glyphStart] === ' ') {
+          glyphStart++;
+        }
+
+        let amount = glyphStart + line.length - 1 - lineEnd;
+        const left = line[lineEnd];
+        const right = glyphStart < glyphRow.length ? glyphRow[glyphStart] : null;
+        if (left === ' ') {
+          amount++;
+        } else if (right !== null && smushCharacters(font, left, right, previousWidth, width) !== null) {
+          amount++;
+        }
+        overlap = Math.min(overlap, amount);
+      }
+      overlap = Math.max(0, Math.min(overlap, outputWidth));
+    }
+
+    for (let row = 0; row < font.height; row++) {
+      const glyphRow = glyph[row] ?? '';
+      const line = output[row];
+      let merged = line.slice(0, line.length - overlap);
+      for (let column = 0; column < overlap; column++) {
+        const left = line[line.length - overlap + column];
+        const right = glyphRow[column] ?? ' ';
+        merged += smushCharacters(font, left, right, previousWidth, width) ?? right;
+      }
+      output[row] = merged + glyphRow.slice(overlap);
+    }
+
+    spans.push([outputWidth, output[0].length]);
+    previousWidth = width;
+  }
+
+  return {
+    lines: font.hardblank ? output.map(line => line.split(font.hardblank).join(' ')) : output,
+    spans
+  };
+};
@@ -0,0 +1,18 @@
+import { parseFigletFont } from './figlet';
+import type { AsciiFontDefinition } from './fontRegistry';
+import slimSource from '../../assets/fonts/slim.flf?raw';
+
+// Bundled .flf sources, registered by name in ./fontRegistry; add a face by importing it with ?raw and listing it here
+export const FIGLET_FONT_SOURCES: Record<string, string> = {
+  slim: slimSource
+};
+
+// Kerning and smushing come from the font's own header
+export const createFigletFontDefinition = (source: string, name: string): AsciiFontDefinition => {
+  const font = parseFigletFont(source, name);
+  return {
+    glyphs: font.glyphs,
+    height: font.height,
+    overlap: { layout: font.layout, hardblank: font.hardblank }
+  };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { getAsciiFont, listAsciiFonts, registerAsciiFont } from './fontRegistry';
+import { FIGLET_KERNING } from './figlet';
+import { renderAsciiArt, renderFormattedText } from './ASCII_text_renderer';
+
+describe('ASCII font registry', () => {
+  it('registers the built-in and bundled FIGlet fonts through the same API', () => {
+    expect(listAsciiFonts()).toEqual(expect.arrayContaining(['ascii', 'smallAscii', 'microAscii', 'slim']));
+    expect(getAsciiFont('smallAscii')).toMatchObject({ height: 4, layout: 0, wordsOnly: true });
+    expect(getAsciiFont('slim').layout & FIGLET_KERNING).toBeTruthy();
+  });
+
+  it('renders a registered font with per-glyph widths and padded height', () => {
+    registerAsciiFont('test-dots', {
+      glyphs: { ' ': [' '], o: ['o', 'O'], i: ['|', '|'] },
+      height: 2,
+      widths: { o: 2 }
+    });
+
+    expect(renderAsciiArt('oi o', 'test-dots')).toEqual(['o | o ', 'O | O ']);
+    const { styles } = renderFormattedText('o==i==', 'test-dots');
+    expect(styles[0]).toMatchObject({ start: 2, end: 3, style: { isBold: true } });
+  });
+
+  it('slides glyphs together when the definition asks for kerning', () => {
+    registerAsciiFont('test-kerned', {
+      glyphs: { ' ': ['$', '$'], l: ['l ', 'l '], '-': ['  ', '--'] },
+      overlap: { layout: FIGLET_KERNING, hardblank: '$' }
+    });
+
+    expect(renderAsciiArt('l-l', 'test-kerned')).toEqual(['l  l ', 'l--l ']);
+  });
+
+  it('rejects unknown font names with the registered alternatives', () => {
+    expect(() => renderAsciiArt('hi', 'nope')).toThrow(/Unknown ASCII font "nope"\. Registered fonts: ascii, /);
+    expect(() => registerAsciiFont('regular', { glyphs: {} })).toThrow('"regular" is reserved');
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  asciiChars,
+  blockAsciiChars,
+  blockAsciiDoubleChars,
+  outlineAsciiChars,
+  lineAsciiChars,
+  twinRailWireframeChars,
+  smallAsciiChars,
+  microAsciiChars
+} from '../asciiFonts';
+import { FIGLET_KERNING, FIGLET_SMUSHING } from './figlet';
+import { createFigletFontDefinition, FIGLET_FONT_SOURCES } from './figletFonts';
+
+// How neighbouring glyphs combine, using the FIGlet layout bits from ./figlet
+export interface AsciiFontOverlap {
+  layout: number; // FIGLET_KERNING and/or FIGLET_SMUSHING plus smushing rules
+  hardblank?: string; // Drawn as a space but never kerned or smushed away
+}
+
+export interface AsciiFontDefinition {
+  glyphs: Record<string, string[]>;
+  height?: number; // Defaults to the height of "A" (or the first glyph); glyphs are padded or cropped to it
+  widths?: Record<string, number>; // Per-glyph widths; the glyph's rows are padded or cropped to match
+  overlap?: AsciiFontOverlap; // Omit to place glyphs side by side
+  wordsOnly?: boolean; // Text containing spaces is left as plain text (titles only)
+}
+
+// A registered font with its definition resolved and glyphs normalized
+export interface AsciiFont {
+  name: string;
+  glyphs: Record<string, string[]>;
+  height: number;
+  layout: number; // 0 when glyphs sit side by side
+  hardblank: string;
+  wordsOnly: boolean;
+}
+
+type FontEntry = {
+  definition: AsciiFontDefinition | (() => AsciiFontDefinition);
+  font?: AsciiFont;
+};
+
+// 'regular' means plain text and never goes through the registry
+const RESERVED_FONT_NAME = 'regular';
+
+const registry = new Map<string, FontEntry>();
+
+const fitRow = (row: string, width: number) =>
+  row.length > width ? row.slice(0, width) : row.padEnd(width, ' ');
+
+const resolveFont = (name: string, definition: AsciiFontDefinition): AsciiFont => {
+  const { glyphs: sourceGlyphs, widths = {}, overlap } = definition;
+  const sample = sourceGlyphs['A'] || sourceGlyphs['a'] || sourceGlyphs['0'] || sourceGlyphs[' '] ||
+    Object.values(sourceGlyphs)[0] || [''];
+  const height = definition.height ?? sample.length;
+
+  const glyphs: Record<string, string[]> = {};
+  for (const [char, sourceRows] of Object.entries(sourceGlyphs)) {
+    let rows = sourceRows;
+    const width = widths[char];
+    if (width !== undefined) {
+      rows = rows.map(row => fitRow(row, width));
+    }
+    if (definition.height !== undefined && rows.length !== height) {
+      const blank = ' '.repeat(rows[0]?.length ?? 0);
+      rows = Array.from({ length: height }, (_, row) => rows[row] ?? blank);
+    }
+    glyphs[char] = rows;
+  }
+
+  return {
+    name,
+    glyphs,
+    height,
+    layout: overlap?.layout ?? 0,
+    hardblank: overlap?.hardblank ?? '',
+    wordsOnly: definition.wordsOnly ?? false
+  };
+};
+
+/**
+ * Make a font available to every `fontName` prop and renderer call. Pass a
+ * function to defer building the definition until the font is first used.
+ * Registering an existing name replaces it.
+ */
+export const registerAsciiFont = (
+  name: string,
+  definition: AsciiFontDefinition | (() => AsciiFontDefinition)
+) => {
+  if (name === RESERVED_FONT_NAME) {
+    throw new Error(`"${RESERVED_FONT_NAME}" is reserved for plain text and can't be registered as an ASCII font`);
+  }
+  registry.set(name, { definition });
+};
+
+export const isAsciiFontRegistered = (name: string) => registry.has(name);
+
+export const listAsciiFonts = () => Array.from(registry.keys());
+
+export const getAsciiFont = (name: string): AsciiFont => {
+  const entry = registry.get(name);
+  if (!entry) {
+    throw new Error(`Unknown ASCII font "${name}". Registered fonts: ${listAsciiFonts().join(', ')}`);
+  }
+  if (!entry.font) {
+    const definition = typeof entry.definition === 'function' ? entry.definition() : entry.definition;
+    entry.font = resolveFont(name, definition);
+  }
+  return entry.font;
+};
+
+// Whether glyphs slide into each other instead of sitting side by side
+export const fontOverlaps = (font: AsciiFont) =>
+  (font.layout & (FIGLET_KERNING | FIGLET_SMUSHING)) !== 0;
+
+// Unknown characters fall back to the space glyph
+export const getAsciiGlyph = (font: AsciiFont, char: string): string[] =>
+  font.glyphs[char] || font.glyphs[' '] || [];
+
+registerAsciiFont('ascii', { glyphs: asciiChars });
+registerAsciiFont('blockAscii', { glyphs: blockAsciiChars });
+registerAsciiFont('blockAsciiDouble', { glyphs: blockAsciiDoubleChars });
+registerAsciiFont('outlineAscii', { glyphs: outlineAsciiChars });
+registerAsciiFont('lineAscii', { glyphs: lineAsciiChars });
+registerAsciiFont('twinRailWireframe', { glyphs: twinRailWireframeChars });
+registerAsciiFont('smallAscii', { glyphs: smallAsciiChars, wordsOnly: true });
+registerAsciiFont('microAscii', { glyphs: microAsciiChars });
+
+// FIGlet faces are parsed on first use so unused ones cost nothing at startup
+for (const [name, source] of Object.entries(FIGLET_FONT_SOURCES)) {
+  registerAsciiFont(name, () => createFigletFontDefinition(source, name));
+}
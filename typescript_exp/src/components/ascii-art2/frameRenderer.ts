@@ -0,0 +1,123 @@
+import { CharacterPrecomputation } from './renderer';
+import { isWideGrapheme } from './utils';
+
+export type CharacterCalculator = (
+  x: number,
+  y: number,
+  cols: number,
+  rows: number,
+  aspect: number,
+  time: number,
+  precomputed: CharacterPrecomputation | null,
+  frameSeed: number,
+  frameNow: number
+) => string;
+
+export interface FrameTiming {
+  cols: number;
+  rows: number;
+  aspect: number;
+  time: number;
+  frameSeed: number;
+  frameNow: number;
+}
+
+export interface FrameRowWindow {
+  rowStart: number;
+  rowEnd: number;
+  colStart: number;
+  colEnd: number;
+  skipFactor: number;
+  chunkSize: number;
+  baseChunkSize: number;
+  wideCells?: boolean; // Text contains wide graphemes, so rows need alignWideCells
+}
+
+/**
+ * Keep every wide grapheme followed by exactly one empty continuation cell.
+ * Per-cell effects (whiteout, sampling with skipFactor, dirty updates) can
+ * split a pair; a lone continuation becomes a space and a wide glyph claims
+ * the cell to its right, so the rest of the row stays in its columns.
+ */
+export const alignWideCells = (row: string[], colStart: number, colEnd: number) => {
+  for (let x = colStart; x < colEnd; x++) {
+    const char = row[x];
+    if (char === '') {
+      if (x === 0 || !isWideGrapheme(row[x - 1])) {
+        row[x] = ' ';
+      }
+    } else if (isWideGrapheme(char) && x + 1 < row.length) {
+      row[x + 1] = '';
+    }
+  }
+};
+
+/**
+ * Fill the active window of the row buffers with background/text characters.
+ * Shared by the in-thread animation loop and the render worker so both paths
+ * produce identical frames.
+ */
+export const renderFrameRows = (
+  rowBuffers: string[][],
+  rowWindow: FrameRowWindow,
+  timing: FrameTiming,
+  precomputed: CharacterPrecomputation | null,
+  calculateCharacter: CharacterCalculator
+) => {
+  const { rowStart, rowEnd, colStart, colEnd, skipFactor, chunkSize, baseChunkSize } = rowWindow;
+  const { cols, rows, aspect, time, frameSeed, frameNow } = timing;
+  const activeRowCount = Math.max(1, rowEnd - rowStart);
+  const numChunks = Math.ceil(activeRowCount / baseChunkSize);
+
+  for (let chunk = 0; chunk < numChunks; chunk++) {
+    const chunkRowStart = rowStart + chunk * baseChunkSize;
+    if (chunkRowStart >= rowEnd) {
+      break;
+    }
+    const chunkRowEnd = Math.min(chunkRowStart + chunkSize, rowEnd);
+
+    for (let y = chunkRowStart; y < chunkRowEnd; y++) {
+      const row = rowBuffers[y];
+      for (let x = colStart; x < colEnd; x += skipFactor) {
+        const char = calculateCharacter(x, y, cols, rows, aspect, time, precomputed, frameSeed, frameNow);
+        row[x] = char;
+
+        for (let i = 1; i < skipFactor && x + i < cols; i++) {
+          row[x + i] = char;
+        }
+      }
+      if (rowWindow.wideCells) {
+        alignWideCells(row, colStart, colEnd);
+      }
+    }
+  }
+};
+
+/**
+ * Recompute only the cells flagged in the dirty mask (row-major, cols wide)
+ * inside the active window; every other cell keeps last frame's character.
+ */
+export const renderDirtyCells = (
+  rowBuffers: string[][],
+  rowWindow: FrameRowWindow,
+  timing: FrameTiming,
+  precomputed: CharacterPrecomputation | null,
+  calculateCharacter: CharacterCalculator,
+  dirtyMask: Uint8Array
+) => {
+  const { rowStart, rowEnd, colStart, colEnd } = rowWindow;
+  const { cols, rows, aspect, time, frameSeed, frameNow } = timing;
+
+  for (let y = rowStart; y < rowEnd; y++) {
+    const row = rowBuffers[y];
+    const rowOffset = y * cols;
+    for (let x = colStart; x < colEnd; x++) {
+      if (dirtyMask[rowOffset + x]) {
+        row[x] = calculateCharacter(x, y, cols, rows, aspect, time, precomputed, frameSeed, frameNow);
+      }
+    }
+    if (rowWindow.wideCells) {
+      alignWideCells(row, colStart, colEnd);
+    }
+  }
+};
@@ -0,0 +1,42 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { renderHeadlessFrame } from './headlessRenderer';
+import { CHAR_HEIGHT } from './constants';
+import type { TextContentItem } from './types';
+
+const page: TextContentItem[] = [
+  { text: 'GOLDEN', x: 0, y: 2, fontName: 'smallAscii', centered: true, fixed: true, name: 'title' },
+  {
+    text: 'Frames rendered without a browser.',
+    x: 10,
+    y: 60,
+    maxWidthPercent: 60,
+    name: 'body'
+  }
+];
+
+describe('renderHeadlessFrame', () => {
+  it('matches the golden frame', async () => {
+    const frame = renderHeadlessFrame({ textContent: page, cols: 64, rows: 24, time: 1500, seed: 3 });
+    await expect(frame).toMatchFileSnapshot('./__golden__/headless-page.txt');
+  });
+
+  it('renders identical frames for identical inputs', () => {
+    const options = { textContent: page, cols: 48, rows: 20, time: 900, seed: 11 };
+    expect(renderHeadlessFrame(options)).toBe(renderHeadlessFrame(options));
+    expect(renderHeadlessFrame(options)).not.toBe(renderHeadlessFrame({ ...options, time: 4000 }));
+  });
+
+  it('scrolls layout rows but keeps fixed items in place', () => {
+    const options = { textContent: page, cols: 64, rows: 24, time: 0 };
+    const top = renderHeadlessFrame(options).split('\n');
+    const scrolled = renderHeadlessFrame({ ...options, scrollOffset: CHAR_HEIGHT * 4 }).split('\n');
+
+    const bodyRow = top.findIndex(row => row.includes('Frames rendered'));
+    expect(bodyRow).toBeGreaterThan(0);
+    expect(scrolled.findIndex(row => row.includes('Frames rendered'))).toBe(bodyRow - 4);
+    const titleRow = top.findIndex(row => row.includes('/ __|'));
+    expect(titleRow).toBeGreaterThanOrEqual(0);
+    expect(scrolled.findIndex(row => row.includes('/ __|'))).toBe(titleRow);
+  });
+});
@@ -0,0 +1,132 @@
+import { BASE_CHUNK_SIZE, CHAR_HEIGHT, CHAR_WIDTH } from './constants';
+import { CursorState, TextContentItem } from './types';
+import { BackgroundField, defaultBackgroundField } from './backgroundFields';
+import { CharacterRampSpec, resolveCharacterRamp } from './characterRamps';
+import { calculateCharacter, clearCharacterCache, createCharacterPrecomputation } from './renderer';
+import { renderFrameRows } from './frameRenderer';
+import { buildTextPositionCache } from './hooks/useTextPositioning/buildTextPositionCache';
+import { buildBlobGridCache } from './hooks/useBlobCache/buildBlobGridCache';
+import { resolveResponsiveTextContent } from './responsive';
+import { createCosTable, createFastCos, createFastSin, createSinTable, deriveFrameSeed } from './utils';
+
+export interface HeadlessFrameOptions {
+  textContent: TextContentItem[];
+  cols: number;
+  rows: number;
+  scrollOffset?: number; // Pixels, like the generator's scroll offsets
+  time?: number; // Clock value in milliseconds; also timestamps ripples and transitions
+  seed?: number;
+  aspect?: number; // Defaults to the pixel aspect of the grid at the current character metrics
+  backgroundField?: BackgroundField;
+  characterRamp?: CharacterRampSpec;
+  cursor?: CursorState;
+  suppressTextCharacters?: boolean;
+}
+
+export const createIdleCursorState = (): CursorState => ({
+  grid: { x: 0, y: 0 },
+  normalized: { x: 0, y: 0 },
+  isInWindow: false,
+  isActive: false,
+  clickRipples: [],
+  whiteout: null,
+  whiteIn: null,
+  whiteOverlay: null
+});
+
+// Same lookup tables as the generator so headless frames match the browser
+let trig: { fastSin: (angle: number) => number; fastCos: (angle: number) => number } | null = null;
+
+const getTrig = () => {
+  if (!trig) {
+    trig = {
+      fastSin: createFastSin(createSinTable()),
+      fastCos: createFastCos(createCosTable())
+    };
+  }
+  return trig;
+};
+
+/**
+ * Render one full frame of an ASCII page as text rows, without React or the DOM.
+ * Positioning, blob planes and characters come from the same code the
+ * generator uses, so a frame depends only on the options passed in.
+ */
+export const renderHeadlessFrame = ({
+  textContent,
+  cols,
+  rows,
+  scrollOffset = 0,
+  time = 0,
+  seed = 0,
+  aspect = (cols * CHAR_WIDTH) / Math.max(1, rows * CHAR_HEIGHT),
+  backgroundField = defaultBackgroundField,
+  characterRamp,
+  cursor = createIdleCursorState(),
+  suppressTextCharacters = false
+}: HeadlessFrameOptions): string => {
+  if (cols <= 0 || rows <= 0) {
+    return '';
+  }
+
+  const viewport = { width: cols * CHAR_WIDTH, height: rows * CHAR_HEIGHT };
+  const textPositionCache = buildTextPositionCache(resolveResponsiveTextContent(textContent, viewport), cols, rows);
+  const blobGridCache = buildBlobGridCache(textPositionCache, cols, rows);
+  const ramp = resolveCharacterRamp(characterRamp);
+  const cursorRef = { current: cursor };
+  const { fastSin, fastCos } = getTrig();
+
+  const rowBuffers: string[][] = new Array(rows)
+    .fill(null)
+    .map(() => new Array(cols).fill(' '));
+
+  clearCharacterCache();
+  renderFrameRows(
+    rowBuffers,
+    {
+      rowStart: 0,
+      rowEnd: rows,
+      colStart: 0,
+      colEnd: cols,
+      skipFactor: 1,
+      chunkSize: BASE_CHUNK_SIZE,
+      baseChunkSize: BASE_CHUNK_SIZE,
+      wideCells: textPositionCache.hasWideCells
+    },
+    {
+      cols,
+      rows,
+      aspect,
+      time,
+      frameSeed: deriveFrameSeed(seed, time),
+      frameNow: time
+    },
+    createCharacterPrecomputation(cols, rows, aspect),
+    (x, y, frameCols, frameRows, frameAspect, frameTime, precomputed, frameSeed, frameNow) =>
+      calculateCharacter(
+        x,
+        y,
+        frameCols,
+        frameRows,
+        frameAspect,
+        frameTime,
+        textPositionCache,
+        blobGridCache,
+        cursorRef,
+        scrollOffset,
+        fastSin,
+        fastCos,
+        precomputed,
+        frameSeed,
+        frameNow,
+        suppressTextCharacters,
+        backgroundField,
+        ramp,
+        seed
+      )
+  );
+  // Cached results are keyed by cell only; don't leak them into the next live frame
+  clearCharacterCache();
+
+  return rowBuffers.map(row => row.join('')).join('\n');
+};
@@ -4,4 +4,6 @@ export { useAnimation } from './useAnimation';
 export { useBlobCache } from './useBlobCache';
 export { useContentHeight } from './useContentHeight';
 export { useTextPositioning } from './useTextPositioning';
+export { useReducedMotion } from './useReducedMotion';
+export { useLayoutInspectorOpen, useInspectorPhotoRects } from './useLayoutInspector';
 export * from './useCursor'; 
\ No newline at end of file
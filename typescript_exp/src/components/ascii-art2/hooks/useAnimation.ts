@@ -1,25 +1,59 @@
 import { useEffect, useRef } from 'react';
 import {
-  FRAME_DURATION,
   BASE_CHUNK_SIZE,
   CHAR_HEIGHT,
   IS_SAFARI
 } from '../constants';
-import { LinkPosition, Size, TextPositionCacheResult } from '../types';
-import { getGridDimensions } from '../utils';
-import { clearCharacterCache, CharacterPrecomputation } from '../renderer';
-
-type CharacterCalculator = (
-  x: number,
-  y: number,
-  cols: number,
-  rows: number,
-  aspect: number,
-  time: number,
-  precomputed: CharacterPrecomputation | null,
-  frameSeed: number,
-  frameNow: number
-) => string;
+import { BlobGridCache, CursorState, LinkPosition, Size, TextPositionCacheResult } from '../types';
+import { deriveFrameSeed, getGridDimensions } from '../utils';
+import { AnimationClock, realTimeClock } from '../animationClock';
+import {
+  clearCharacterCache,
+  createCharacterPrecomputation,
+  CharacterPrecomputation
+} from '../renderer';
+import {
+  CharacterCalculator,
+  FrameRowWindow,
+  FrameTiming,
+  renderDirtyCells,
+  renderFrameRows
+} from '../frameRenderer';
+import { createDirtyRegionTracker } from '../dirtyRegions';
+import {
+  canUseRenderWorker,
+  createRenderWorkerClient,
+  RenderWorkerClient,
+  RenderWorkerSource
+} from '../renderWorkerClient';
+import {
+  CellStyle,
+  createCanvasRenderBackend,
+  createPreRenderBackend,
+  RenderBackend,
+  RenderBackendKind
+} from '../renderBackend';
+import { qualityGovernor } from '../qualityGovernor';
+import { ColorPalette, defaultColorPalette, resolvePaletteColor } from '../palette';
+
+const FRAME_JITTER_TOLERANCE = 2; // ms
+
+export type UseAnimationOptions = {
+  isPaused?: boolean;
+  setLinkClicked?: React.Dispatch<React.SetStateAction<string | null>>;
+  workerSource?: RenderWorkerSource;
+  renderBackend?: RenderBackendKind;
+  canvasRef?: React.RefObject<HTMLCanvasElement>;
+  transparentBackground?: boolean;
+  clock?: AnimationClock;
+  seed?: number;
+  // Enables dirty-region rendering; the tracker needs the blob planes to find border cells
+  blobGridCacheRef?: React.MutableRefObject<BlobGridCache>;
+  cursorStateRef?: React.MutableRefObject<CursorState>;
+  timeInvariantField?: boolean; // Without it only a frozen clock lets idle frames reuse cells
+  palette?: ColorPalette;
+  backgroundColors?: Map<string, string>; // Ramp character -> shade, from createBackgroundColorLookup
+};
 
 export const useAnimation = (
   textRef: React.RefObject<HTMLPreElement>,
@@ -27,20 +61,44 @@ export const useAnimation = (
   calculateCharacter: CharacterCalculator,
   scrollOffsetRef: React.MutableRefObject<number>,
   textPositionCache: TextPositionCacheResult,
-  isScrolling: React.MutableRefObject<boolean>,
-  scrollVelocity: React.MutableRefObject<number>,
   linkPositionsRef: React.MutableRefObject<LinkPosition[]>,
-  isPaused: boolean = false,
-  setLinkClicked?: React.Dispatch<React.SetStateAction<string | null>>
+  {
+    isPaused = false,
+    setLinkClicked,
+    workerSource,
+    renderBackend = 'pre',
+    canvasRef,
+    transparentBackground = false,
+    clock = realTimeClock,
+    seed = 0,
+    blobGridCacheRef,
+    cursorStateRef,
+    timeInvariantField = false,
+    palette = defaultColorPalette,
+    backgroundColors
+  }: UseAnimationOptions = {}
 ) => {
   const lastFrameTimeRef = useRef<number>(0);
-  const frameSkipRef = useRef(0);
   const precomputedRef = useRef<CharacterPrecomputation | null>(null);
-  const safariLastTickRef = useRef(0);
-  const safariFrameAccumulatorRef = useRef(0);
-  const SAFARI_FRAME_INTERVAL = 1000 / 60;
   const lastActiveRowsRef = useRef<{ start: number; end: number }>({ start: 0, end: 0 });
   const lastActiveColsRef = useRef<{ start: number; end: number }>({ start: 0, end: 0 });
+  const workerClientRef = useRef<RenderWorkerClient | null>(null);
+  const useWorker = Boolean(workerSource);
+
+  // Spin up one worker per generator; frames fall back to the in-thread loop without it
+  useEffect(() => {
+    if (!useWorker || !canUseRenderWorker()) {
+      return;
+    }
+
+    const client = createRenderWorkerClient();
+    workerClientRef.current = client;
+
+    return () => {
+      client?.dispose();
+      workerClientRef.current = null;
+    };
+  }, [useWorker]);
 
   useEffect(() => {
     const element = textRef.current;
@@ -97,113 +155,77 @@ export const useAnimation = (
       .fill(null)
       .map(() => new Array(cols).fill(' '));
 
-    const styleMap: Map<number, string> = new Map();
+    const styleMap: Map<number, CellStyle> = new Map();
+    const canvas = renderBackend === 'canvas' ? canvasRef?.current ?? null : null;
+    const backend: RenderBackend = canvas
+      ? createCanvasRenderBackend(canvas, { transparentBackground })
+      : createPreRenderBackend(element);
 
     const ensurePrecomputed = (): CharacterPrecomputation => {
-      const aspect = aspectRatio;
       const current = precomputedRef.current;
-      if (current && current.cols === cols && current.rows === rows && current.aspect === aspect) {
+      if (current && current.cols === cols && current.rows === rows && current.aspect === aspectRatio) {
         return current;
       }
 
-      const safeCols = Math.max(cols, 1);
-      const safeRows = Math.max(rows, 1);
-      const sizeVal = Math.max(1, Math.min(safeCols, safeRows));
-      const aspectWave = aspect * 0.2;
-
-      const normX = new Float32Array(safeCols);
-      const normY = new Float32Array(safeRows);
-      const posX = new Float32Array(safeCols);
-      const posY = new Float32Array(safeRows);
-      const posXScaled = new Float32Array(safeCols);
-      const posYScaled = new Float32Array(safeRows);
-      const posXWave2 = new Float32Array(safeCols);
-      const posXSquared = new Float32Array(safeCols);
-      const posYSquared = new Float32Array(safeRows);
-
-      const normXScale = 2 / safeCols;
-      const normYScale = 2 / safeRows;
-      const posXScale = (4 / sizeVal) * aspectWave;
-      const posYScale = 5 / sizeVal;
-      const posXOffset = cols / 6.25;
-      const posYOffset = rows / 4;
-
-      for (let x = 0; x < safeCols; x++) {
-        const normalizedX = x * normXScale - 1;
-        const basePosX = (x - posXOffset) * posXScale;
-        normX[x] = normalizedX;
-        posX[x] = basePosX;
-        posXScaled[x] = basePosX * 1.5;
-        posXWave2[x] = basePosX * 0.8;
-        posXSquared[x] = basePosX * basePosX;
-      }
-
-      for (let y = 0; y < safeRows; y++) {
-        const normalizedY = y * normYScale - 1;
-        const basePosY = (y - posYOffset) * posYScale;
-        normY[y] = normalizedY;
-        posY[y] = basePosY;
-        posYScaled[y] = basePosY * 1.5;
-        posYSquared[y] = basePosY * basePosY;
-      }
-
-      const precomputed: CharacterPrecomputation = {
-        cols,
-        rows,
-        aspect,
-        normX,
-        normY,
-        posX,
-        posY,
-        sizeVal,
-        aspectWave,
-        posXScaled,
-        posYScaled,
-        posXWave2,
-        posXSquared,
-        posYSquared
-      };
-
+      const precomputed = createCharacterPrecomputation(cols, rows, aspectRatio);
       precomputedRef.current = precomputed;
       return precomputed;
     };
 
-    let animationFrameId: number;
+    let disposed = false;
+    const dirtyTracker = createDirtyRegionTracker();
 
-    const animate = (timestamp: number) => {
-      if (IS_SAFARI) {
-        if (safariLastTickRef.current === 0) {
-          safariLastTickRef.current = timestamp;
-        }
-
-        const elapsedSinceSafariTick = timestamp - safariLastTickRef.current;
-        safariLastTickRef.current = timestamp;
-        safariFrameAccumulatorRef.current = Math.min(
-          safariFrameAccumulatorRef.current + Math.max(0, elapsedSinceSafariTick),
-          SAFARI_FRAME_INTERVAL * 2
-        );
-
-        if (safariFrameAccumulatorRef.current < SAFARI_FRAME_INTERVAL) {
-          animationFrameId = requestAnimationFrame(animate);
-          return;
-        }
+    // One style object per shade so the pre backend can merge neighbouring cells
+    const backgroundStyles = new Map<string, CellStyle>();
+    const isTextCell = (x: number, layoutY: number, fixed: boolean) => {
+      const { grid, gridCols, offsetY } = textPositionCache;
+      const index = (layoutY - offsetY) * gridCols + x;
+      const cell = layoutY >= offsetY && index < grid.length ? grid[index] : null;
+      return Boolean(cell && cell.fixed === fixed);
+    };
 
-        safariFrameAccumulatorRef.current -= SAFARI_FRAME_INTERVAL;
+    // Shades background-field cells by their ramp character once the frame's characters are known
+    const applyBackgroundColors = (rowStart: number, rowEnd: number, scrolledY: number) => {
+      if (!backgroundColors?.size) {
+        return;
       }
 
-      const frameDue = IS_SAFARI || timestamp - lastFrameTimeRef.current >= FRAME_DURATION;
+      for (let y = Math.max(0, rowStart); y < Math.min(rows, rowEnd); y++) {
+        const row = rowBuffers[y];
+        for (let x = 0; x < cols; x++) {
+          const mapKey = y * cols + x;
+          const color = backgroundColors.get(row[x]);
+          if (!color || styleMap.has(mapKey) || isTextCell(x, y, true) || isTextCell(x, y + scrolledY, false)) {
+            continue;
+          }
 
-      if (frameDue) {
-        if (isScrolling.current && !IS_SAFARI) {
-          frameSkipRef.current = (frameSkipRef.current + 1) % 3;
-          if (frameSkipRef.current === 2) {
-            animationFrameId = requestAnimationFrame(animate);
-            return;
+          let style = backgroundStyles.get(color);
+          if (!style) {
+            style = { color };
+            backgroundStyles.set(color, style);
           }
-        } else {
-          frameSkipRef.current = 0;
+          styleMap.set(mapKey, style);
         }
+      }
+    };
 
+    const presentFrame = () => {
+      backend.present({
+        rows: rowBuffers,
+        cols,
+        rowCount: rows,
+        styles: styleMap
+      });
+    };
+
+    let animationFrameId: number;
+
+    const animate = (timestamp: number) => {
+      const quality = qualityGovernor.getSettings();
+      // Tolerate rAF jitter so a 60 Hz display isn't halved to 30 fps at the top level
+      const frameDue = timestamp - lastFrameTimeRef.current >= quality.frameInterval - FRAME_JITTER_TOLERANCE;
+
+      if (frameDue) {
         // Skip heavy work when the tab is hidden, but keep timestamps fresh
         if (typeof document !== 'undefined' && document.visibilityState === 'hidden') {
           lastFrameTimeRef.current = timestamp;
@@ -211,26 +233,19 @@ export const useAnimation = (
           return;
         }
 
+        const workerClient = workerSource ? workerClientRef.current : null;
+        if (workerClient?.isAvailable() && workerClient.isBusy()) {
+          // Previous frame is still being computed off-thread
+          animationFrameId = requestAnimationFrame(animate);
+          return;
+        }
+
         lastFrameTimeRef.current = timestamp;
+        const frameStart = performance.now();
         clearCharacterCache();
 
-        let skipFactor = 1;
-        let chunkSizeFactor = 1;
-        const velocity = Math.abs(scrollVelocity.current);
-        if (isScrolling.current && velocity > 5) {
-          if (velocity > 40) {
-            skipFactor = 3;
-            chunkSizeFactor = 3;
-          } else if (velocity > 20) {
-            skipFactor = 2;
-            chunkSizeFactor = 2;
-          } else if (IS_SAFARI) {
-            skipFactor = 2;
-            chunkSizeFactor = 1.5;
-          }
-        }
-
-        const adjustedChunkSize = Math.ceil(BASE_CHUNK_SIZE * chunkSizeFactor);
+        const skipFactor = quality.fieldStep;
+        const adjustedChunkSize = Math.ceil(BASE_CHUNK_SIZE * quality.chunkSizeFactor);
 
         styleMap.clear();
 
@@ -303,7 +318,7 @@ export const useAnimation = (
           }
         }
 
-        const verticalPadding = IS_SAFARI ? 48 : 32;
+        const verticalPadding = quality.verticalPadding;
 
         if (boundsMinY !== Number.POSITIVE_INFINITY && boundsMaxY !== Number.NEGATIVE_INFINITY) {
           activeRowStart = Math.max(0, Math.floor(boundsMinY) - verticalPadding);
@@ -321,12 +336,38 @@ export const useAnimation = (
           activeRowEnd = rows;
         }
 
-        const activeRowCount = Math.max(1, activeRowEnd - activeRowStart);
-        const numChunks = Math.ceil(activeRowCount / BASE_CHUNK_SIZE);
         const activeRowsChanged = activeRowStart !== lastActiveRowsRef.current.start || activeRowEnd !== lastActiveRowsRef.current.end;
         const activeColsChanged = activeColStart !== lastActiveColsRef.current.start || activeColEnd !== lastActiveColsRef.current.end;
         const needsFullRowReset = activeRowsChanged || activeColsChanged;
 
+        // rAF timestamps only pace frames; what gets drawn comes from the clock
+        const frameTime = clock.frameTime(timestamp);
+        const frameSeed = deriveFrameSeed(seed, frameTime);
+        const frameNow = clock.now();
+
+        // Skipped columns always redraw the whole window
+        const blobGridCache = blobGridCacheRef?.current;
+        const cursorState = cursorStateRef?.current;
+        let dirtyMask: Uint8Array | null = null;
+        if (!needsFullRowReset && skipFactor === 1 && blobGridCache && cursorState) {
+          dirtyMask = dirtyTracker.collect({
+            cols,
+            rows,
+            cursor: cursorState,
+            frameNow,
+            scrolledY,
+            textPositionCache,
+            blobGridCache,
+            calculateCharacter,
+            timeInvariantField,
+            clockFrozen: clock.kind === 'frozen'
+          });
+        } else {
+          dirtyTracker.invalidate();
+        }
+        // A few dirty cells are cheaper here than a round trip; the worker takes full frames
+        const renderInWorker = Boolean(workerSource && workerClient?.isAvailable()) && !dirtyMask;
+
         if (needsFullRowReset) {
           const prevRows = lastActiveRowsRef.current;
           // Clear rows that are leaving the active window
@@ -341,15 +382,13 @@ export const useAnimation = (
           }
           lastActiveRowsRef.current = { start: activeRowStart, end: activeRowEnd };
           lastActiveColsRef.current = { start: activeColStart, end: activeColEnd };
-        } else {
+        } else if (!dirtyMask) {
           for (let y = activeRowStart; y < activeRowEnd; y++) {
             rowBuffers[y].fill(' ', activeColStart, activeColEnd);
           }
         }
 
         const precomputed = ensurePrecomputed();
-        const frameSeed = timestamp | 0;
-        const frameNow = Date.now();
 
         for (const link of linkPositionsRef.current) {
           const isFixed = textPositionCache.bounds[link.textKey]?.fixed || false;
@@ -363,10 +402,7 @@ export const useAnimation = (
               continue;
             }
             const mapKey = linkY * cols + x;
-            styleMap.set(
-              mapKey,
-              `<a href="${link.url}" style="color:rgb(63, 52, 219); text-decoration: underline; cursor: pointer;" data-link-url="${link.url}" class="ascii-link" target="_blank" onclick="window.open('${link.url}', '_blank')">$</a>`
-            );
+            styleMap.set(mapKey, { linkUrl: link.url });
           }
         }
 
@@ -411,67 +447,74 @@ export const useAnimation = (
               continue;
             }
 
-            if (cell.isBold && cell.isItalic) {
-              styleMap.set(mapKey, '<span style="font-weight:bold; font-style:italic; text-shadow: 0px 0px 1px #000;">$</span>');
-            } else if (cell.isBold) {
-              styleMap.set(mapKey, '<span style="font-weight:bold; text-shadow: 0px 0px 1px #000;">$</span>');
-            } else if (cell.isItalic) {
-              styleMap.set(mapKey, '<span style="font-style:italic;">$</span>');
+            if (cell.isBold || cell.isItalic || cell.isUnderline || cell.isInverse || cell.color) {
+              styleMap.set(mapKey, {
+                bold: cell.isBold,
+                italic: cell.isItalic,
+                underline: cell.isUnderline,
+                inverse: cell.isInverse,
+                color: cell.color ? resolvePaletteColor(palette, cell.color) : undefined
+              });
             }
           }
         }
 
-        for (let chunk = 0; chunk < numChunks; chunk++) {
-          const chunkRowStart = activeRowStart + chunk * BASE_CHUNK_SIZE;
-          if (chunkRowStart >= activeRowEnd) {
-            break;
-          }
-          const chunkRowEnd = Math.min(chunkRowStart + adjustedChunkSize, activeRowEnd);
-
-          for (let y = chunkRowStart; y < chunkRowEnd; y++) {
-            for (let x = activeColStart; x < activeColEnd; x += skipFactor) {
-              const char = calculateCharacter(
-                x,
-                y,
-                cols,
-                rows,
-                aspectRatio,
-                timestamp,
-                precomputed,
-                frameSeed,
-                frameNow
-              );
-              rowBuffers[y][x] = char;
-
-              for (let i = 1; i < skipFactor && x + i < cols; i++) {
-                rowBuffers[y][x + i] = char;
+        const rowWindow: FrameRowWindow = {
+          rowStart: activeRowStart,
+          rowEnd: activeRowEnd,
+          colStart: activeColStart,
+          colEnd: activeColEnd,
+          skipFactor,
+          chunkSize: adjustedChunkSize,
+          baseChunkSize: BASE_CHUNK_SIZE,
+          wideCells: textPositionCache.hasWideCells
+        };
+        const timing: FrameTiming = {
+          cols,
+          rows,
+          aspect: aspectRatio,
+          time: frameTime,
+          frameSeed,
+          frameNow
+        };
+
+        if (renderInWorker && workerSource && workerClient) {
+          // Keep presenting the last frame until the worker answers
+          workerClient.requestFrame(
+            workerSource.getScene(),
+            {
+              timing,
+              rowWindow,
+              scrollY: scrollOffsetRef.current,
+              viewportWidth: size.width ?? 0,
+              cursor: workerSource.getCursorState()
+            },
+            (rowStart, workerRows) => {
+              if (disposed) {
+                return;
+              }
+              for (let index = 0; index < workerRows.length; index++) {
+                const y = rowStart + index;
+                if (y >= 0 && y < rows) {
+                  rowBuffers[y] = workerRows[index];
+                }
               }
+              applyBackgroundColors(rowStart, rowStart + workerRows.length, scrolledY);
+              presentFrame();
+              // Off-thread frames are judged by their round trip
+              qualityGovernor.recordFrame(performance.now() - frameStart);
             }
-          }
-        }
-
-        const hasStyles = styleMap.size > 0;
-        const lines = new Array(rows);
-
-        if (!hasStyles) {
-          for (let y = 0; y < rows; y++) {
-            lines[y] = rowBuffers[y].join('');
-          }
+          );
         } else {
-          for (let y = 0; y < rows; y++) {
-            const row = rowBuffers[y];
-            let line = '';
-            for (let x = 0; x < cols; x++) {
-              const mapKey = y * cols + x;
-              const styled = styleMap.get(mapKey);
-              const char = row[x];
-              line += styled ? styled.replace('$', char) : char;
-            }
-            lines[y] = line;
+          if (dirtyMask) {
+            renderDirtyCells(rowBuffers, rowWindow, timing, precomputed, calculateCharacter, dirtyMask);
+          } else {
+            renderFrameRows(rowBuffers, rowWindow, timing, precomputed, calculateCharacter);
           }
+          applyBackgroundColors(activeRowStart, activeRowEnd, scrolledY);
+          presentFrame();
+          qualityGovernor.recordFrame(performance.now() - frameStart);
         }
-
-        element.innerHTML = lines.join('\n');
       }
 
       animationFrameId = requestAnimationFrame(animate);
@@ -480,9 +523,9 @@ export const useAnimation = (
     animationFrameId = requestAnimationFrame(animate);
 
     return () => {
+      disposed = true;
       cancelAnimationFrame(animationFrameId);
-      safariLastTickRef.current = 0;
-      safariFrameAccumulatorRef.current = 0;
+      backend.dispose();
       element.removeEventListener('click', handleLinkClick);
       document.head.removeChild(style);
     };
@@ -492,12 +535,21 @@ export const useAnimation = (
     size.height,
     calculateCharacter,
     scrollOffsetRef,
-    isScrolling,
-    scrollVelocity,
     linkPositionsRef,
     isPaused,
     setLinkClicked,
-    textPositionCache.bounds
+    textPositionCache.bounds,
+    workerSource,
+    renderBackend,
+    canvasRef,
+    transparentBackground,
+    clock,
+    seed,
+    blobGridCacheRef,
+    cursorStateRef,
+    timeInvariantField,
+    palette,
+    backgroundColors
   ]);
 
   return undefined;
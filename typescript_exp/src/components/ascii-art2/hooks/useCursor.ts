@@ -1,13 +1,39 @@
 import { useState, useRef, useEffect } from 'react';
 import { CHAR_WIDTH, CHAR_HEIGHT, SAFARI_CURSOR_Y_OFFSET, MOUSE_MOVE_THROTTLE } from '../constants';
 import { CursorState, Size, ClickRipple, WhiteoutState, WhiteInState, WhiteOverlayState } from '../types';
-import { getGridDimensions } from '../utils';
+import { createSeededRandom, getGridDimensions } from '../utils';
 import { markHandledAutoWhiteInPage } from '../autoWhiteIn';
+import { AnimationClock, realTimeClock } from '../animationClock';
+import { qualityGovernor } from '../qualityGovernor';
+
+export type UseCursorOptions = {
+  clock?: AnimationClock;
+  seed?: number;
+  reducedMotion?: boolean; // No click ripples; whiteout/white-in become a cross-fade
+};
+
+// Matches the white overlay's opacity transition
+const CROSS_FADE_DURATION = 100;
 
 export const useCursor = (
   textRef: React.RefObject<HTMLPreElement>,
-  size: Size
+  size: Size,
+  { clock = realTimeClock, seed = 0, reducedMotion = false }: UseCursorOptions = {}
 ) => {
+  // Handlers are bound once, so they read the latest clock and generator through refs
+  const clockRef = useRef(clock);
+  clockRef.current = clock;
+  const reducedMotionRef = useRef(reducedMotion);
+  reducedMotionRef.current = reducedMotion;
+  const randomRef = useRef({ seed, next: createSeededRandom(seed) });
+  if (randomRef.current.seed !== seed) {
+    randomRef.current = { seed, next: createSeededRandom(seed) };
+  }
+  const clockNow = () => clockRef.current.now();
+  // A frozen clock never moves a transition's progress, so it finishes at once like reduced motion
+  const skipsTransitions = () => reducedMotionRef.current || clockRef.current.kind === 'frozen';
+  const random = () => randomRef.current.next();
+
   const cursorRef = useRef<CursorState>({
     grid: { x: 0, y: 0 },
     normalized: { x: 0, y: 0 },
@@ -21,7 +47,8 @@ export const useCursor = (
   
   const [cursor, setCursor] = useState(cursorRef.current);
   const lastMouseMoveTime = useRef(0);
-  const maxRipples = Number.POSITIVE_INFINITY; // Allow unlimited ripple animations
+  // Ripple budget follows the quality governor (unlimited at the top level)
+  const maxRipples = () => reducedMotionRef.current ? 0 : qualityGovernor.getSettings().maxClickRipples;
   const whiteInAnimationRef = useRef<number | null>(null);
   const whiteInTimeoutRef = useRef<number | null>(null);
   const whiteoutAnimationRef = useRef<number | null>(null);
@@ -87,20 +114,20 @@ export const useCursor = (
       mouseDownInfo.current = {
         active: true,
         position: { x: normalizedX, y: normalizedY },
-        startTime: Date.now()
+        startTime: clockNow()
       };
       
       // Create an initial small mousedown ripple effect
       const initialRipple: ClickRipple = {
         position: { x: normalizedX, y: normalizedY },
-        timestamp: Date.now(),
+        timestamp: clockNow(),
         lifespan: 800, // Shorter lifespan for initial ripple
         intensity: 0.3, // Lower intensity for initial effect
         speedFactor: 1.0
       };
       
       const updatedRipples = [initialRipple, ...cursorRef.current.clickRipples]
-        .slice(0, maxRipples);
+        .slice(0, maxRipples());
       
       cursorRef.current = {
         ...cursorRef.current,
@@ -120,7 +147,7 @@ export const useCursor = (
       }
       
       // Calculate hold duration
-      const holdDuration = Date.now() - mouseDownInfo.current.startTime;
+      const holdDuration = clockNow() - mouseDownInfo.current.startTime;
       
       // Get current mouse position for the ripple
       const rect = textRef.current.getBoundingClientRect();
@@ -140,12 +167,12 @@ export const useCursor = (
       
       // Generate random speed factor between 0.8-1.5 with slight bias based on hold duration
       const speedBoost = Math.min(0.3, holdDuration / 5000); // Small boost based on hold time
-      const speedFactor = 0.8 + Math.random() * 0.7 + speedBoost;
+      const speedFactor = 0.8 + random() * 0.7 + speedBoost;
       
       // New ripple with timestamp
       const newRipple: ClickRipple = {
         position: { x: normalizedX, y: normalizedY },
-        timestamp: Date.now(),
+        timestamp: clockNow(),
         lifespan: holdLifespan,
         intensity: holdIntensity,
         speedFactor
@@ -153,7 +180,7 @@ export const useCursor = (
       
       // Add new ripple and maintain maximum ripples limit
       const updatedRipples = [newRipple, ...cursorRef.current.clickRipples]
-        .slice(0, maxRipples);
+        .slice(0, maxRipples());
       
       cursorRef.current = {
         ...cursorRef.current,
@@ -180,20 +207,20 @@ export const useCursor = (
         const normalizedY = (relativeY / (size.height || 1)) * 2 - 1;
         
         // Generate fallback ripple with default values
-        const lifespan = 1000 + Math.random() * 2000;
-        const intensity = 0.5 + Math.random() * 0.5;
-        const speedFactor = 0.8 + Math.random() * 0.7;
+        const lifespan = 1000 + random() * 2000;
+        const intensity = 0.5 + random() * 0.5;
+        const speedFactor = 0.8 + random() * 0.7;
         
         const newRipple: ClickRipple = {
           position: { x: normalizedX, y: normalizedY },
-          timestamp: Date.now(),
+          timestamp: clockNow(),
           lifespan,
           intensity,
           speedFactor
         };
         
         const updatedRipples = [newRipple, ...cursorRef.current.clickRipples]
-          .slice(0, maxRipples);
+          .slice(0, maxRipples());
         
         cursorRef.current = {
           ...cursorRef.current,
@@ -287,7 +314,7 @@ export const useCursor = (
     const normalizedY = (gridY / gridDimensions.rows) * 2 - 1;
     
     // Update ripples on every move
-    const currentTime = Date.now();
+    const currentTime = clockNow();
     const activeRipples = cursorRef.current.clickRipples.filter(ripple => {
       const age = currentTime - ripple.timestamp;
       return age < ripple.lifespan;
@@ -438,6 +465,23 @@ export const useCursor = (
       markHandledAutoWhiteInPage(window, window.location.href);
     }
 
+    if (skipsTransitions()) {
+      // Skip the dissolve; an overlay left by the previous page fades out instead
+      if (whiteInAnimationRef.current) {
+        cancelAnimationFrame(whiteInAnimationRef.current);
+      }
+      if (whiteInTimeoutRef.current) {
+        clearTimeout(whiteInTimeoutRef.current);
+        whiteInTimeoutRef.current = null;
+      }
+      cursorRef.current = {
+        ...cursorRef.current,
+        whiteIn: null
+      };
+      deactivateWhiteOverlay();
+      return;
+    }
+
     // Before starting the white-in effect, ensure the cursor position is initialized
     // This allows the background animation to properly display with the mouse "in the window"
     // Convert from normalized coordinates to grid coordinates
@@ -464,7 +508,7 @@ export const useCursor = (
     const newWhiteIn: WhiteInState = {
       active: true,
       position,
-      timestamp: Date.now(),
+      timestamp: clockNow(),
       progress: startProgress, // Start at the desired white amount (1 = all white, 0 = fully visible)
       duration: 1000,
       startProgress
@@ -490,6 +534,11 @@ export const useCursor = (
     // Start the animation immediately
     animateWhiteIn(newWhiteIn);
 
+    // The wall-clock safety net would cut a stepped white-in short
+    if (clockRef.current.kind !== 'realtime') {
+      return;
+    }
+
     whiteInTimeoutRef.current = window.setTimeout(() => {
       const currentWhiteIn = cursorRef.current.whiteIn;
       if (!currentWhiteIn || currentWhiteIn.timestamp !== newWhiteIn.timestamp) {
@@ -509,7 +558,7 @@ export const useCursor = (
   // Animate the white-in effect
   const animateWhiteIn = (whiteIn: WhiteInState) => {
     const updateWhiteIn = () => {
-      const currentTime = Date.now();
+      const currentTime = clockNow();
       
       if (!whiteIn) return;
       
@@ -565,14 +614,14 @@ export const useCursor = (
     // const pixelY = ((position.y + 1) / 2) * rect.height + rect.top; // Removed
     
     // Generate random parameters for the ripple (similar to handleClick)
-    const lifespan = 1000 + Math.random() * 2000;
-    const intensity = 0.5 + Math.random() * 0.5;
-    const speedFactor = 0.8 + Math.random() * 0.7;
+    const lifespan = 1000 + random() * 2000;
+    const intensity = 0.5 + random() * 0.5;
+    const speedFactor = 0.8 + random() * 0.7;
     
     // Create the new ripple
     const newRipple: ClickRipple = {
       position,
-      timestamp: Date.now(),
+      timestamp: clockNow(),
       lifespan,
       intensity,
       speedFactor
@@ -580,7 +629,7 @@ export const useCursor = (
     
     // Add new ripple and maintain maximum ripples limit
     const updatedRipples = [newRipple, ...cursorRef.current.clickRipples]
-      .slice(0, maxRipples);
+      .slice(0, maxRipples());
     
     // Ensure the cursor is recognized as being in the window for the background animation
     cursorRef.current = {
@@ -601,7 +650,7 @@ export const useCursor = (
     const newWhiteout = {
       active: true,
       position,
-      timestamp: Date.now(),
+      timestamp: clockNow(),
       targetUrl,
       onComplete: options?.onComplete,
       allowWhiteOverlay: options?.allowWhiteOverlay,
@@ -614,6 +663,17 @@ export const useCursor = (
     if (whiteoutAnimationRef.current) {
       cancelAnimationFrame(whiteoutAnimationRef.current);
     }
+
+    if (skipsTransitions()) {
+      // Cross-fade through the white overlay instead of dissolving the grid
+      if (newWhiteout.allowWhiteOverlay !== false && !newWhiteout.onComplete) {
+        activateWhiteOverlay();
+        window.setTimeout(() => finishWhiteout(newWhiteout), CROSS_FADE_DURATION);
+      } else {
+        finishWhiteout(newWhiteout);
+      }
+      return;
+    }
     
     // Directly update cursor state to trigger immediate re-render
     cursorRef.current = {
@@ -640,10 +700,51 @@ export const useCursor = (
     }, 100);
   };
 
+  // Runs the whiteout's completion callback or navigates to its target URL
+  const finishWhiteout = (whiteout: WhiteoutState) => {
+    if (whiteout.onComplete) {
+      cursorRef.current = {
+        ...cursorRef.current,
+        whiteout: null,
+        whiteOverlay: null
+      };
+      setCursor({ ...cursorRef.current });
+      whiteout.onComplete();
+      return;
+    }
+
+    const targetUrl = whiteout.targetUrl;
+    if (!targetUrl) {
+      cursorRef.current = {
+        ...cursorRef.current,
+        whiteout: null
+      };
+      setCursor({ ...cursorRef.current });
+      return;
+    }
+    // Store a flag in sessionStorage to indicate we need a white-in on the next page
+    try {
+      sessionStorage.setItem('needsWhiteIn', 'true');
+      // Store the timestamp to prevent immediate re-triggering
+      sessionStorage.setItem('lastWhiteInTimestamp', String(Date.now()));
+      // Store the target position for white-in (current cursor or center)
+      const position = cursorRef.current.isInWindow 
+        ? JSON.stringify(cursorRef.current.normalized)
+        : JSON.stringify({ x: 0, y: 0 });
+      sessionStorage.setItem('whiteInPosition', position);
+    } catch (e) {
+      console.warn('Unable to store white-in state in sessionStorage', e);
+    }
+
+    setTimeout(() => {
+      window.location.href = targetUrl;
+    }, 100); // Small delay to ensure the whiteout is fully visible
+  };
+
   // Animate the whiteout effect
   const animateWhiteout = (whiteout: WhiteoutState) => {
     const updateWhiteout = () => {
-      const currentTime = Date.now();
+      const currentTime = clockNow();
       
       if (!whiteout) return;
       
@@ -667,43 +768,7 @@ export const useCursor = (
       
       // If the whiteout is complete, navigate to the target URL
       if (progress >= 1) {
-        if (whiteout.onComplete) {
-          cursorRef.current = {
-            ...cursorRef.current,
-            whiteout: null,
-            whiteOverlay: null
-          };
-          setCursor({ ...cursorRef.current });
-          whiteout.onComplete();
-          return;
-        }
-
-        const targetUrl = whiteout.targetUrl;
-        if (!targetUrl) {
-          cursorRef.current = {
-            ...cursorRef.current,
-            whiteout: null
-          };
-          setCursor({ ...cursorRef.current });
-          return;
-        }
-        // Store a flag in sessionStorage to indicate we need a white-in on the next page
-        try {
-          sessionStorage.setItem('needsWhiteIn', 'true');
-          // Store the timestamp to prevent immediate re-triggering
-          sessionStorage.setItem('lastWhiteInTimestamp', String(Date.now()));
-          // Store the target position for white-in (current cursor or center)
-          const position = cursorRef.current.isInWindow 
-            ? JSON.stringify(cursorRef.current.normalized)
-            : JSON.stringify({ x: 0, y: 0 });
-          sessionStorage.setItem('whiteInPosition', position);
-        } catch (e) {
-          console.warn('Unable to store white-in state in sessionStorage', e);
-        }
-
-        setTimeout(() => {
-          window.location.href = targetUrl;
-        }, 100); // Small delay to ensure the whiteout is fully visible
+        finishWhiteout(whiteout);
       } else {
         whiteoutAnimationRef.current = requestAnimationFrame(updateWhiteout);
       }
@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+import {
+  getInspectorPhotoRects,
+  InspectorPhotoRect,
+  isLayoutInspectorOpen,
+  subscribeToLayoutInspector
+} from '../layoutInspector';
+
+const NO_PHOTO_RECTS: InspectorPhotoRect[] = [];
+
+// Open through ?debug=layout or the Alt+Shift+L hotkey (see ../layoutInspector)
+export const useLayoutInspectorOpen = () =>
+  useSyncExternalStore(subscribeToLayoutInspector, isLayoutInspectorOpen, () => false);
+
+export const useInspectorPhotoRects = () =>
+  useSyncExternalStore(subscribeToLayoutInspector, getInspectorPhotoRects, () => NO_PHOTO_RECTS);
@@ -10,6 +10,24 @@ import {
 } from '../constants';
 import { LinkPosition, Size, TextPositionCacheResult } from '../types';
 
+/**
+ * Pixel rectangle of a link's click overlay within the text: a few columns
+ * wider and several rows taller than the link, so it is easy to hit on touch
+ * screens, with Safari's scroll drift corrected
+ */
+export const getLinkHitRect = (link: LinkPosition, isFixed: boolean, scrolledRows: number) => {
+  const margin = Math.ceil(CHAR_WIDTH * 3.0);
+  const verticalOffset = Math.ceil(CHAR_HEIGHT * 2.0);
+  const linkY = isFixed ? link.y : link.y - scrolledRows;
+  const safariOffset = IS_SAFARI && !isFixed ? SAFARI_LINK_OFFSET_BASE + (scrolledRows * SAFARI_LINK_OFFSET_FACTOR) : 0;
+  return {
+    left: Math.max(0, Math.floor(link.startX * CHAR_WIDTH) - margin),
+    top: Math.floor(linkY * CHAR_HEIGHT) - verticalOffset - safariOffset,
+    width: Math.ceil((link.endX - link.startX + 1) * CHAR_WIDTH) + (margin * 2),
+    height: Math.ceil(CHAR_HEIGHT * 8)
+  };
+};
+
 export const useLinks = (
   size: Size,
   textPositionCache: TextPositionCacheResult,
@@ -38,22 +56,13 @@ export const useLinks = (
     const relativeY = clientY - rect.top;
     const scrolledY = Math.floor(scrollOffsetRef.current / CHAR_HEIGHT);
 
-    // Match overlay geometry so the proximity selection uses the same hit areas
-    const margin = Math.ceil(CHAR_WIDTH * 3.0);
-    const verticalOffset = Math.ceil(CHAR_HEIGHT * 2.0);
-    const hitHeight = Math.ceil(CHAR_HEIGHT * 8);
-
     let closest: { link: LinkPosition; distance: number } | null = null;
 
     for (const link of linkPositionsRef.current) {
       const isFixed = textPositionCache.bounds[link.textKey]?.fixed || false;
       const linkY = isFixed ? link.y : link.y - scrolledY;
-      const safariOffset = calculateSafariOffset(scrolledY, isFixed);
-
-      const left = Math.max(0, Math.floor(link.startX * CHAR_WIDTH) - margin);
-      const width = Math.ceil((link.endX - link.startX + 1) * CHAR_WIDTH) + (margin * 2);
-      const top = Math.floor(linkY * CHAR_HEIGHT) - verticalOffset - safariOffset;
-      const height = hitHeight;
+      // Match overlay geometry so the proximity selection uses the same hit areas
+      const { left, top, width, height } = getLinkHitRect(link, isFixed, scrolledY);
 
       const right = left + width;
       const bottom = top + height;
@@ -83,7 +92,7 @@ export const useLinks = (
       link: closest.link,
       normalized: { x: normalizedX, y: normalizedY }
     };
-  }, [calculateSafariOffset, scrollOffsetRef, size.height, size.width, textPositionCache.bounds, textRef]);
+  }, [scrollOffsetRef, size.height, size.width, textPositionCache.bounds, textRef]);
 
   // Keep the local ref aligned with the most recent link map so coordinate fallback stays accurate
   useEffect(() => {
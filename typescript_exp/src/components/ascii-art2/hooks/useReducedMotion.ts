@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { prefersReducedMotion, subscribeToMotionPreference } from '../../../utils/reducedMotion';
+
+// Follows prefers-reduced-motion unless the visitor stored an override
+export const useReducedMotion = () =>
+  useSyncExternalStore(subscribeToMotionPreference, prefersReducedMotion, () => false);
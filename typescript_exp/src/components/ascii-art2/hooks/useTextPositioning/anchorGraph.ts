@@ -0,0 +1,103 @@
+import { AnchorDiagnostic, TextContentItem } from '../../types';
+
+export interface AnchorGraph {
+  items: TextContentItem[]; // textContent with unusable anchors dropped, so those items use their own x/y
+  namedTextboxes: Record<string, number>; // The last item with a name wins, as it always has
+  order: number[]; // Every index, each anchor before the items anchored to it
+  diagnostics: AnchorDiagnostic[];
+}
+
+const describeItem = (item: TextContentItem, index: number) => {
+  if (item.name) return `#${index} "${item.name}"`;
+  const text = item.text.length > 24 ? `${item.text.slice(0, 24)}…` : item.text;
+  return `#${index} (text "${text}")`;
+};
+
+/**
+ * Check the anchor graph of a page's text items: duplicate names, anchors
+ * naming no item and anchor cycles. Broken anchors are dropped from the
+ * returned items rather than followed, and `order` lays anchors out first.
+ */
+export const validateAnchorGraph = (textContent: TextContentItem[]): AnchorGraph => {
+  const diagnostics: AnchorDiagnostic[] = [];
+  const namedTextboxes: Record<string, number> = {};
+  const itemsByName = new Map<string, number[]>();
+  textContent.forEach((item, index) => {
+    if (item.name) {
+      namedTextboxes[item.name] = index;
+      itemsByName.set(item.name, [...(itemsByName.get(item.name) ?? []), index]);
+    }
+  });
+
+  for (const [name, indexes] of itemsByName) {
+    if (indexes.length > 1) {
+      diagnostics.push({
+        type: 'duplicateName',
+        message: `Text name "${name}" is used by items ${indexes.map(index => `#${index}`).join(', ')}; anchors resolve to #${indexes[indexes.length - 1]}`,
+        items: indexes
+      });
+    }
+  }
+
+  const items = textContent.slice();
+  const dropAnchor = (index: number) => {
+    items[index] = { ...items[index], anchorTo: undefined };
+  };
+
+  textContent.forEach((item, index) => {
+    if (item.anchorTo && namedTextboxes[item.anchorTo] === undefined) {
+      diagnostics.push({
+        type: 'missingAnchor',
+        message: `${describeItem(item, index)} anchors to "${item.anchorTo}", but no text item has that name; it is placed by its own x/y`,
+        items: [index]
+      });
+      dropAnchor(index);
+    }
+  });
+
+  // Depth-first from each item in turn: an anchor still on the path closes a cycle,
+  // which is broken at the item that would close it
+  const order: number[] = [];
+  const state: Array<'visiting' | 'done' | undefined> = new Array(textContent.length);
+  const path: number[] = [];
+  const visit = (index: number) => {
+    state[index] = 'visiting';
+    path.push(index);
+    const anchorTo = items[index].anchorTo;
+    const anchorIndex = anchorTo ? namedTextboxes[anchorTo] : undefined;
+    if (anchorIndex !== undefined && state[anchorIndex] === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(anchorIndex)), anchorIndex];
+      diagnostics.push({
+        type: 'cycle',
+        message: `Anchor cycle ${cycle.map(item => describeItem(textContent[item], item)).join(' -> ')}; ${describeItem(textContent[index], index)} is placed by its own x/y`,
+        items: cycle.slice(0, -1)
+      });
+      dropAnchor(index);
+    } else if (anchorIndex !== undefined && !state[anchorIndex]) {
+      visit(anchorIndex);
+    }
+    path.pop();
+    state[index] = 'done';
+    order.push(index);
+  };
+  textContent.forEach((_, index) => {
+    if (!state[index]) visit(index);
+  });
+
+  return { items, namedTextboxes, order, diagnostics };
+};
+
+// Layout reruns on every resize, so each problem is only reported once
+const reportedAnchorDiagnostics = new Set<string>();
+
+export const reportAnchorDiagnostics = (diagnostics: AnchorDiagnostic[]) => {
+  if (!import.meta.env.DEV) {
+    return;
+  }
+  for (const diagnostic of diagnostics) {
+    if (!reportedAnchorDiagnostics.has(diagnostic.message)) {
+      reportedAnchorDiagnostics.add(diagnostic.message);
+      console.warn(diagnostic.message);
+    }
+  }
+};
@@ -0,0 +1,124 @@
+import {
+  TextPositionCacheResult,
+  LinkPosition,
+  TextPositionCache,
+  TextGridCell,
+  TextContentItem,
+  OverlapNudge
+} from '../../types';
+import { calculateTextBoundsAndLinks } from './calculateBounds';
+import { populateTextGrid } from './populateGrid';
+import { getTextItemKey } from './positioning';
+import { reportAnchorDiagnostics, validateAnchorGraph } from './anchorGraph';
+import { expandLayoutContainers } from './layoutContainers';
+import { resolveItemOverlap } from './resolveOverlaps';
+import { CharacterRampRegion, resolveCharacterRamp } from '../../characterRamps';
+
+/**
+ * Lay out text items on a cols x rows grid without touching React or the DOM.
+ * Shared by useTextPositioning and the headless renderer.
+ */
+export const buildTextPositionCache = (
+  textContent: Array<TextContentItem>,
+  cols: number,
+  rows: number
+): TextPositionCacheResult => {
+  const cache: TextPositionCache = {};
+  const textBounds: {[key: string]: {minX: number, maxX: number, minY: number, maxY: number, fixed: boolean}} = {};
+  const links: LinkPosition[] = [];
+
+  // First pass: Turn containers into anchored items, map names to item indexes and
+  // order items so anchors come first; broken anchors are dropped from `items`
+  const { items, namedTextboxes, order, diagnostics } = validateAnchorGraph(expandLayoutContainers(textContent, cols, rows));
+  reportAnchorDiagnostics(diagnostics);
+
+  // Map to track positioned items for dependency resolution
+  let positionedItems = new Set<number>();
+
+  // --- STAGE 1: Calculate Bounds and Links (Call extracted function) --- 
+  // Items marked avoidOverlap are moved clear of those before them and laid out
+  // again, before anything anchored to them
+  const nudges: Record<number, OverlapNudge> = {};
+  const overlapNudges: Record<string, OverlapNudge> = {};
+  order.forEach((index, position) => {
+    calculateTextBoundsAndLinks(index, items, namedTextboxes, positionedItems, cache, textBounds, links, cols, rows, nudges);
+    const nudge = resolveItemOverlap(index, items, order.slice(0, position), cache, cols);
+    if (!nudge) {
+      return;
+    }
+    const item = items[index];
+    const key = getTextItemKey(item.name, item.text, item.x, item.y);
+    nudges[index] = nudge;
+    overlapNudges[key] = nudge;
+    for (let link = links.length - 1; link >= 0; link--) {
+      if (links[link].textKey === key) links.splice(link, 1);
+    }
+    positionedItems.delete(index);
+    calculateTextBoundsAndLinks(index, items, namedTextboxes, positionedItems, cache, textBounds, links, cols, rows, nudges);
+  });
+  // Container boxes keep their bounds for anchoring but have no characters of their own
+  items.forEach(item => {
+    if (item.layout) {
+      cache[getTextItemKey(item.name, item.text, item.x, item.y)] = [];
+    }
+  });
+
+  // Items with their own ramp shade the background inside their padded bounds
+  const rampRegions: CharacterRampRegion[] = [];
+  items.forEach(item => {
+    if (!item.characterRamp) {
+      return;
+    }
+    const bounds = textBounds[getTextItemKey(item.name, item.text, item.x, item.y)];
+    if (bounds) {
+      rampRegions.push({ bounds, ramp: resolveCharacterRamp(item.characterRamp) });
+    }
+  });
+
+  // --- STAGE 2: Determine Grid Dimensions --- 
+  let globalMinY = Infinity;
+  let globalMaxY = -Infinity;
+  // Define grid width based on screen cols, allow horizontal overflow
+  const gridCols = cols * 2; 
+
+  for (const key in textBounds) {
+    globalMinY = Math.min(globalMinY, textBounds[key].minY);
+    globalMaxY = Math.max(globalMaxY, textBounds[key].maxY);
+  }
+  if (!isFinite(globalMinY) || !isFinite(globalMaxY)) {
+    globalMinY = 0;
+    globalMaxY = rows - 1;
+  }
+  globalMinY -= 10; // Padding
+  globalMaxY += 10; // Padding
+
+  const offsetY = globalMinY;
+  const gridRows = globalMaxY - globalMinY + 1;
+
+  // --- STAGE 3: Initialize and Populate Grid (Call extracted function) --- 
+  // Use `(TextGridCell | null)[]` for the array type annotation
+  const positionGridArray: (TextGridCell | null)[] = new Array(gridCols * gridRows).fill(null); 
+  positionedItems = new Set<number>(); // Reset for Stage 3 processing
+
+  order.forEach(index => {
+    if (items[index].layout) {
+      positionedItems.add(index);
+      return;
+    }
+    populateTextGrid(index, items, namedTextboxes, positionedItems, textBounds, positionGridArray, cols, rows, gridCols, gridRows, offsetY, nudges);
+  });
+
+  return {
+    cache,
+    grid: positionGridArray,
+    bounds: textBounds,
+    links,
+    gridCols,
+    offsetY,
+    rampRegions,
+    hasWideCells: positionGridArray.some(cell => cell?.char === ''),
+    anchorDiagnostics: diagnostics,
+    overlapNudges,
+    items
+  };
+};
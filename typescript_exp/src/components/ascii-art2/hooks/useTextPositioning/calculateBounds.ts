@@ -1,14 +1,31 @@
 import { renderFormattedText } from '../../ASCII_text_renderer';
+import type { MarkupWarning } from '../../markup';
 import {
     TextPositionCache, 
     LinkPosition, 
-    TextContentItem // Make sure this type is defined and imported correctly in types.ts
+    TextContentItem, // Make sure this type is defined and imported correctly in types.ts
+    OverlapNudge
 } from '../../types';
-import { segmentGraphemeCells } from '../../utils';
+import { countGraphemeCells, layoutGraphemeColumns } from '../../utils';
+import { layoutBidiLine, resolveLineAlignment, resolveTextDirection } from '../../bidi';
 import { BLOB_PADDING } from '../../constants';
 
 const MAX_LAYOUT_ROWS = 20000;
 
+// Layout reruns on every resize, so each text's markup problems are only reported once
+const reportedMarkupWarnings = new Set<string>();
+
+const reportMarkupWarnings = (key: string, text: string, warnings: MarkupWarning[]) => {
+  if (!import.meta.env.DEV || !warnings.length || reportedMarkupWarnings.has(key)) {
+    return;
+  }
+  reportedMarkupWarnings.add(key);
+  for (const warning of warnings) {
+    const context = text.slice(Math.max(0, warning.offset - 10), warning.offset + 20);
+    console.warn(`${warning.message} in text "${key}" at offset ${warning.offset}: …${context}…`);
+  }
+};
+
 // --- Extracted Function: Calculate Bounds and Links ---
 export const calculateTextBoundsAndLinks = (
   index: number,
@@ -19,7 +36,8 @@ export const calculateTextBoundsAndLinks = (
   textBounds: {[key: string]: {minX: number, maxX: number, minY: number, maxY: number, fixed: boolean}},
   links: LinkPosition[],
   cols: number,
-  rows: number
+  rows: number,
+  nudges: Record<number, OverlapNudge> = {}
 ) => {
   if (positionedItems.has(index)) return;
       
@@ -30,7 +48,7 @@ export const calculateTextBoundsAndLinks = (
     const anchorIndex = namedTextboxes[textItem.anchorTo];
     if (anchorIndex !== undefined && !positionedItems.has(anchorIndex)) {
       // Recursive call for dependency - needs access to all parameters
-      calculateTextBoundsAndLinks(anchorIndex, textContent, namedTextboxes, positionedItems, cache, textBounds, links, cols, rows); 
+      calculateTextBoundsAndLinks(anchorIndex, textContent, namedTextboxes, positionedItems, cache, textBounds, links, cols, rows, nudges); 
     }
   }
   
@@ -53,6 +71,7 @@ export const calculateTextBoundsAndLinks = (
   let gridY = textItem.y;
   let textLines: string[];
   let linkData: Array<{line: number, start: number, end: number, url: string}> = [];
+  let verbatimLines: number[] = [];
   let maxLineLength = 0;
   let textBlockStartX = gridX;
   let maxWidth = cols;
@@ -101,7 +120,7 @@ export const calculateTextBoundsAndLinks = (
   if (textItem.preRenderedAscii) {
     textLines = textItem.preRenderedAscii.split('\n');
     maxLineLength = 0;
-    for (const line of textLines) maxLineLength = Math.max(maxLineLength, segmentGraphemeCells(line).length);
+    for (const line of textLines) maxLineLength = Math.max(maxLineLength, countGraphemeCells(line));
     if (textItem.centered) {
       textBlockStartX = Math.floor(cols / 2) - Math.floor(maxLineLength / 2);
       gridX = textBlockStartX;
@@ -111,12 +130,20 @@ export const calculateTextBoundsAndLinks = (
     const formattedResult = renderFormattedText(
       textItem.text,
       fontName,
-      { maxWidth, respectLineBreaks: true }
+      {
+        maxWidth,
+        respectLineBreaks: true,
+        headingFont: textItem.headingFont,
+        justify: textItem.alignment === 'justify',
+        hyphenation: textItem.hyphenation
+      }
     );
+    reportMarkupWarnings(key, textItem.text, formattedResult.warnings);
     textLines = formattedResult.text.split('\n');
     linkData = formattedResult.links;
+    verbatimLines = formattedResult.verbatimLines;
     maxLineLength = 0;
-    for (const line of textLines) maxLineLength = Math.max(maxLineLength, segmentGraphemeCells(line).length);
+    for (const line of textLines) maxLineLength = Math.max(maxLineLength, countGraphemeCells(line));
     maxLineLength = Math.min(maxLineLength, maxWidth);
     if (textItem.centered) {
       textBlockStartX = Math.floor(cols / 2) - Math.floor(maxLineLength / 2) + Math.floor((textItem.x / 100) * cols);
@@ -125,63 +152,65 @@ export const calculateTextBoundsAndLinks = (
   }
   if (!textLines || !textLines.length) return;
 
+  // Moved clear of earlier items by overlap resolution (see ./resolveOverlaps)
+  const nudge = nudges[index];
+  if (nudge) {
+    gridX += nudge.x;
+    gridY += nudge.y;
+    textBlockStartX += nudge.x;
+  }
+
+  // Regular text is placed in visual order for its direction; art rows keep theirs
+  const isRegularText = fontName === 'regular' && !textItem.preRenderedAscii;
+  const direction = isRegularText ? resolveTextDirection(textItem.text, textItem.direction) : 'ltr';
+  const alignment = resolveLineAlignment(textItem.alignment, direction);
+  const layoutLine = (line: string, verbatim: boolean) => {
+    if (textItem.preRenderedAscii) return layoutGraphemeColumns(line);
+    return verbatim ? layoutGraphemeColumns(line, maxWidth) : layoutBidiLine(line, direction, maxWidth);
+  };
+
   // --- Calculate Links --- 
   for (const linkInfo of linkData) {
     const line = textLines[linkInfo.line] ?? '';
-    const lineCells = segmentGraphemeCells(line);
-    const actualLineLength = Math.min(lineCells.length, maxWidth);
+    const { cells: lineCells, width: actualLineLength } = layoutLine(line, verbatimLines.includes(linkInfo.line));
     if (actualLineLength === 0) {
       continue;
     }
 
-    const toCellIndex = (codeUnitIndex: number) => {
-      if (codeUnitIndex <= 0) {
-        return 0;
-      }
-      if (codeUnitIndex >= line.length) {
-        return lineCells.length;
-      }
-      for (let i = 0; i < lineCells.length; i++) {
-        const cell = lineCells[i];
-        if (codeUnitIndex >= cell.start && codeUnitIndex < cell.end) {
-          return i;
-        }
-      }
-      return lineCells.length;
-    };
-
-    const linkStartCell = toCellIndex(linkInfo.start);
-    const linkEndCellExclusive = Math.min(
-      toCellIndex(Math.max(linkInfo.end - 1, linkInfo.start)) + 1,
-      actualLineLength
-    );
-    if (linkStartCell >= linkEndCellExclusive) {
+    // Links cover the columns of every grapheme that overlaps their code units;
+    // reordered text can put those anywhere on the line, so take the outermost
+    const linkCells = lineCells.filter(cell => cell.start < linkInfo.end && cell.end > linkInfo.start);
+    if (!linkCells.length) {
       continue;
     }
+    const linkStartColumn = Math.min(...linkCells.map(cell => cell.column));
+    const linkEndColumn = Math.max(...linkCells.map(cell => cell.column + cell.width - 1));
 
     const lineY = gridY + linkInfo.line;
     let textX = gridX;
     if (textItem.centered) {
       textX = textBlockStartX;
-      if (textItem.alignment === 'center') textX = textBlockStartX + Math.floor((maxLineLength - actualLineLength) / 2);
-      else if (textItem.alignment === 'right') textX = textBlockStartX + (maxLineLength - actualLineLength);
-    } else if (textItem.alignment) {
-      if (textItem.alignment === 'center') textX = Math.floor(gridX + (maxWidth - actualLineLength) / 2);
-      else if (textItem.alignment === 'right') textX = gridX + maxWidth - actualLineLength;
+      if (alignment === 'center') textX = textBlockStartX + Math.floor((maxLineLength - actualLineLength) / 2);
+      else if (alignment === 'right') textX = textBlockStartX + (maxLineLength - actualLineLength);
+    } else if (alignment) {
+      if (alignment === 'center') textX = Math.floor(gridX + (maxWidth - actualLineLength) / 2);
+      else if (alignment === 'right') textX = gridX + maxWidth - actualLineLength;
     }
     links.push({
       textKey: key,
       url: linkInfo.url,
-      startX: textX + linkStartCell,
-      endX: textX + linkEndCellExclusive - 1,
+      startX: textX + linkStartColumn,
+      endX: textX + linkEndColumn,
       y: lineY
     });
   }
 
   // --- Calculate Bounds for this Item --- 
   const finalLines: string[] = [];
+  const verbatimFinalLines = new Set<number>();
   for (let i = 0; i < textLines.length; i++) {
     const line = textLines[i];
+    if (verbatimLines.includes(i)) verbatimFinalLines.add(finalLines.length);
     finalLines.push(line);
     if (textItem.fontName === 'regular' && !textItem.preRenderedAscii && (line.trim() !== '' || i === textLines.length - 1)) {
       finalLines.push('');
@@ -192,36 +221,33 @@ export const calculateTextBoundsAndLinks = (
     const lineText = finalLines[lineIndex];
     if (!lineText) continue;
 
-    const lineCells = segmentGraphemeCells(lineText);
-    const cellsToRender = !textItem.preRenderedAscii && lineCells.length > maxWidth
-      ? lineCells.slice(0, maxWidth)
-      : lineCells;
+    const { cells: cellsToRender, width: actualLineLength } = layoutLine(lineText, verbatimFinalLines.has(lineIndex));
 
     const lineY = gridY + lineIndex;
     let textX = gridX;
-    const actualLineLength = cellsToRender.length;
     if (textItem.centered) {
       textX = textBlockStartX;
-      if (textItem.alignment === 'center') textX = textBlockStartX + Math.floor((maxLineLength - actualLineLength) / 2);
-      else if (textItem.alignment === 'right') textX = textBlockStartX + (maxLineLength - actualLineLength);
-    } else if (textItem.alignment) {
-      if (textItem.alignment === 'center') textX = Math.floor(gridX + (maxWidth - actualLineLength) / 2);
-      else if (textItem.alignment === 'right') textX = gridX + maxWidth - actualLineLength;
+      if (alignment === 'center') textX = textBlockStartX + Math.floor((maxLineLength - actualLineLength) / 2);
+      else if (alignment === 'right') textX = textBlockStartX + (maxLineLength - actualLineLength);
+    } else if (alignment) {
+      if (alignment === 'center') textX = Math.floor(gridX + (maxWidth - actualLineLength) / 2);
+      else if (alignment === 'right') textX = gridX + maxWidth - actualLineLength;
     }
     
     textBounds[key].minY = Math.min(textBounds[key].minY, lineY);
     textBounds[key].maxY = Math.max(textBounds[key].maxY, lineY);
     
-    for (let cellIndex = 0; cellIndex < cellsToRender.length; cellIndex++) {
-      const x = textX + cellIndex;
+    for (const cell of cellsToRender) {
+      const x = textX + cell.column;
       if (x < -cols || x > cols * 2) continue; // Check horizontal bounds
-      const char = cellsToRender[cellIndex].cell;
+      const char = cell.cell;
       if (char && char !== ' ') {
+        const endX = x + cell.width - 1;
         textBounds[key].minX = Math.min(textBounds[key].minX, x);
-        textBounds[key].maxX = Math.max(textBounds[key].maxX, x);
+        textBounds[key].maxX = Math.max(textBounds[key].maxX, endX);
         // Don't populate grid here yet
         // Add to simple cache for blob generation reference
-        cache[key].push({ startX: x, endX: x, y: lineY, char, fixed: isFixed });
+        cache[key].push({ startX: x, endX, y: lineY, char, fixed: isFixed });
       }
     }
   }
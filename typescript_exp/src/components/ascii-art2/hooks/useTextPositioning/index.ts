@@ -4,6 +4,7 @@ import { LinkPosition, TextPositionCacheResult, TextGridCell, TextPositionCache,
 import { UseTextPositioningParams, NamedTextboxes } from './types';
 import { renderText, preprocessLines } from './textRendering';
 import { calculatePosition, calculateLinks, calculateTextBounds, getTextItemKey } from './positioning';
+import { resolveTextDirection } from '../../bidi';
 
 export const useTextPositioning = ({
   textContent,
@@ -100,7 +101,11 @@ export const useTextPositioning = ({
       const positioningContext = {
         gridX,
         gridY,
-        textLines: textLines.map(line => ({ content: line, alignment: textItem.alignment })),
+        textLines: textLines.map(line => ({
+          content: line,
+          alignment: textItem.alignment,
+          direction: fontName === 'regular' ? resolveTextDirection(textItem.text, textItem.direction) : undefined
+        })),
         maxLineLength,
         textBlockStartX: adjustedTextBlockStartX,
         fontName,
@@ -0,0 +1,209 @@
+import { BLOB_PADDING } from '../../constants';
+import { LinkPosition, TextContentItem, TextLayout, TextPositionCache } from '../../types';
+import { calculateTextBoundsAndLinks } from './calculateBounds';
+
+/**
+ * Container items (`layout` + `children`) become ordinary anchored items
+ * before layout. The container itself turns into an invisible box the size
+ * of its arranged children, placed like any other item (x/y, centering,
+ * anchors), so other items can anchor to it. Each child is anchored to the
+ * box's top-left with the offset that puts its drawn characters where the
+ * arrangement wants them.
+ */
+
+interface InkBox {
+  x: number; // Drawn characters relative to the item's origin
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Unnamed containers and children get names so they can be anchored and looked up
+const nameItems = (textContent: TextContentItem[]) => {
+  const items: TextContentItem[] = [];
+  const parents: Array<number | undefined> = [];
+  const visit = (item: TextContentItem, parent: number | undefined, fallbackName: string) => {
+    const index = items.length;
+    const needsName = !item.name && (!!item.layout || parent !== undefined);
+    const { children, ...rest } = item;
+    items.push(needsName ? { ...rest, name: fallbackName } : item.layout ? rest : item);
+    parents.push(parent);
+    if (item.layout) {
+      children?.forEach((child, childIndex) => visit(child, index, `${items[index].name}.${childIndex}`));
+    }
+  };
+  textContent.forEach((item, index) => visit(item, undefined, `layout-${index}`));
+  return { items, parents };
+};
+
+/**
+ * Containers and their children as one flat list, containers first, with
+ * generated names (`layout-3`, `layout-3.0`, ...) where none were given
+ */
+export const flattenLayoutContainers = (textContent: TextContentItem[]): TextContentItem[] =>
+  textContent.some(item => item.layout) ? nameItems(textContent).items : textContent;
+
+// Where an item draws when laid out alone at the origin
+const measureItem = (item: TextContentItem, cols: number, rows: number): InkBox => {
+  const probe: TextContentItem = {
+    ...item,
+    x: 0,
+    y: 0,
+    usePercentPosition: false,
+    centered: false,
+    anchorTo: undefined
+  };
+  const cache: TextPositionCache = {};
+  const bounds: Parameters<typeof calculateTextBoundsAndLinks>[5] = {};
+  const links: LinkPosition[] = [];
+  calculateTextBoundsAndLinks(0, [probe], {}, new Set(), cache, bounds, links, cols, rows);
+  const box = Object.values(bounds)[0];
+  if (!box || !Number.isFinite(box.minX) || !Number.isFinite(box.minY)) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+  return {
+    x: box.minX + BLOB_PADDING,
+    y: box.minY + BLOB_PADDING,
+    width: box.maxX - box.minX - 2 * BLOB_PADDING + 1,
+    height: box.maxY - box.minY - 2 * BLOB_PADDING + 1
+  };
+};
+
+const alignOffset = (space: number, align: TextLayout['align']) => {
+  if (align === 'center') return Math.floor(space / 2);
+  if (align === 'end') return space;
+  return 0;
+};
+
+/**
+ * Top-left of every child's ink within the container, and the container size
+ */
+const arrangeChildren = (layout: TextLayout, sizes: InkBox[], maxWidth: number) => {
+  const gap = layout.gap ?? 1;
+  const rowGap = layout.rowGap ?? gap;
+  const columnGap = layout.columnGap ?? gap;
+  const positions = sizes.map(() => ({ x: 0, y: 0 }));
+
+  if (layout.type === 'stack') {
+    const width = Math.max(0, ...sizes.map(size => size.width));
+    let y = 0;
+    sizes.forEach((size, index) => {
+      positions[index] = { x: alignOffset(width - size.width, layout.align), y };
+      y += size.height + rowGap;
+    });
+    return { positions, width, height: Math.max(0, y - rowGap) };
+  }
+
+  if (layout.type === 'row') {
+    // Break into lines first so each line can align its children vertically
+    const lines: number[][] = [[]];
+    let lineWidth = 0;
+    sizes.forEach((size, index) => {
+      const line = lines[lines.length - 1];
+      if (layout.wrap && line.length && lineWidth + columnGap + size.width > maxWidth) {
+        lines.push([index]);
+        lineWidth = size.width;
+      } else {
+        lineWidth += (line.length ? columnGap : 0) + size.width;
+        line.push(index);
+      }
+    });
+
+    let width = 0;
+    let y = 0;
+    for (const line of lines) {
+      const lineHeight = Math.max(0, ...line.map(index => sizes[index].height));
+      let x = 0;
+      for (const index of line) {
+        positions[index] = { x, y: y + alignOffset(lineHeight - sizes[index].height, layout.align) };
+        x += sizes[index].width + columnGap;
+      }
+      width = Math.max(width, x - columnGap);
+      y += lineHeight + rowGap;
+    }
+    return { positions, width, height: Math.max(0, y - rowGap) };
+  }
+
+  // Grid: each column is as wide as its widest child, each row as tall as its tallest
+  const columns = Math.max(1, Math.floor(layout.columns ?? 2));
+  const columnWidths = new Array(Math.min(columns, sizes.length)).fill(0);
+  const rowHeights = new Array(Math.ceil(sizes.length / columns)).fill(0);
+  sizes.forEach((size, index) => {
+    columnWidths[index % columns] = Math.max(columnWidths[index % columns], size.width);
+    rowHeights[Math.floor(index / columns)] = Math.max(rowHeights[Math.floor(index / columns)], size.height);
+  });
+  const columnStarts = columnWidths.map((_, column) =>
+    columnWidths.slice(0, column).reduce((sum, width) => sum + width + columnGap, 0));
+  const rowStarts = rowHeights.map((_, row) =>
+    rowHeights.slice(0, row).reduce((sum, height) => sum + height + rowGap, 0));
+  sizes.forEach((size, index) => {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    positions[index] = {
+      x: columnStarts[column] + alignOffset(columnWidths[column] - size.width, layout.align),
+      y: rowStarts[row]
+    };
+  });
+  const width = columnWidths.length ? columnStarts[columnStarts.length - 1] + columnWidths[columnWidths.length - 1] : 0;
+  const height = rowHeights.length ? rowStarts[rowStarts.length - 1] + rowHeights[rowHeights.length - 1] : 0;
+  return { positions, width, height };
+};
+
+// Only the corners are drawn, which is all the bounds need
+const boxOutline = (width: number, height: number) => {
+  const edge = width > 1 ? `#${' '.repeat(width - 2)}#` : '#';
+  return Array.from({ length: height }, (_, row) => (row === 0 || row === height - 1 ? edge : '')).join('\n');
+};
+
+/**
+ * Replace containers with their box item and anchored children, ready for
+ * validateAnchorGraph. Box items keep `layout`, which tells layout not to draw them.
+ */
+export const expandLayoutContainers = (
+  textContent: TextContentItem[],
+  cols: number,
+  rows: number
+): TextContentItem[] => {
+  if (!textContent.some(item => item.layout)) {
+    return textContent;
+  }
+
+  const { items, parents } = nameItems(textContent);
+  const childrenOf = (index: number) => parents.flatMap((parent, child) => (parent === index ? [child] : []));
+
+  // Children follow their container in the list, so measure back to front
+  const outlines: string[] = new Array(items.length);
+  const boxes: InkBox[] = new Array(items.length);
+  const offsets: Array<{ x: number; y: number }> = new Array(items.length);
+  for (let index = items.length - 1; index >= 0; index--) {
+    const item = items[index];
+    const layout = item.layout;
+    if (layout) {
+      const children = childrenOf(index);
+      const maxWidth = item.maxWidthPercent ? Math.floor((cols * item.maxWidthPercent) / 100) : cols;
+      const arranged = arrangeChildren(layout, children.map(child => boxes[child]), maxWidth);
+      children.forEach((child, position) => {
+        offsets[child] = arranged.positions[position];
+      });
+      outlines[index] = boxOutline(Math.max(1, arranged.width), Math.max(1, arranged.height));
+    }
+    boxes[index] = measureItem(layout ? { ...item, preRenderedAscii: outlines[index] } : item, cols, rows);
+  }
+
+  const expanded: TextContentItem[] = [];
+  items.forEach((item, index) => {
+    const parent = parents[index];
+    const placed: TextContentItem = parent === undefined ? item : {
+      ...item,
+      // Bounds are padded, so the box's top-left sits BLOB_PADDING outside its corner
+      anchorTo: items[parent].name,
+      anchorPoint: 'topLeft',
+      anchorOffsetX: BLOB_PADDING + offsets[index].x - boxes[index].x,
+      anchorOffsetY: BLOB_PADDING + offsets[index].y - boxes[index].y,
+      centered: false,
+      fixed: expanded[parent].fixed
+    };
+    expanded.push(item.layout ? { ...placed, preRenderedAscii: outlines[index] } : placed);
+  });
+  return expanded;
+};
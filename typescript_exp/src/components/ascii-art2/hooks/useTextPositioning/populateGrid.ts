@@ -1,9 +1,11 @@
 import { renderFormattedText } from '../../ASCII_text_renderer';
 import { 
     TextGridCell, 
-    TextContentItem 
+    TextContentItem,
+    OverlapNudge
 } from '../../types';
-import { segmentGraphemeCells } from '../../utils';
+import { countGraphemeCells, layoutGraphemeColumns } from '../../utils';
+import { layoutBidiLine, resolveLineAlignment, resolveTextDirection } from '../../bidi';
 
 // --- Extracted Function: Populate Grid ---
 export const populateTextGrid = (
@@ -17,7 +19,8 @@ export const populateTextGrid = (
   rows: number,
   gridCols: number,
   gridRows: number,
-  offsetY: number
+  offsetY: number,
+  nudges: Record<number, OverlapNudge> = {}
 ) => {
   if (positionedItems.has(index)) return;
   const textItem = textContent[index];
@@ -25,7 +28,7 @@ export const populateTextGrid = (
     const anchorIndex = namedTextboxes[textItem.anchorTo];
     if (anchorIndex !== undefined && !positionedItems.has(anchorIndex)) {
        // Recursive call - needs access to all parameters
-       populateTextGrid(anchorIndex, textContent, namedTextboxes, positionedItems, textBounds, positionGridArray, cols, rows, gridCols, gridRows, offsetY);
+       populateTextGrid(anchorIndex, textContent, namedTextboxes, positionedItems, textBounds, positionGridArray, cols, rows, gridCols, gridRows, offsetY, nudges);
     }
   }
 
@@ -77,12 +80,12 @@ export const populateTextGrid = (
 
   // Rerender Text / Get Lines & Styles
   const fontName = textItem.fontName || 'regular';
-  let formattedResult: { text: string; html: string; links: Array<{line: number, start: number, end: number, url: string}>; styles: Array<{line: number, start: number, end: number, style: {isBold?: boolean, isItalic?: boolean, isLink?: boolean, url?: string, color?: string}}> } | null = null; // Define formattedResult here
+  let formattedResult: { text: string; html: string; links: Array<{line: number, start: number, end: number, url: string}>; styles: Array<{line: number, start: number, end: number, style: {isBold?: boolean, isItalic?: boolean, isUnderline?: boolean, isInverse?: boolean, isLink?: boolean, url?: string, color?: string}}>; verbatimLines: number[] } | null = null; // Define formattedResult here
 
   if (textItem.preRenderedAscii) {
     textLines = textItem.preRenderedAscii.split('\n');
     maxLineLength = 0;
-    for (const line of textLines) maxLineLength = Math.max(maxLineLength, segmentGraphemeCells(line).length);
+    for (const line of textLines) maxLineLength = Math.max(maxLineLength, countGraphemeCells(line));
     if (textItem.centered) {
       textBlockStartX = Math.floor(cols / 2) - Math.floor(maxLineLength / 2);
       gridX = textBlockStartX;
@@ -93,11 +96,17 @@ export const populateTextGrid = (
     formattedResult = renderFormattedText(
       textItem.text,
       fontName,
-      { maxWidth, respectLineBreaks: true }
+      {
+        maxWidth,
+        respectLineBreaks: true,
+        headingFont: textItem.headingFont,
+        justify: textItem.alignment === 'justify',
+        hyphenation: textItem.hyphenation
+      }
     );
     textLines = formattedResult.text.split('\n');
     maxLineLength = 0;
-    for (const line of textLines) maxLineLength = Math.max(maxLineLength, segmentGraphemeCells(line).length);
+    for (const line of textLines) maxLineLength = Math.max(maxLineLength, countGraphemeCells(line));
     maxLineLength = Math.min(maxLineLength, maxWidth);
     if (textItem.centered) {
       textBlockStartX = Math.floor(cols / 2) - Math.floor(maxLineLength / 2) + Math.floor((textItem.x / 100) * cols);
@@ -105,11 +114,31 @@ export const populateTextGrid = (
     }
   }
   if (!textLines || !textLines.length) return;
+
+  // Moved clear of earlier items by overlap resolution (see ./resolveOverlaps)
+  const nudge = nudges[index];
+  if (nudge) {
+    gridX += nudge.x;
+    gridY += nudge.y;
+    textBlockStartX += nudge.x;
+  }
+
+  // Regular text is placed in visual order for its direction; art rows keep theirs
+  const isRegularText = fontName === 'regular' && !textItem.preRenderedAscii;
+  const direction = isRegularText ? resolveTextDirection(textItem.text, textItem.direction) : 'ltr';
+  const alignment = resolveLineAlignment(textItem.alignment, direction);
+  const verbatimLines = formattedResult?.verbatimLines ?? [];
+  const layoutLine = (line: string, verbatim: boolean) => {
+    if (textItem.preRenderedAscii) return layoutGraphemeColumns(line);
+    return verbatim ? layoutGraphemeColumns(line, maxWidth) : layoutBidiLine(line, direction, maxWidth);
+  };
   
   // Final line processing and grid population
   const finalLines: string[] = []; // Calculate finalLines as before
+  const verbatimFinalLines = new Set<number>();
   for (let i = 0; i < textLines.length; i++) {
     const line = textLines[i];
+    if (verbatimLines.includes(i)) verbatimFinalLines.add(finalLines.length);
     finalLines.push(line);
     if (textItem.fontName === 'regular' && !textItem.preRenderedAscii && (line.trim() !== '' || i === textLines.length - 1)) {
       finalLines.push('');
@@ -120,28 +149,23 @@ export const populateTextGrid = (
     const lineText = finalLines[lineIndex];
     if (!lineText) continue;
 
-    const lineCells = segmentGraphemeCells(lineText);
-    const cellsToRender = !textItem.preRenderedAscii && lineCells.length > maxWidth
-      ? lineCells.slice(0, maxWidth)
-      : lineCells;
+    const { cells: cellsToRender, width: actualLineLength } = layoutLine(lineText, verbatimFinalLines.has(lineIndex));
 
     const lineY = gridY + lineIndex;
     let textX = gridX;
-    const actualLineLength = cellsToRender.length;
 
     // Recalculate textX based on alignment/centering as before
     if (textItem.centered) {
       textX = textBlockStartX;
-      if (textItem.alignment === 'center') textX = textBlockStartX + Math.floor((maxLineLength - actualLineLength) / 2);
-      else if (textItem.alignment === 'right') textX = textBlockStartX + (maxLineLength - actualLineLength);
-    } else if (textItem.alignment) {
-      if (textItem.alignment === 'center') textX = Math.floor(gridX + (maxWidth - actualLineLength) / 2);
-      else if (textItem.alignment === 'right') textX = gridX + maxWidth - actualLineLength;
+      if (alignment === 'center') textX = textBlockStartX + Math.floor((maxLineLength - actualLineLength) / 2);
+      else if (alignment === 'right') textX = textBlockStartX + (maxLineLength - actualLineLength);
+    } else if (alignment) {
+      if (alignment === 'center') textX = Math.floor(gridX + (maxWidth - actualLineLength) / 2);
+      else if (alignment === 'right') textX = gridX + maxWidth - actualLineLength;
     }
     
-    for (let cellIndex = 0; cellIndex < cellsToRender.length; cellIndex++) {
-      const x = textX + cellIndex;
-      const cell = cellsToRender[cellIndex];
+    for (const cell of cellsToRender) {
+      const x = textX + cell.column;
       const char = cell.cell;
       if (char && char !== ' ') {
         // *** Populate the flat array ***
@@ -149,22 +173,33 @@ export const populateTextGrid = (
         // Check bounds before writing
         if (x >= 0 && x < gridCols && lineY >= offsetY && lineY < offsetY + gridRows) {
            if (arrayIndex >= 0 && arrayIndex < positionGridArray.length) { // Double check index
-             // --- MODIFIED: Retrieve and store isBold/isItalic ---
+             // --- MODIFIED: Retrieve and store the markup styles ---
              let isBold = false;
              let isItalic = false;
+             let isUnderline = false;
+             let isInverse = false;
+             let color: string | undefined;
              // Check styles only if formattedResult exists (i.e., not preRenderedAscii)
              if (formattedResult) {
                for (const styleInfo of formattedResult.styles) {
                  if (styleInfo.line === lineIndex && cell.start < styleInfo.end && cell.end > styleInfo.start) {
                    isBold = !!styleInfo.style.isBold;
                    isItalic = !!styleInfo.style.isItalic;
+                   isUnderline = !!styleInfo.style.isUnderline;
+                   isInverse = !!styleInfo.style.isInverse;
+                   // Links are colored by the link overlay pass
+                   color = styleInfo.style.isLink ? undefined : styleInfo.style.color;
                    break; // Found the style for this character
                  }
                }
              }
              // Store char, fixed, and the determined styles
-             positionGridArray[arrayIndex] = { char, fixed: isFixed, isBold, isItalic };
+             positionGridArray[arrayIndex] = { char, fixed: isFixed, isBold, isItalic, isUnderline, isInverse, color };
              // --- END MODIFICATION ---
+             // Wide graphemes claim the next column with an empty continuation cell
+             if (cell.width === 2 && x + 1 < gridCols) {
+               positionGridArray[arrayIndex + 1] = { char: '', fixed: isFixed, isBold, isItalic, isUnderline, isInverse, color };
+             }
            }
         }
       }
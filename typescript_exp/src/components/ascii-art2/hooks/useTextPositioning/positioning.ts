@@ -1,12 +1,17 @@
 import { BLOB_PADDING } from '../../constants';
 import { TextContentItem, NamedTextboxes, LinkData } from './types';
-import { TextBounds, LinkPosition } from '../../types';
+import { TextBounds, LinkPosition, TextContentItem as AnchoredItem } from '../../types';
+import { TextDirection, resolveLineAlignment } from '../../bidi';
 
 export interface TextLine {
   content: string;
-  alignment?: 'left' | 'center' | 'right';
+  alignment?: 'left' | 'center' | 'right' | 'justify';
+  direction?: TextDirection; // Right-to-left lines default to right alignment
 }
 
+const lineAlignment = (line: TextLine | undefined) =>
+  line ? resolveLineAlignment(line.alignment, line.direction ?? 'ltr') : undefined;
+
 export interface PositioningContext {
   gridX: number;
   gridY: number;
@@ -80,21 +85,22 @@ export const calculateTextAlignment = (
   
   // Calculate horizontal alignment based on settings
   if (!textLines[lineIndex]) return gridX;
+  const alignment = lineAlignment(textLines[lineIndex]);
   
   // For centered text box
   if (context.textBlockStartX !== context.gridX) {
-    if (textLines[lineIndex].alignment === 'center') {
+    if (alignment === 'center') {
       return textBlockStartX + Math.floor((maxLineLength - actualLineLength) / 2);
-    } else if (textLines[lineIndex].alignment === 'right') {
+    } else if (alignment === 'right') {
       return textBlockStartX + (maxLineLength - actualLineLength);
     }
     return textBlockStartX;
   } 
   // For non-centered text box with alignment
-  else if (textLines[lineIndex].alignment) {
-    if (textLines[lineIndex].alignment === 'center') {
+  else if (alignment) {
+    if (alignment === 'center') {
       return Math.floor(gridX + (maxLineLength - actualLineLength) / 2);
-    } else if (textLines[lineIndex].alignment === 'right') {
+    } else if (alignment === 'right') {
       return gridX + maxLineLength - actualLineLength;
     }
   }
@@ -122,19 +128,20 @@ export const calculateLinks = (
       : 0;
     
     // Calculate position based on alignment
+    const alignment = lineAlignment(textLines[linkInfo.line]);
     if (textBlockStartX !== gridX) {
       // Centered text box
       textX = textBlockStartX;
-      if (textLines[linkInfo.line]?.alignment === 'center') {
+      if (alignment === 'center') {
         textX = textBlockStartX + Math.floor((maxLineLength - actualLineLength) / 2);
-      } else if (textLines[linkInfo.line]?.alignment === 'right') {
+      } else if (alignment === 'right') {
         textX = textBlockStartX + (maxLineLength - actualLineLength);
       }
-    } else if (textLines[linkInfo.line]?.alignment) {
+    } else if (alignment) {
       // Text with alignment but not centered box
-      if (textLines[linkInfo.line].alignment === 'center') {
+      if (alignment === 'center') {
         textX = Math.floor(gridX + (maxLineLength - actualLineLength) / 2);
-      } else if (textLines[linkInfo.line].alignment === 'right') {
+      } else if (alignment === 'right') {
         textX = gridX + maxLineLength - actualLineLength;
       }
     }
@@ -212,3 +219,23 @@ export const getTextItemKey = (
     ? `${name}-${text}` 
     : `${text}-${x}-${y}`;
 }; 
+
+// Grid cell an item anchors to on its anchor's (padded) bounds
+export const getAnchorPoint = (
+  bounds: TextBounds,
+  anchorPoint: NonNullable<AnchoredItem['anchorPoint']> = 'topLeft'
+): { x: number; y: number } => {
+  const centerX = Math.floor((bounds.minX + bounds.maxX) / 2);
+  const middleY = Math.floor((bounds.minY + bounds.maxY) / 2);
+  switch (anchorPoint) {
+    case 'topLeft': return { x: bounds.minX, y: bounds.minY };
+    case 'topCenter': return { x: centerX, y: bounds.minY };
+    case 'topRight': return { x: bounds.maxX, y: bounds.minY };
+    case 'bottomLeft': return { x: bounds.minX, y: bounds.maxY };
+    case 'bottomRight': return { x: bounds.maxX, y: bounds.maxY };
+    case 'bottomCenter': return { x: centerX, y: bounds.maxY };
+    case 'center': return { x: centerX, y: middleY };
+    case 'middleLeft': return { x: bounds.minX, y: middleY };
+    case 'middleRight': return { x: bounds.maxX, y: middleY };
+  }
+};
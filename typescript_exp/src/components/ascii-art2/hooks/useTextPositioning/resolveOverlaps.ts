@@ -0,0 +1,109 @@
+import { OverlapNudge, TextContentItem, TextPositionCache } from '../../types';
+import { getTextItemKey } from './positioning';
+
+/**
+ * Items marked `avoidOverlap` are checked against everything laid out before
+ * them (in anchor order) and moved the shortest way clear: sideways, keeping
+ * their row, or down. Nothing is random, so the same viewport always gives
+ * the same layout, and items anchored to a moved item follow it.
+ */
+
+interface InkBox {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+// Grid cells are about twice as tall as they are wide, so a row costs two columns
+const ROW_COST = 2;
+
+const inkBox = (cells: TextPositionCache[string] | undefined): InkBox | null => {
+  if (!cells?.length) {
+    return null;
+  }
+  const box = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity };
+  for (const cell of cells) {
+    box.minX = Math.min(box.minX, cell.startX);
+    box.maxX = Math.max(box.maxX, cell.endX);
+    box.minY = Math.min(box.minY, cell.y);
+    box.maxY = Math.max(box.maxY, cell.y);
+  }
+  return box;
+};
+
+// Closer than `gap` empty cells on both axes
+const collides = (a: InkBox, b: InkBox, gap: number) =>
+  a.minX <= b.maxX + gap && b.minX <= a.maxX + gap && a.minY <= b.maxY + gap && b.minY <= a.maxY + gap;
+
+const shift = (box: InkBox, { x, y }: OverlapNudge): InkBox => ({
+  minX: box.minX + x,
+  maxX: box.maxX + x,
+  minY: box.minY + y,
+  maxY: box.maxY + y
+});
+
+/**
+ * Smallest move that keeps `box` `gap` cells away from every obstacle and,
+ * when moving sideways, inside the screen's columns
+ */
+export const findOverlapNudge = (box: InkBox, obstacles: InkBox[], gap: number, cols: number): OverlapNudge => {
+  const isClear = (nudge: OverlapNudge) => obstacles.every(obstacle => !collides(shift(box, nudge), obstacle, gap));
+  const fitsOnScreen = (nudge: OverlapNudge) => box.minX + nudge.x >= 0 && box.maxX + nudge.x < cols;
+
+  // Each round either settles or moves further down, so this ends below the lowest obstacle
+  let y = 0;
+  for (;;) {
+    const hits = obstacles.filter(obstacle => collides(shift(box, { x: 0, y }), obstacle, gap));
+    if (!hits.length) {
+      return { x: 0, y };
+    }
+
+    const downs = hits.map(hit => hit.maxY + gap + 1 - box.minY);
+    const candidates: OverlapNudge[] = [
+      ...downs.map(down => ({ x: 0, y: down })),
+      ...hits.map(hit => ({ x: hit.maxX + gap + 1 - box.minX, y })),
+      ...hits.map(hit => ({ x: hit.minX - gap - 1 - box.maxX, y }))
+    ];
+    const cost = (nudge: OverlapNudge) => Math.abs(nudge.x) + Math.abs(nudge.y - y) * ROW_COST;
+    const best = candidates
+      .filter(nudge => (nudge.x === 0 || fitsOnScreen(nudge)) && isClear(nudge))
+      .reduce<OverlapNudge | null>((found, nudge) => (!found || cost(nudge) < cost(found) ? nudge : found), null);
+    if (best) {
+      return best;
+    }
+    y = Math.min(...downs);
+  }
+};
+
+/**
+ * Nudge for item `index` against the `placed` items sharing its `fixed`
+ * layer, or null when it is already clear. Container boxes are skipped;
+ * their children stand in for them.
+ */
+export const resolveItemOverlap = (
+  index: number,
+  items: TextContentItem[],
+  placed: number[],
+  cache: TextPositionCache,
+  cols: number
+): OverlapNudge | null => {
+  const item = items[index];
+  const keyOf = (other: TextContentItem) => getTextItemKey(other.name, other.text, other.x, other.y);
+  const box = inkBox(cache[keyOf(item)]);
+  if (!box || !item.avoidOverlap) {
+    return null;
+  }
+
+  const obstacles = placed.flatMap(other => {
+    const otherItem = items[other];
+    if (other === index || otherItem.layout || !!otherItem.fixed !== !!item.fixed) {
+      return [];
+    }
+    const otherBox = inkBox(cache[keyOf(otherItem)]);
+    return otherBox ? [otherBox] : [];
+  });
+  const gap = typeof item.avoidOverlap === 'object' ? item.avoidOverlap.gap ?? 1 : 1;
+  const nudge = findOverlapNudge(box, obstacles, Math.max(0, gap), cols);
+  return nudge.x || nudge.y ? nudge : null;
+};
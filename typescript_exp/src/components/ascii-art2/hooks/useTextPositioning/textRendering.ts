@@ -43,7 +43,10 @@ export const renderText = (
       fontName, 
       { 
         maxWidth: maxWidth, 
-        respectLineBreaks: true 
+        respectLineBreaks: true,
+        headingFont: textItem.headingFont,
+        justify: textItem.alignment === 'justify',
+        hyphenation: textItem.hyphenation
       }
     );
     textLines = formattedResult.text.split('\n');
@@ -6,10 +6,13 @@ export interface TextContentItem {
   x: number;
   y: number;
   fontName?: FontName;
+  headingFont?: FontName; // Font for "# Heading" lines when fontName is 'regular'
   preRenderedAscii?: string;
   fixed?: boolean;
   maxWidthPercent?: number;
-  alignment?: 'left' | 'center' | 'right';
+  alignment?: 'left' | 'center' | 'right' | 'justify'; // justify applies to regular text; lines are placed like left
+  hyphenation?: string; // Hyphenation language for regular text, e.g. 'en' or 'nl'
+  direction?: 'ltr' | 'rtl' | 'auto'; // Paragraph direction for regular text (default 'auto': first strong character); rtl defaults alignment to right
   usePercentPosition?: boolean;
   centered?: boolean;
   name?: string;
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getHyphenationPoints, registerHyphenationPatterns, unregisterHyphenationPatterns } from './hyphenation';
+import { renderFormattedText } from './ASCII_text_renderer';
+
+const bodyLines = (text: string) => text.split('\n').filter(Boolean);
+
+describe('hyphenation and justified text', () => {
+  afterEach(() => {
+    unregisterHyphenationPatterns('liang');
+    vi.restoreAllMocks();
+  });
+
+  it('applies Liang patterns, exceptions and the bundled syllable rules', () => {
+    // The worked example from Liang's thesis
+    registerHyphenationPatterns('liang', {
+      patterns: ['hy3ph', 'he2n', 'hena4', 'hen5at', '1na', 'n2at', '1tio', '2io', 'o2n'],
+      exceptions: ['ta-ble']
+    });
+    expect(getHyphenationPoints('hyphenation', 'liang')).toEqual([2, 6]);
+    expect(getHyphenationPoints('Table', 'liang')).toEqual([2]);
+
+    expect(getHyphenationPoints('verkeersveiligheid', 'nl')).toEqual([3, 8, 11, 14]);
+    expect(getHyphenationPoints('vrijheid', 'nl')).toEqual([4]);
+  });
+
+  it('warns once about an unknown language and leaves words whole', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { text } = renderFormattedText('de verkeersveiligheid', 'regular', { maxWidth: 12, hyphenation: 'xx' });
+
+    expect(bodyLines(text)).toEqual(['de', 'verkeersveiligheid']);
+    expect(getHyphenationPoints('verkeersveiligheid', 'xx')).toEqual([]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('Unknown hyphenation language "xx"');
+  });
+
+  it('breaks long words inside styled text without touching links', () => {
+    const { text, styles } = renderFormattedText(
+      'de ==verkeersveiligheid== [verkeersveiligheid](u)',
+      'regular',
+      { maxWidth: 12, hyphenation: 'nl' }
+    );
+    expect(bodyLines(text)).toEqual(['de verkeers-', 'veiligheid', 'verkeersveiligheid']);
+    expect(styles.map(({ line, start, end }) => [line, start, end])).toEqual([[0, 3, 12], [2, 0, 10], [4, 0, 18]]);
+  });
+
+  it('justifies every line but the last while link text keeps its length', () => {
+    const { text, links } = renderFormattedText(
+      'aa bb [c d](u) eee ff\nlast line',
+      'regular',
+      { maxWidth: 12, justify: true }
+    );
+    expect(bodyLines(text)).toEqual(['aa   bb  c\u00A0d', 'eee ff', 'last line']);
+    expect(links).toEqual([{ line: 0, start: 9, end: 12, url: 'u' }]);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Liang-style pattern hyphenation (the algorithm TeX uses). Each language
+ * holds digit-annotated patterns such as "hy3ph": odd digits allow a break
+ * at that spot, even digits forbid it, and the highest digit wins.
+ */
+
+export interface HyphenationDefinition {
+  patterns: string[];
+  exceptions?: string[]; // Whole words with their breaks marked, e.g. "ta-ble"
+  leftMin?: number; // Fewest letters kept before a break (default 2)
+  rightMin?: number; // Fewest letters carried to the next line (default 2)
+}
+
+interface HyphenationTable {
+  patterns: Map<string, number[]>;
+  exceptions: Map<string, number[]>;
+  longestPattern: number;
+  leftMin: number;
+  rightMin: number;
+}
+
+const tables = new Map<string, HyphenationTable>();
+
+const parsePattern = (pattern: string) => {
+  let letters = '';
+  const values: number[] = [0];
+  for (const char of pattern) {
+    if (char >= '0' && char <= '9') {
+      values[values.length - 1] = Number(char);
+    } else {
+      letters += char;
+      values.push(0);
+    }
+  }
+  return { letters, values };
+};
+
+export const registerHyphenationPatterns = (language: string, definition: HyphenationDefinition) => {
+  const patterns = new Map<string, number[]>();
+  let longestPattern = 0;
+  for (const pattern of definition.patterns) {
+    const { letters, values } = parsePattern(pattern.toLowerCase());
+    patterns.set(letters, values);
+    longestPattern = Math.max(longestPattern, letters.length);
+  }
+
+  const exceptions = new Map<string, number[]>();
+  for (const exception of definition.exceptions ?? []) {
+    const parts = exception.toLowerCase().split('-');
+    const points: number[] = [];
+    let position = 0;
+    for (const part of parts.slice(0, -1)) {
+      position += part.length;
+      points.push(position);
+    }
+    exceptions.set(parts.join(''), points);
+  }
+
+  tables.set(language, {
+    patterns,
+    exceptions,
+    longestPattern,
+    leftMin: definition.leftMin ?? 2,
+    rightMin: definition.rightMin ?? 2
+  });
+};
+
+export const unregisterHyphenationPatterns = (language: string) => tables.delete(language);
+
+export const isHyphenationLanguageRegistered = (language: string) => tables.has(language);
+
+// Layout reruns on every resize, so each unknown language is only reported once
+const reportedUnknownLanguages = new Set<string>();
+
+/**
+ * Offsets inside `word` where a hyphen may go (a break before word[offset]).
+ * Works on a single run of letters; callers split compounds and markup first.
+ * An unregistered language warns in development and hyphenates nothing.
+ */
+export const getHyphenationPoints = (word: string, language: string): number[] => {
+  const table = tables.get(language);
+  if (!table) {
+    if (import.meta.env.DEV && !reportedUnknownLanguages.has(language)) {
+      reportedUnknownLanguages.add(language);
+      console.warn(`Unknown hyphenation language "${language}", not hyphenating. Registered languages: ${Array.from(tables.keys()).join(', ')}`);
+    }
+    return [];
+  }
+
+  const lower = word.toLowerCase();
+  const length = lower.length;
+  if (length < table.leftMin + table.rightMin) {
+    return [];
+  }
+
+  const exception = table.exceptions.get(lower);
+  if (exception) {
+    return exception;
+  }
+
+  const work = `.${lower}.`;
+  const values = new Array<number>(work.length + 1).fill(0);
+  for (let start = 0; start < work.length; start++) {
+    const maxEnd = Math.min(work.length, start + table.longestPattern);
+    for (let end = start + 1; end <= maxEnd; end++) {
+      const pattern = table.patterns.get(work.slice(start, end));
+      if (!pattern) continue;
+      pattern.forEach((value, index) => {
+        values[start + index] = Math.max(values[start + index], value);
+      });
+    }
+  }
+
+  // values[i + 1] sits between word[i - 1] and word[i] because of the leading "."
+  const points: number[] = [];
+  for (let offset = table.leftMin; offset <= length - table.rightMin; offset++) {
+    if (values[offset + 1] % 2 === 1) {
+      points.push(offset);
+    }
+  }
+  return points;
+};
+
+/**
+ * Compact syllable patterns rather than the full TeX sets: break before a
+ * consonant that starts a syllable (wa-ter, win-ter) and never inside the
+ * clusters listed in `keepTogether`. Register the TeX patterns for a language
+ * when dictionary-quality breaks matter.
+ */
+const buildSyllablePatterns = (vowels: string, consonants: string, keepTogether: string[]) => {
+  const patterns: string[] = [];
+  for (const consonant of consonants) {
+    for (const vowel of vowels) {
+      patterns.push(`1${consonant}${vowel}`);
+    }
+  }
+  for (const cluster of keepTogether) {
+    patterns.push(`1${cluster.split('').join('2')}`);
+  }
+  return patterns;
+};
+
+registerHyphenationPatterns('en', {
+  patterns: buildSyllablePatterns('aeiouy', 'bcdfghjklmnpqrstvwxz', [
+    'bl', 'br', 'ch', 'ck', 'cl', 'cr', 'dr', 'fl', 'fr', 'gl', 'gr', 'gh', 'ph', 'pl', 'pr', 'qu', 'sh', 'th', 'tr', 'wh', 'wr'
+  ]),
+  leftMin: 2,
+  rightMin: 3
+});
+
+registerHyphenationPatterns('nl', {
+  patterns: [
+    ...buildSyllablePatterns('aeiouyáéíóúèëïöü', 'bcdfghjklmnpqrstvwxz', [
+      'bl', 'br', 'ch', 'dr', 'fl', 'fr', 'gl', 'gr', 'kl', 'kr', 'pl', 'pr', 'sch', 'schr', 'tr', 'vl', 'vr', 'wr'
+    ]),
+    // "ij" is a single vowel
+    'i2j'
+  ],
+  leftMin: 2,
+  rightMin: 2
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { AsciiImagePixels, imageToAscii } from './imageToAscii';
+import { createCharacterRamp } from './characterRamps';
+
+// RGBA pixels from a per-pixel gray level (0 = black, 255 = white)
+const grayImage = (width: number, height: number, gray: (x: number, y: number) => number): AsciiImagePixels => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      data.fill(gray(x, y), offset, offset + 3);
+      data[offset + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+const ramp = createCharacterRamp('test', '#+. ');
+
+describe('imageToAscii', () => {
+  it('maps luminance onto the ramp, crops insets and derives rows from the cell aspect', () => {
+    const gradient = grayImage(8, 4, x => Math.round((x / 7) * 255));
+    expect(imageToAscii(gradient, { columns: 4, ramp, cellAspect: 2 })).toBe('#+.');
+    // Cropping the dark half leaves only the light end of the gradient
+    expect(imageToAscii(gradient, { columns: 2, rows: 1, ramp, insets: { left: 0.5 } })).toBe('.');
+    expect(imageToAscii(gradient, { columns: 4, rows: 1, ramp, invert: true })).toBe(' .+#');
+  });
+
+  it('draws edges along their direction and dithers mid tones', () => {
+    const split = grayImage(8, 8, x => (x < 4 ? 0 : 255));
+    expect(imageToAscii(split, { columns: 8, rows: 2, ramp, edges: true }).split('\n')).toEqual(['###||', '###||']);
+
+    const mid = grayImage(8, 8, () => 128);
+    const dithered = imageToAscii(mid, { columns: 8, rows: 4, ramp: createCharacterRamp('bw', '# '), dither: 'floyd-steinberg' });
+    const dense = dithered.split('').filter(char => char === '#').length;
+    expect(dense).toBeGreaterThanOrEqual(14);
+    expect(dense).toBeLessThanOrEqual(18);
+    expect(() => imageToAscii(mid, { columns: 0 })).toThrow('positive column count');
+  });
+});
@@ -0,0 +1,207 @@
+import { CHAR_HEIGHT, CHAR_WIDTH } from './constants';
+import { CharacterRampSpec, resolveCharacterRamp } from './characterRamps';
+
+/**
+ * Image to ASCII conversion for hero art. Works on plain RGBA pixels so the
+ * same code runs in the browser (see loadImagePixels) and from Node
+ * (scripts/image-to-ascii.mjs decodes the file itself).
+ */
+
+// Row-major RGBA, 4 bytes per pixel, like ImageData
+export interface AsciiImagePixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+// Fractions cut from each side before sampling; a photo's contentInsets fit here
+export interface ImageCropInsets {
+  top?: number;
+  right?: number;
+  bottom?: number;
+  left?: number;
+}
+
+export type ImageDither = 'none' | 'floyd-steinberg' | 'ordered';
+
+export interface ImageToAsciiOptions {
+  columns: number;
+  rows?: number; // Derived from the image and cell aspect when omitted
+  ramp?: CharacterRampSpec; // Densest character first (default 'classic')
+  cellAspect?: number; // Cell height / width (default CHAR_HEIGHT / CHAR_WIDTH)
+  insets?: ImageCropInsets;
+  edges?: boolean | { threshold?: number }; // Draw strong edges with - / | \ (threshold 0..1, default 0.3)
+  dither?: ImageDither;
+  gamma?: number; // Applied to luminance before mapping to the ramp (default 1)
+  invert?: boolean; // Light subjects on a dark photo
+}
+
+// Transparent pixels count as the white page behind the art
+const BACKGROUND_LUMINANCE = 1;
+const DEFAULT_EDGE_THRESHOLD = 0.3;
+const MAX_INSET = 0.95;
+
+// 4x4 Bayer matrix, scaled to offsets in (-0.5, 0.5)
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map(value => (value + 0.5) / 16 - 0.5);
+
+const clampInset = (value?: number) => (Number.isFinite(value) ? Math.min(MAX_INSET, Math.max(0, value as number)) : 0);
+
+const resolveCrop = (width: number, height: number, insets: ImageCropInsets = {}) => {
+  const left = clampInset(insets.left);
+  const right = Math.min(clampInset(insets.right), MAX_INSET - left);
+  const top = clampInset(insets.top);
+  const bottom = Math.min(clampInset(insets.bottom), MAX_INSET - top);
+  return {
+    x: left * width,
+    y: top * height,
+    width: (1 - left - right) * width,
+    height: (1 - top - bottom) * height
+  };
+};
+
+/**
+ * Average luminance (0 = black, 1 = white) of every cell, composited over
+ * the background so transparent areas stay blank
+ */
+const sampleCellLuminance = (
+  image: AsciiImagePixels,
+  crop: ReturnType<typeof resolveCrop>,
+  columns: number,
+  rows: number
+): Float32Array => {
+  const { width, height, data } = image;
+  const cellWidth = crop.width / columns;
+  const cellHeight = crop.height / rows;
+  const luminance = new Float32Array(columns * rows);
+
+  for (let row = 0; row < rows; row++) {
+    const y0 = Math.min(height - 1, Math.floor(crop.y + row * cellHeight));
+    const y1 = Math.min(height, Math.max(y0 + 1, Math.floor(crop.y + (row + 1) * cellHeight)));
+    for (let column = 0; column < columns; column++) {
+      const x0 = Math.min(width - 1, Math.floor(crop.x + column * cellWidth));
+      const x1 = Math.min(width, Math.max(x0 + 1, Math.floor(crop.x + (column + 1) * cellWidth)));
+      let total = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const offset = (y * width + x) * 4;
+          const alpha = data[offset + 3] / 255;
+          const value = (0.2126 * data[offset] + 0.7152 * data[offset + 1] + 0.0722 * data[offset + 2]) / 255;
+          total += value * alpha + BACKGROUND_LUMINANCE * (1 - alpha);
+        }
+      }
+      luminance[row * columns + column] = total / ((x1 - x0) * (y1 - y0));
+    }
+  }
+  return luminance;
+};
+
+/**
+ * Sobel edges on the cell grid: a line character along the edge for cells
+ * whose gradient is at least `threshold`, otherwise null
+ */
+const detectEdges = (luminance: Float32Array, columns: number, rows: number, threshold: number) => {
+  const at = (column: number, row: number) =>
+    luminance[Math.min(rows - 1, Math.max(0, row)) * columns + Math.min(columns - 1, Math.max(0, column))];
+  const edges: Array<string | null> = new Array(columns * rows).fill(null);
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const gx = (at(column + 1, row - 1) + 2 * at(column + 1, row) + at(column + 1, row + 1))
+        - (at(column - 1, row - 1) + 2 * at(column - 1, row) + at(column - 1, row + 1));
+      const gy = (at(column - 1, row + 1) + 2 * at(column, row + 1) + at(column + 1, row + 1))
+        - (at(column - 1, row - 1) + 2 * at(column, row - 1) + at(column + 1, row - 1));
+      // Sobel peaks at 4 for a black/white step
+      if (Math.hypot(gx, gy) / 4 < threshold) continue;
+
+      // The edge runs across the gradient; fold its angle into [0, 180)
+      const angle = ((Math.atan2(gy, gx) * 180) / Math.PI + 90 + 180) % 180;
+      if (angle < 22.5 || angle >= 157.5) edges[row * columns + column] = '-';
+      else if (angle < 67.5) edges[row * columns + column] = '\\';
+      else if (angle < 112.5) edges[row * columns + column] = '|';
+      else edges[row * columns + column] = '/';
+    }
+  }
+  return edges;
+};
+
+/**
+ * Convert an image to ASCII art lines joined by '\n', ready for
+ * `preRenderedAscii`. Dark pixels map to the dense end of the ramp.
+ */
+export const imageToAscii = (image: AsciiImagePixels, options: ImageToAsciiOptions): string => {
+  const columns = Math.floor(options.columns);
+  if (!(columns > 0)) {
+    throw new Error(`Image to ASCII needs a positive column count, got ${options.columns}`);
+  }
+  if (image.width <= 0 || image.height <= 0 || image.data.length < image.width * image.height * 4) {
+    throw new Error(`Image to ASCII needs RGBA pixels for a ${image.width}x${image.height} image`);
+  }
+
+  const { chars } = resolveCharacterRamp(options.ramp);
+  const crop = resolveCrop(image.width, image.height, options.insets);
+  const cellAspect = options.cellAspect ?? CHAR_HEIGHT / CHAR_WIDTH;
+  const rows = Math.max(1, Math.floor(options.rows ?? Math.round((crop.height / crop.width) * columns / cellAspect)));
+  const gamma = options.gamma ?? 1;
+  const dither = options.dither ?? 'none';
+
+  const luminance = sampleCellLuminance(image, crop, columns, rows);
+  for (let index = 0; index < luminance.length; index++) {
+    const value = Math.pow(luminance[index], gamma);
+    luminance[index] = options.invert ? 1 - value : value;
+  }
+
+  const edgeThreshold = typeof options.edges === 'object' ? options.edges.threshold ?? DEFAULT_EDGE_THRESHOLD : DEFAULT_EDGE_THRESHOLD;
+  const edges = options.edges ? detectEdges(luminance, columns, rows, edgeThreshold) : null;
+
+  const levels = chars.length - 1;
+  const lines: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    let line = '';
+    for (let column = 0; column < columns; column++) {
+      const index = row * columns + column;
+      let value = luminance[index];
+      if (dither === 'ordered') {
+        value += BAYER_4X4[(row % 4) * 4 + (column % 4)] / Math.max(1, levels);
+      }
+      const level = Math.min(levels, Math.max(0, Math.round(value * levels)));
+
+      if (dither === 'floyd-steinberg' && levels > 0) {
+        const error = value - level / levels;
+        if (column + 1 < columns) luminance[index + 1] += (error * 7) / 16;
+        if (row + 1 < rows) {
+          if (column > 0) luminance[index + columns - 1] += (error * 3) / 16;
+          luminance[index + columns] += (error * 5) / 16;
+          if (column + 1 < columns) luminance[index + columns + 1] += error / 16;
+        }
+      }
+
+      line += edges?.[index] ?? chars[level];
+    }
+    lines.push(line.trimEnd());
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Browser-only: decode an image URL into RGBA pixels through a canvas,
+ * optionally downscaled so its longer side is at most `maxDimension`
+ */
+export const loadImagePixels = async (url: string, maxDimension = 1600): Promise<AsciiImagePixels> => {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.src = url;
+  await image.decode();
+
+  const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D is not available to read image pixels');
+  }
+  context.drawImage(image, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+};
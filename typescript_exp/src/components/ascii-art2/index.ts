@@ -2,4 +2,18 @@ import AsciiArtGenerator from './AsciiArtGenerator';
 
 export default AsciiArtGenerator;
 export * from './types';
+export { registerAsciiFont, isAsciiFontRegistered, listAsciiFonts } from './fontRegistry';
+export type { AsciiFontDefinition, AsciiFontOverlap } from './fontRegistry';
+export { registerAsciiArt, isAsciiArtRegistered, listAsciiArt } from './artRegistry';
+export { imageToAscii, loadImagePixels } from './imageToAscii';
+export { matchTextBreakpoints, resolveResponsiveTextContent, NARROW_BREAKPOINT_PX } from './responsive';
+export type { AsciiImagePixels, ImageCropInsets, ImageDither, ImageToAsciiOptions } from './imageToAscii';
+export {
+  captureLayoutSnapshot,
+  diffLayoutSnapshots,
+  formatLayoutDeltas,
+  serializeLayoutSnapshots,
+  LAYOUT_SNAPSHOT_VIEWPORTS
+} from './layoutSnapshot';
+export type { LayoutDelta, LayoutSnapshot, LayoutSnapshotItem } from './layoutSnapshot';
 export * from './hooks'; 
\ No newline at end of file
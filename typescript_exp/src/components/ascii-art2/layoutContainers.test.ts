@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { buildTextPositionCache } from './hooks/useTextPositioning/buildTextPositionCache';
+import { flattenLayoutContainers } from './hooks/useTextPositioning/layoutContainers';
+import { BLOB_PADDING } from './constants';
+import { TextContentItem } from './types';
+
+const text = (value: string, extra: Partial<TextContentItem> = {}): TextContentItem => ({ text: value, x: 0, y: 0, ...extra });
+
+const render = (textContent: TextContentItem[], cols = 40, rows = 12) => {
+  const cache = buildTextPositionCache(textContent, cols, rows);
+  return Array.from({ length: rows }, (_, y) => cache.grid
+    .slice((y - cache.offsetY) * cache.gridCols, (y - cache.offsetY) * cache.gridCols + cols)
+    .map(cell => cell?.char ?? ' ')
+    .join('')
+    .trimEnd());
+};
+
+describe('layout containers', () => {
+  it('stacks children with a gap and aligns them across the stack', () => {
+    const list: TextContentItem = {
+      name: 'works',
+      text: '',
+      x: 2,
+      y: 1,
+      usePercentPosition: false,
+      layout: { type: 'stack', align: 'center' },
+      children: [text('alpha'), text('be', { name: 'second' }), text('gamma delta')]
+    };
+    expect(render([list]).slice(0, 6)).toEqual(['', '     alpha', '', '      be', '', '  gamma delta']);
+    expect(flattenLayoutContainers([list]).map(item => item.name)).toEqual(['works', 'works.0', 'second', 'works.2']);
+  });
+
+  it('centers grids and nests containers; other items anchor to the container box', () => {
+    const textContent: TextContentItem[] = [
+      {
+        name: 'grid',
+        text: '',
+        x: 0,
+        y: 1,
+        usePercentPosition: false,
+        centered: true,
+        layout: { type: 'grid', columns: 2, columnGap: 3 },
+        children: [
+          text('one'),
+          text('twotwo'),
+          { text: '', x: 0, y: 0, layout: { type: 'stack', gap: 0 }, children: [text('ab'), text('cd')] },
+          text('f')
+        ]
+      },
+      text('after', { anchorTo: 'grid', anchorPoint: 'bottomLeft' })
+    ];
+    expect(render(textContent).slice(0, 5)).toEqual(['', '              one   twotwo', '', '              ab    f', '              cd']);
+    const { bounds } = buildTextPositionCache(textContent, 40, 12);
+    expect(bounds['after-0-0'].minY + BLOB_PADDING).toBe(bounds['grid-'].maxY);
+    expect(bounds['grid-'].minX).toBe(14 - BLOB_PADDING);
+  });
+
+  it('wraps rows past the container width and aligns each line', () => {
+    const rows = render([
+      {
+        text: '',
+        x: 1,
+        y: 1,
+        usePercentPosition: false,
+        maxWidthPercent: 50,
+        layout: { type: 'row', wrap: true, gap: 2, rowGap: 1, align: 'end' },
+        children: [text('aaa'), text('bbbb'), text('cc\ncc'), text('dddddd'), text('e')]
+      }
+    ]);
+    expect(rows.slice(0, 6)).toEqual(['', '            cc', '', ' aaa  bbbb  cc', '', ' dddddd  e']);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildTextPositionCache } from './hooks/useTextPositioning/buildTextPositionCache';
+import {
+  buildInspectorBoxes,
+  findInspectedBox,
+  getInspectorPhotoRects,
+  isLayoutInspectorOpen,
+  isLayoutInspectorRequested,
+  publishInspectorPhotoRects,
+  setLayoutInspectorOpen,
+  subscribeToLayoutInspector
+} from './layoutInspector';
+import { BLOB_PADDING } from './constants';
+
+const metrics = { charWidth: 6, charHeight: 10 };
+
+describe('layout inspector', () => {
+  afterEach(() => {
+    setLayoutInspectorOpen(null);
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('opens from ?debug=layout, in the query or the hash route, and toggles with Alt+Shift+L', () => {
+    expect(isLayoutInspectorRequested({ search: '?debug=layout', hash: '' })).toBe(true);
+    expect(isLayoutInspectorRequested({ search: '', hash: '#/fish?photo=1&debug=links,layout' })).toBe(true);
+    expect(isLayoutInspectorRequested({ search: '?debug=links', hash: '#/fish' })).toBe(false);
+
+    const listener = vi.fn();
+    const unsubscribe = subscribeToLayoutInspector(listener);
+    expect(isLayoutInspectorOpen()).toBe(false);
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyL', altKey: true, shiftKey: true }));
+    expect(isLayoutInspectorOpen()).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    publishInspectorPhotoRects('layer', [{ id: 'fish', anchorName: 'title', fixed: false, left: 0, top: 0, width: 10, height: 10 }]);
+    expect(getInspectorPhotoRects().map(rect => rect.id)).toEqual(['fish']);
+    publishInspectorPhotoRects('layer', null);
+    expect(getInspectorPhotoRects()).toEqual([]);
+
+    unsubscribe();
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyL', altKey: true, shiftKey: true }));
+    expect(isLayoutInspectorOpen()).toBe(true);
+  });
+
+  it('places raw and padded bounds and anchors in scrolled viewport pixels', () => {
+    const result = buildTextPositionCache([
+      { name: 'title', text: 'Title', x: 2, y: 3, usePercentPosition: false },
+      { name: 'caption', text: 'cap', x: 0, y: 0, anchorTo: 'title', anchorPoint: 'bottomLeft' },
+      { name: 'badge', text: 'hi', x: 2, y: 3, usePercentPosition: false, fixed: true }
+    ], 40, 12);
+    const boxes = buildInspectorBoxes(result, 2, metrics);
+    const title = boxes.find(box => box.label === 'title')!;
+    const caption = boxes.find(box => box.label === 'caption')!;
+    const badge = boxes.find(box => box.label === 'badge')!;
+
+    expect(title.raw).toEqual({ left: 12, top: 10, width: 30, height: 10 });
+    expect(title.padded).toEqual({
+      left: (2 - BLOB_PADDING) * 6,
+      top: (3 - BLOB_PADDING - 2) * 10,
+      width: (5 + 2 * BLOB_PADDING) * 6,
+      height: (1 + 2 * BLOB_PADDING) * 10
+    });
+    // Anchored to the bottom-left of the title's padded bounds
+    expect(caption.anchor).toEqual({
+      name: 'title',
+      point: { x: (2 - BLOB_PADDING) * 6, y: (3 + BLOB_PADDING - 2) * 10 },
+      item: { x: caption.raw!.left, y: caption.raw!.top }
+    });
+    // Fixed items ignore scrolling
+    expect(badge.raw).toEqual({ left: 12, top: 30, width: 12, height: 10 });
+
+    expect(findInspectedBox(boxes, 20, 15)).toBe(title);
+    expect(findInspectedBox(boxes, 14, 35)).toBe(badge);
+    expect(findInspectedBox(boxes, 120, 60)?.label).toBe('title');
+  });
+});
@@ -0,0 +1,219 @@
+import { getAnchorPoint, getTextItemKey } from './hooks/useTextPositioning/positioning';
+import { getLinkHitRect } from './hooks/useLinks';
+import { LinkPosition, OverlapNudge, TextContentItem, TextPositionCacheResult } from './types';
+
+/**
+ * Layout inspector: an overlay on the live page showing every item's raw and
+ * padded bounds, its name, what it is anchored to, the link hit rectangles
+ * and the photo rects of a photorealistic layer. Open it with `?debug=layout`
+ * (in the query or in the hash route's query) or toggle it with Alt+Shift+L.
+ */
+
+// In pixels from the top-left of the page's viewport
+export interface InspectorRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface InspectorPhotoRect extends InspectorRect {
+  id: string;
+  anchorName: string;
+  fixed: boolean; // Fixed rects ignore scrolling, the rest scroll by the page's pixel offset
+}
+
+export interface InspectorBox {
+  key: string;
+  label: string;
+  item: TextContentItem; // As laid out, after responsive overrides and container expansion
+  fixed: boolean;
+  padded: InspectorRect;
+  raw: InspectorRect | null; // Drawn characters; containers have none
+  anchor?: { name: string; point: { x: number; y: number }; item: { x: number; y: number } };
+  nudge?: OverlapNudge;
+}
+
+export interface InspectorLinkRect extends InspectorRect {
+  url: string;
+  textKey: string;
+}
+
+interface CharMetrics {
+  charWidth: number;
+  charHeight: number;
+}
+
+/**
+ * `debug=layout` in the page query or the hash route's query; `debug` may
+ * list several tools, e.g. `?debug=layout,links`
+ */
+export const isLayoutInspectorRequested = ({ search, hash }: { search: string; hash: string }) => {
+  const hashQuery = hash.includes('?') ? hash.slice(hash.indexOf('?')) : '';
+  return [search, hashQuery].some(query =>
+    new URLSearchParams(query).getAll('debug').some(value => value.split(',').includes('layout')));
+};
+
+export const isLayoutInspectorHotkey = (event: Pick<KeyboardEvent, 'altKey' | 'shiftKey' | 'ctrlKey' | 'metaKey' | 'code'>) =>
+  event.altKey && event.shiftKey && !event.ctrlKey && !event.metaKey && event.code === 'KeyL';
+
+// The hotkey's choice, or null to follow the URL
+let toggledOpen: boolean | null = null;
+let photoRectsBySource = new Map<string, InspectorPhotoRect[]>();
+let photoRects: InspectorPhotoRect[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const isLayoutInspectorOpen = () => {
+  if (toggledOpen !== null) {
+    return toggledOpen;
+  }
+  return typeof window !== 'undefined' && isLayoutInspectorRequested(window.location);
+};
+
+export const setLayoutInspectorOpen = (open: boolean | null) => {
+  toggledOpen = open;
+  notify();
+};
+
+const handleKeyDown = (event: KeyboardEvent) => {
+  const target = event.target as HTMLElement | null;
+  if (!isLayoutInspectorHotkey(event) || target?.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target?.tagName ?? '')) {
+    return;
+  }
+  event.preventDefault();
+  setLayoutInspectorOpen(!isLayoutInspectorOpen());
+};
+
+// One set of window listeners however many components are watching
+export const subscribeToLayoutInspector = (listener: () => void) => {
+  if (typeof window === 'undefined') {
+    return () => {};
+  }
+  if (!listeners.size) {
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('hashchange', notify);
+    window.addEventListener('popstate', notify);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size) {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('hashchange', notify);
+      window.removeEventListener('popstate', notify);
+    }
+  };
+};
+
+/**
+ * Photo layers report their rects under their own id; null removes them
+ */
+export const publishInspectorPhotoRects = (source: string, rects: InspectorPhotoRect[] | null) => {
+  photoRectsBySource = new Map(photoRectsBySource);
+  if (rects) {
+    photoRectsBySource.set(source, rects);
+  } else {
+    photoRectsBySource.delete(source);
+  }
+  photoRects = Array.from(photoRectsBySource.values()).flat();
+  notify();
+};
+
+export const getInspectorPhotoRects = () => photoRects;
+
+/**
+ * Everything the overlay draws for one layout, in viewport pixels. Scrolling
+ * items move up by `scrolledRows`, as the text grid does.
+ */
+export const buildInspectorBoxes = (
+  result: Pick<TextPositionCacheResult, 'items' | 'bounds' | 'cache' | 'overlapNudges'>,
+  scrolledRows: number,
+  { charWidth, charHeight }: CharMetrics
+): InspectorBox[] => {
+  const items = result.items ?? [];
+  const keyOf = (item: TextContentItem) => getTextItemKey(item.name, item.text, item.x, item.y);
+  // Later items win a name, as they do in layout
+  const byName = new Map(items.flatMap(item => (item.name ? [[item.name, item] as const] : [])));
+  const toPixels = (x: number, y: number, fixed: boolean) => ({
+    x: x * charWidth,
+    y: (y - (fixed ? 0 : scrolledRows)) * charHeight
+  });
+  const toRect = (minX: number, maxX: number, minY: number, maxY: number, fixed: boolean): InspectorRect => {
+    const { x, y } = toPixels(minX, minY, fixed);
+    return { left: x, top: y, width: (maxX - minX + 1) * charWidth, height: (maxY - minY + 1) * charHeight };
+  };
+
+  return items.flatMap(item => {
+    const key = keyOf(item);
+    const bounds = result.bounds[key];
+    if (!bounds || !Number.isFinite(bounds.minX)) {
+      return [];
+    }
+    const cells = result.cache[key] ?? [];
+    const raw = cells.length
+      ? toRect(
+        Math.min(...cells.map(cell => cell.startX)),
+        Math.max(...cells.map(cell => cell.endX)),
+        Math.min(...cells.map(cell => cell.y)),
+        Math.max(...cells.map(cell => cell.y)),
+        bounds.fixed
+      )
+      : null;
+    const padded = toRect(bounds.minX, bounds.maxX, bounds.minY, bounds.maxY, bounds.fixed);
+
+    const anchorItem = item.anchorTo ? byName.get(item.anchorTo) : undefined;
+    const anchorBounds = anchorItem ? result.bounds[keyOf(anchorItem)] : undefined;
+    const anchor = item.anchorTo && anchorBounds
+      ? (() => {
+        const point = getAnchorPoint(anchorBounds, item.anchorPoint);
+        const start = raw ?? padded;
+        return {
+          name: item.anchorTo,
+          point: toPixels(point.x, point.y, anchorBounds.fixed),
+          item: { x: start.left, y: start.top }
+        };
+      })()
+      : undefined;
+
+    return [{
+      key,
+      label: item.name ?? key,
+      item,
+      fixed: bounds.fixed,
+      padded,
+      raw,
+      anchor,
+      nudge: result.overlapNudges?.[key]
+    }];
+  });
+};
+
+export const buildInspectorLinkRects = (
+  links: LinkPosition[],
+  bounds: TextPositionCacheResult['bounds'],
+  scrolledRows: number
+): InspectorLinkRect[] =>
+  links.map(link => ({
+    ...getLinkHitRect(link, bounds[link.textKey]?.fixed || false, scrolledRows),
+    url: link.url,
+    textKey: link.textKey
+  }));
+
+/**
+ * The box under a viewport point: the smallest drawn area holding it, or
+ * failing that the smallest padded one
+ */
+export const findInspectedBox = (boxes: InspectorBox[], x: number, y: number) => {
+  const contains = (rect: InspectorRect) =>
+    x >= rect.left && x < rect.left + rect.width && y >= rect.top && y < rect.top + rect.height;
+  const area = (rect: InspectorRect) => rect.width * rect.height;
+  const smallest = (rectOf: (box: InspectorBox) => InspectorRect | null) =>
+    boxes.reduce<InspectorBox | null>((found, box) => {
+      const rect = rectOf(box);
+      if (!rect || !contains(rect)) return found;
+      return !found || area(rect) < area(rectOf(found)!) ? box : found;
+    }, null);
+  return smallest(box => box.raw) ?? smallest(box => box.padded);
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { BLOB_PADDING } from './constants';
+import {
+  captureLayoutSnapshot,
+  diffLayoutSnapshots,
+  formatLayoutDeltas,
+  LayoutSnapshot,
+  serializeLayoutSnapshots
+} from './layoutSnapshot';
+import { TextContentItem } from './types';
+
+const textContent: TextContentItem[] = [
+  { name: 'title', text: 'Title', x: 4, y: 2, usePercentPosition: false, responsive: { narrow: { x: 1 } } },
+  { text: 'plain', x: 4, y: 6, usePercentPosition: false },
+  { name: 'caption', text: 'cap', x: 0, y: 0, anchorTo: 'title', anchorPoint: 'bottomLeft' }
+];
+
+describe('layout snapshots', () => {
+  it('records every item by name for the viewport and serializes in a stable order', () => {
+    const wide = captureLayoutSnapshot(textContent, { width: 1000, height: 600 });
+    const narrow = captureLayoutSnapshot(textContent, { width: 600, height: 900 });
+
+    expect(Object.keys(wide.items)).toEqual(['title', 'item-1', 'caption']);
+    expect(wide.items.title).toEqual({
+      raw: { minX: 4, maxX: 8, minY: 2, maxY: 2 },
+      padded: { minX: 4 - BLOB_PADDING, maxX: 8 + BLOB_PADDING, minY: 2 - BLOB_PADDING, maxY: 2 + BLOB_PADDING },
+      fixed: false
+    });
+    expect(wide.items.caption).toEqual(expect.objectContaining({ anchorTo: 'title' }));
+    expect(wide.items.caption.raw?.minY).toBe(2 + BLOB_PADDING);
+    // Responsive overrides apply before layout
+    expect(narrow.items.title.raw?.minX).toBe(1);
+
+    const reordered: LayoutSnapshot = {
+      items: Object.fromEntries(Object.entries(wide.items).reverse()),
+      grid: wide.grid,
+      viewport: wide.viewport
+    };
+    expect(serializeLayoutSnapshots({ wide })).toBe(serializeLayoutSnapshots({ wide: reordered }));
+  });
+
+  it('reports per-item deltas between two snapshots', () => {
+    const expected = captureLayoutSnapshot(textContent, { width: 1000, height: 600 });
+    const actual = captureLayoutSnapshot(
+      [
+        { ...textContent[0], text: 'Title\nsecond line' },
+        { ...textContent[2], anchorTo: undefined },
+        { name: 'extra', text: 'new', x: 20, y: 20, usePercentPosition: false }
+      ],
+      { width: 1000, height: 600 }
+    );
+
+    expect(diffLayoutSnapshots(expected, expected)).toEqual([]);
+    expect(formatLayoutDeltas('1000x600', diffLayoutSnapshots(expected, actual))).toBe([
+      '1000x600:',
+      '  caption reanchored: title → (none)',
+      // It was anchored on the title's padded bottom-left corner
+      `  caption moved: raw minX +${BLOB_PADDING - 4} (${4 - BLOB_PADDING} → 0), maxX +${BLOB_PADDING - 4} (${6 - BLOB_PADDING} → 2), `
+        + `minY -${2 + BLOB_PADDING} (${2 + BLOB_PADDING} → 0), maxY -${2 + BLOB_PADDING} (${2 + BLOB_PADDING} → 0)`,
+      '  extra added',
+      '  item-1 removed',
+      '  title moved: raw maxX +6 (8 → 14), maxY +2 (2 → 4)'
+    ].join('\n'));
+  });
+});
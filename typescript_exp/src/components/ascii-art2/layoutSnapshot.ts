@@ -0,0 +1,201 @@
+import { updateCharMetricsForViewport } from './constants';
+import { getGridDimensions } from './utils';
+import { buildTextPositionCache } from './hooks/useTextPositioning/buildTextPositionCache';
+import { getTextItemKey } from './hooks/useTextPositioning/positioning';
+import { resolveResponsiveTextContent, ViewportSize } from './responsive';
+import { OverlapNudge, TextBounds, TextContentItem, TextPositionCacheResult } from './types';
+
+/**
+ * Layout snapshots: where every item lands for a viewport, as plain JSON that
+ * can be stored as a fixture and compared later. A copy edit or a layout
+ * change then shows up as per-item deltas ("text moved: raw maxY +4 (52 → 56)")
+ * instead of a screenshot to squint at.
+ */
+
+type Edges = Omit<TextBounds, 'fixed'>;
+
+export interface LayoutSnapshotItem {
+  raw: Edges | null; // Drawn characters; containers and empty items have none
+  padded: Edges;
+  fixed: boolean;
+  anchorTo?: string;
+  nudge?: OverlapNudge;
+}
+
+export interface LayoutSnapshot {
+  viewport: ViewportSize;
+  grid: { cols: number; rows: number };
+  items: Record<string, LayoutSnapshotItem>; // By name; unnamed items as `item-<index>`
+}
+
+export interface LayoutDelta {
+  item: string;
+  change: 'added' | 'removed' | 'moved' | 'reanchored' | 'grid';
+  details: string[];
+}
+
+const EDGES = ['minX', 'maxX', 'minY', 'maxY'] as const;
+
+const edgesOf = (bounds: Edges): Edges => ({
+  minX: bounds.minX,
+  maxX: bounds.maxX,
+  minY: bounds.minY,
+  maxY: bounds.maxY
+});
+
+const rawBoundsOf = (cells: TextPositionCacheResult['cache'][string] | undefined): Edges | null => {
+  if (!cells?.length) {
+    return null;
+  }
+  const bounds = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity };
+  for (const cell of cells) {
+    bounds.minX = Math.min(bounds.minX, cell.startX);
+    bounds.maxX = Math.max(bounds.maxX, cell.endX);
+    bounds.minY = Math.min(bounds.minY, cell.y);
+    bounds.maxY = Math.max(bounds.maxY, cell.y);
+  }
+  return bounds;
+};
+
+/**
+ * Padded bounds of named items, as AsciiArtGenerator reports them through onLayoutChange
+ */
+export const collectNamedBounds = (
+  items: TextContentItem[],
+  result: Pick<TextPositionCacheResult, 'bounds'>
+): Record<string, TextBounds> => {
+  const named: Record<string, TextBounds> = {};
+  items.forEach(item => {
+    const bounds = item.name ? result.bounds[getTextItemKey(item.name, item.text, item.x, item.y)] : undefined;
+    if (item.name && bounds) {
+      named[item.name] = bounds;
+    }
+  });
+  return named;
+};
+
+/**
+ * Bounds of the drawn characters of named items
+ */
+export const collectNamedRawBounds = (
+  items: TextContentItem[],
+  result: Pick<TextPositionCacheResult, 'bounds' | 'cache'>
+): Record<string, TextBounds> => {
+  const named: Record<string, TextBounds> = {};
+  items.forEach(item => {
+    if (!item.name) return;
+    const key = getTextItemKey(item.name, item.text, item.x, item.y);
+    const raw = rawBoundsOf(result.cache[key]);
+    if (raw) {
+      named[item.name] = { ...raw, fixed: result.bounds[key]?.fixed ?? false };
+    }
+  });
+  return named;
+};
+
+/**
+ * Lay out `textContent` for a viewport the way AsciiArtGenerator does
+ * (character metrics for the width, responsive overrides, then the grid that
+ * fits) and record every item
+ */
+export const captureLayoutSnapshot = (textContent: TextContentItem[], viewport: ViewportSize): LayoutSnapshot => {
+  updateCharMetricsForViewport(viewport.width);
+  const { cols, rows } = getGridDimensions(viewport.width, viewport.height);
+  const result = buildTextPositionCache(resolveResponsiveTextContent(textContent, viewport), cols, rows);
+  const items: Record<string, LayoutSnapshotItem> = {};
+  (result.items ?? []).forEach((item, index) => {
+    const key = getTextItemKey(item.name, item.text, item.x, item.y);
+    const bounds = result.bounds[key];
+    if (!bounds || !Number.isFinite(bounds.minX)) {
+      return;
+    }
+    items[item.name ?? `item-${index}`] = {
+      raw: rawBoundsOf(result.cache[key]),
+      padded: edgesOf(bounds),
+      fixed: bounds.fixed,
+      ...(item.anchorTo ? { anchorTo: item.anchorTo } : {}),
+      ...(result.overlapNudges?.[key] ? { nudge: result.overlapNudges[key] } : {})
+    };
+  });
+  return { viewport, grid: { cols, rows }, items };
+};
+
+// Stable key order so fixtures only change where the layout did
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])]));
+  }
+  return value;
+};
+
+export const serializeLayoutSnapshots = (snapshots: Record<string, LayoutSnapshot>) =>
+  `${JSON.stringify(sortKeys(snapshots), null, 2)}\n`;
+
+export const viewportLabel = ({ width, height }: ViewportSize) => `${width}x${height}`;
+
+// Wide desktop, small laptop, tablet portrait, phone
+export const LAYOUT_SNAPSHOT_VIEWPORTS: ViewportSize[] = [
+  { width: 1440, height: 900 },
+  { width: 1024, height: 768 },
+  { width: 768, height: 1024 },
+  { width: 390, height: 844 }
+];
+
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+const edgeChanges = (label: string, before: Edges | null, after: Edges | null) => {
+  if (!before || !after) {
+    return before === after ? [] : [`${label} ${before ? 'cleared' : 'appeared'}`];
+  }
+  const changed = EDGES.filter(edge => before[edge] !== after[edge]);
+  return changed.length
+    ? [`${label} ${changed.map(edge => `${edge} ${signed(after[edge] - before[edge])} (${before[edge]} → ${after[edge]})`).join(', ')}`]
+    : [];
+};
+
+/**
+ * What changed from `expected` to `actual`, item by item
+ */
+export const diffLayoutSnapshots = (expected: LayoutSnapshot, actual: LayoutSnapshot): LayoutDelta[] => {
+  const deltas: LayoutDelta[] = [];
+  if (expected.grid.cols !== actual.grid.cols || expected.grid.rows !== actual.grid.rows) {
+    deltas.push({
+      item: '(grid)',
+      change: 'grid',
+      details: [`${expected.grid.cols}x${expected.grid.rows} → ${actual.grid.cols}x${actual.grid.rows}`]
+    });
+  }
+
+  const names = Array.from(new Set([...Object.keys(expected.items), ...Object.keys(actual.items)])).sort();
+  for (const name of names) {
+    const before = expected.items[name];
+    const after = actual.items[name];
+    if (!after) {
+      deltas.push({ item: name, change: 'removed', details: [] });
+      continue;
+    }
+    if (!before) {
+      deltas.push({ item: name, change: 'added', details: [] });
+      continue;
+    }
+    if (before.anchorTo !== after.anchorTo) {
+      deltas.push({ item: name, change: 'reanchored', details: [`${before.anchorTo ?? '(none)'} → ${after.anchorTo ?? '(none)'}`] });
+    }
+    const details = [
+      ...edgeChanges('raw', before.raw, after.raw),
+      // Padding follows the characters; it only tells something for containers
+      ...(before.raw || after.raw ? [] : edgeChanges('padded', before.padded, after.padded)),
+      ...(before.fixed !== after.fixed ? [`fixed ${before.fixed} → ${after.fixed}`] : [])
+    ];
+    if (details.length) {
+      deltas.push({ item: name, change: 'moved', details });
+    }
+  }
+  return deltas;
+};
+
+export const formatLayoutDeltas = (label: string, deltas: LayoutDelta[]) =>
+  [`${label}:`, ...deltas.map(delta => `  ${delta.item} ${delta.change}${delta.details.length ? `: ${delta.details.join('; ')}` : ''}`)].join('\n');
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { parseTextBlocks } from './markdownBlocks';
+import { renderAsciiArt, renderFormattedText } from './ASCII_text_renderer';
+
+describe('block markup in regular text', () => {
+  it('splits text into headings, lists, quotes, rules and preformatted blocks', () => {
+    expect(parseTextBlocks([
+      '# Title',
+      'Plain paragraph',
+      '- one',
+      '  continued',
+      '- two',
+      '1. first',
+      '> quoted',
+      '---',
+      '```',
+      'a == b',
+      '```'
+    ].join('\n'))).toEqual([
+      { type: 'heading', level: 1, text: 'Title' },
+      { type: 'paragraph', text: 'Plain paragraph' },
+      { type: 'list', ordered: false, items: [{ marker: '-', text: 'one continued' }, { marker: '-', text: 'two' }] },
+      { type: 'list', ordered: true, items: [{ marker: '1.', text: 'first' }] },
+      { type: 'quote', text: 'quoted' },
+      { type: 'rule' },
+      { type: 'preformatted', lines: ['a == b'] }
+    ]);
+  });
+
+  it('wraps list items with a hanging indent and quotes behind a gutter', () => {
+    const { text, styles } = renderFormattedText('- alpha beta ==gamma==\n> delta epsilon', 'regular', { maxWidth: 12 });
+    expect(text.split('\n').filter(Boolean)).toEqual([
+      '- alpha beta',
+      '  gamma',
+      '| delta',
+      '| epsilon'
+    ]);
+    expect(styles).toEqual([expect.objectContaining({ line: 2, start: 2, end: 7, style: expect.objectContaining({ isBold: true }) })]);
+  });
+
+  it('draws level one headings in the heading font and keeps preformatted rows together', () => {
+    const { text } = renderFormattedText('# HI\n```\n[a](b)\n  //c//\n```\n***', 'regular', {
+      maxWidth: 10,
+      headingFont: 'slim'
+    });
+    expect(text.split('\n')).toEqual([
+      ...renderAsciiArt('HI', 'slim'),
+      '',
+      '[a](b)',
+      '  //c//',
+      '',
+      '-'.repeat(10)
+    ]);
+  });
+});
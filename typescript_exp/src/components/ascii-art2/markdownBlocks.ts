@@ -0,0 +1,118 @@
+/**
+ * Block-level structure for regular body text. Every other line stays a
+ * paragraph of its own, exactly as before:
+ * - `# Heading` (deeper levels with ## … ######)
+ * - `- item`, `* item`, `+ item`, `1. item`; indented lines continue an item
+ * - `> quote`
+ * - `---`, `***` or `___` as a horizontal rule
+ * - fenced preformatted text between ``` (or ~~~) lines
+ * - `{{art:name}}` embeds a block from ./artRegistry on its own rows, and
+ *   `{{art:name|left}}` / `{{art:name|right}}` floats it so the following
+ *   paragraphs wrap beside it; embeds inside a paragraph split it in two
+ */
+
+export interface ListItem {
+  marker: string; // As written, e.g. "-" or "3."
+  text: string;
+}
+
+export type TextBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; ordered: boolean; items: ListItem[] }
+  | { type: 'quote'; text: string }
+  | { type: 'rule' }
+  | { type: 'preformatted'; lines: string[] }
+  | { type: 'art'; name: string; float?: 'left' | 'right'; source: string; offset: number }; // The embed as written, at `offset` in the text
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6}) +(.+?)(?: +#+)? *$/;
+const RULE_PATTERN = /^ {0,3}([-*_])( *\1){2,} *$/;
+const LIST_ITEM_PATTERN = /^ {0,3}([-*+]|\d{1,9}[.)]) +(.*)$/;
+const QUOTE_PATTERN = /^ {0,3}> ?(.*)$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+// Escaped braces (\{{art:x}}) stay literal text
+const ART_EMBED_PATTERN = /(?<!\\)\{\{art:([\w-]+)(?:\|(left|right))?\}\}/g;
+
+const pushParagraph = (blocks: TextBlock[], line: string, lineOffset: number) => {
+  let cursor = 0;
+  for (const match of line.matchAll(ART_EMBED_PATTERN)) {
+    const before = line.slice(cursor, match.index).trim();
+    if (before) {
+      blocks.push({ type: 'paragraph', text: before });
+    }
+    const embed = { name: match[1], source: match[0], offset: lineOffset + (match.index ?? 0) };
+    blocks.push(match[2]
+      ? { type: 'art', ...embed, float: match[2] as 'left' | 'right' }
+      : { type: 'art', ...embed });
+    cursor = (match.index ?? 0) + match[0].length;
+  }
+  const rest = cursor ? line.slice(cursor).trim() : line;
+  if (rest || !cursor) {
+    blocks.push({ type: 'paragraph', text: rest });
+  }
+};
+
+export const parseTextBlocks = (text: string): TextBlock[] => {
+  const lines = text.split('\n');
+  const blocks: TextBlock[] = [];
+  let nextOffset = 0;
+  const lineOffsets = lines.map(line => {
+    const offset = nextOffset;
+    nextOffset += line.length + 1;
+    return offset;
+  });
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const preformatted: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) {
+        preformatted.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'preformatted', lines: preformatted });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    const listItem = LIST_ITEM_PATTERN.exec(line);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      const previous = blocks[blocks.length - 1];
+      const item = { marker: listItem[1], text: listItem[2] };
+      // Indented lines that aren't items themselves continue the item
+      while (i + 1 < lines.length && /^\s+\S/.test(lines[i + 1]) && !LIST_ITEM_PATTERN.test(lines[i + 1])) {
+        item.text += ` ${lines[++i].trim()}`;
+      }
+      if (previous?.type === 'list' && previous.ordered === ordered) {
+        previous.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [item] });
+      }
+      continue;
+    }
+
+    const quote = QUOTE_PATTERN.exec(line);
+    if (quote) {
+      blocks.push({ type: 'quote', text: quote[1] });
+      continue;
+    }
+
+    pushParagraph(blocks, line, lineOffsets[i]);
+  }
+
+  return blocks;
+};
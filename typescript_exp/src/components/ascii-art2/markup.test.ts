@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { markupToPlainText, parseMarkup } from './markup';
+import { renderFormattedText } from './ASCII_text_renderer';
+
+describe('text markup', () => {
+  it('nests markers and links into a tree', () => {
+    const { children, warnings } = parseMarkup('==bold //both//== [see &&{accent}this&&](https://a.b/c(1))');
+    expect(warnings).toEqual([]);
+    expect(children).toMatchObject([
+      { type: 'bold', children: [{ type: 'text', value: 'bold ' }, { type: 'italic', children: [{ value: 'both' }] }] },
+      { type: 'text', value: ' ' },
+      {
+        type: 'link',
+        url: 'https://a.b/c(1)',
+        contentRange: [19, 39],
+        children: [{ type: 'text', value: 'see ' }, { type: 'color', color: 'accent', children: [{ value: 'this' }] }]
+      }
+    ]);
+  });
+
+  it('lets the outermost bracket own a link so bracketed labels keep their brackets', () => {
+    const { children } = parseMarkup('[[<<<]](#/)');
+    expect(children).toMatchObject([{ type: 'link', url: '#/', children: [{ type: 'text', value: '[<<<]' }] }]);
+  });
+
+  it('keeps escaped characters and URL slashes literal', () => {
+    const { children, warnings } = parseMarkup('a \\=\\= b, see https://example.com //here//');
+    expect(warnings).toEqual([]);
+    expect(markupToPlainText(children)).toBe('a == b, see https://example.com here');
+    expect(children[1]).toMatchObject({ type: 'italic' });
+  });
+
+  it('recovers unclosed and crossed markers as literal text with warnings', () => {
+    const { children, warnings } = parseMarkup('==a //b== c ^^d');
+    expect(markupToPlainText(children)).toBe('a //b c ^^d');
+    expect(children[0]).toMatchObject({ type: 'bold', children: [{ type: 'text', value: 'a //b' }] });
+    expect(warnings).toEqual([
+      { message: 'Unclosed italic marker "//"', offset: 4 },
+      { message: 'Unclosed inverse marker "^^"', offset: 12 }
+    ]);
+  });
+
+  it('renders nested styles and reports warnings from renderFormattedText', () => {
+    const result = renderFormattedText('==a //b//== [c](u) ++d', 'regular', { maxWidth: 80 });
+    expect(result.text).toBe('a b c ++d');
+    expect(result.styles).toEqual([
+      expect.objectContaining({ start: 0, end: 2, style: expect.objectContaining({ isBold: true }) }),
+      expect.objectContaining({ start: 2, end: 3, style: expect.objectContaining({ isBold: true, isItalic: true }) }),
+      expect.objectContaining({ start: 4, end: 5, style: expect.objectContaining({ isLink: true, url: 'u' }) })
+    ]);
+    expect(result.warnings).toEqual([{ message: 'Unclosed underline marker "++"', offset: 19 }]);
+  });
+
+  it('falls back to the default color for values that are not colors', () => {
+    const { children, warnings } = parseMarkup('&&{red;background:url(x)}a&& &&{"x" onclick="y"}b&& &&{accent}c&&');
+    expect(children.filter(node => node.type === 'color').map(node => (node as { color?: string }).color))
+      .toEqual(['#FF0000', '#FF0000', 'accent']);
+    expect(warnings).toEqual([
+      { message: 'Invalid color "red;background:url(x)", using the default', offset: 0 },
+      { message: 'Invalid color ""x" onclick="y"", using the default', offset: 29 }
+    ]);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Inline markup used by text boxes:
+ * - ==bold==, //italic//, ++underline++, ^^inverse^^
+ * - &&red text&& or &&{accent}colored text&& (palette name or CSS color)
+ * - [link text](url)
+ * Markers nest, a backslash makes the next markup character literal, and
+ * `//` right after a colon (as in https://) is never a marker.
+ */
+
+import { isMarkupColor } from './palette';
+
+export type MarkupStyleKind = 'bold' | 'italic' | 'underline' | 'inverse' | 'color';
+
+export interface MarkupText {
+  type: 'text';
+  value: string;
+}
+
+export interface MarkupElement {
+  type: MarkupStyleKind | 'link';
+  children: MarkupNode[];
+  color?: string; // color elements only
+  url?: string; // link elements only
+  range: [number, number]; // Source offsets including the markers
+  contentRange: [number, number]; // Source offsets of the children
+}
+
+export type MarkupNode = MarkupText | MarkupElement;
+
+export interface MarkupWarning {
+  message: string;
+  offset: number; // Source offset of the offending marker
+}
+
+export interface MarkupDocument {
+  children: MarkupNode[];
+  warnings: MarkupWarning[];
+}
+
+export type MarkupToken =
+  | { type: 'text'; value: string; start: number; end: number }
+  | { type: 'marker'; kind: MarkupStyleKind; color?: string; start: number; end: number }
+  | { type: 'linkOpen'; start: number; end: number }
+  | { type: 'linkClose'; url: string; start: number; end: number };
+
+const TOGGLE_MARKERS: Record<string, MarkupStyleKind> = {
+  '==': 'bold',
+  '//': 'italic',
+  '++': 'underline',
+  '^^': 'inverse',
+  '&&': 'color'
+};
+
+const MARKER_TEXT: Record<MarkupStyleKind, string> = {
+  bold: '==',
+  italic: '//',
+  underline: '++',
+  inverse: '^^',
+  color: '&&'
+};
+
+const ESCAPABLE = '\\=/+^&[](){}';
+
+// Offset just past the ")" that closes a link URL starting at `start`, or -1
+const findUrlEnd = (text: string, start: number) => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '(') {
+      depth++;
+    } else if (text[i] === ')') {
+      if (depth === 0) {
+        return i + 1;
+      }
+      depth--;
+    }
+  }
+  return -1;
+};
+
+export const tokenizeMarkup = (text: string): MarkupToken[] => {
+  const tokens: MarkupToken[] = [];
+  let pending = '';
+  let pendingStart = 0;
+
+  const pushText = (value: string, start: number) => {
+    if (!pending) {
+      pendingStart = start;
+    }
+    pending += value;
+  };
+  const flushText = (end: number) => {
+    if (pending) {
+      tokens.push({ type: 'text', value: pending, start: pendingStart, end });
+      pending = '';
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      pushText(text[i + 1], i);
+      i += 2;
+      continue;
+    }
+
+    const pair = text.slice(i, i + 2);
+    const kind = TOGGLE_MARKERS[pair];
+    if (kind && !(kind === 'italic' && text[i - 1] === ':')) {
+      flushText(i);
+      let end = i + 2;
+      let color: string | undefined;
+      if (kind === 'color' && text[end] === '{') {
+        const close = text.indexOf('}', end);
+        if (close !== -1 && !text.slice(end, close).includes('\n')) {
+          color = text.slice(end + 1, close).trim() || undefined;
+          end = close + 1;
+        }
+      }
+      tokens.push({ type: 'marker', kind, color, start: i, end });
+      i = end;
+      continue;
+    }
+
+    if (char === '[') {
+      flushText(i);
+      tokens.push({ type: 'linkOpen', start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (char === ']' && text[i + 1] === '(') {
+      const end = findUrlEnd(text, i + 2);
+      if (end !== -1) {
+        flushText(i);
+        tokens.push({ type: 'linkClose', url: text.slice(i + 2, end - 1), start: i, end });
+        i = end;
+        continue;
+      }
+    }
+
+    pushText(char, i);
+    i++;
+  }
+
+  flushText(text.length);
+  return tokens;
+};
+
+type Frame = {
+  type: MarkupElement['type'] | 'root';
+  children: MarkupNode[];
+  color?: string;
+  start: number;
+  end: number; // End of the opening marker
+};
+
+const appendText = (children: MarkupNode[], value: string) => {
+  const last = children[children.length - 1];
+  if (last && last.type === 'text') {
+    last.value += value;
+  } else if (value) {
+    children.push({ type: 'text', value });
+  }
+};
+
+const appendNodes = (children: MarkupNode[], nodes: MarkupNode[]) => {
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      appendText(children, node.value);
+    } else {
+      children.push(node);
+    }
+  }
+};
+
+/**
+ * Build the markup tree. Markers left open (or crossed by the close of an
+ * outer marker) are kept as literal text and reported as warnings, so a stray
+ * `==` never swallows the rest of the text.
+ */
+export const parseMarkup = (text: string): MarkupDocument => {
+  const warnings: MarkupWarning[] = [];
+  const stack: Frame[] = [{ type: 'root', children: [], start: 0, end: 0 }];
+  const top = () => stack[stack.length - 1];
+
+  // Pop frames above `depth`, putting their markers back as literal text
+  const unwindTo = (depth: number) => {
+    while (stack.length > depth) {
+      const frame = stack.pop()!;
+      if (frame.type !== 'link' && frame.type !== 'root') {
+        warnings.push({
+          message: `Unclosed ${frame.type} marker "${MARKER_TEXT[frame.type]}"`,
+          offset: frame.start
+        });
+      }
+      appendText(top().children, text.slice(frame.start, frame.end));
+      appendNodes(top().children, frame.children);
+    }
+  };
+
+  const closeFrame = (depth: number, contentEnd: number, end: number, url?: string) => {
+    unwindTo(depth + 1);
+    const frame = stack.pop()!;
+    const element: MarkupElement = {
+      type: frame.type as MarkupElement['type'],
+      children: frame.children,
+      range: [frame.start, end],
+      contentRange: [frame.end, contentEnd]
+    };
+    if (frame.color !== undefined) {
+      element.color = frame.color;
+    }
+    if (url !== undefined) {
+      element.url = url;
+    }
+    top().children.push(element);
+  };
+
+  const findFrame = (type: Frame['type']) => {
+    for (let depth = stack.length - 1; depth > 0; depth--) {
+      if (stack[depth].type === type) {
+        return depth;
+      }
+    }
+    return -1;
+  };
+
+  for (const token of tokenizeMarkup(text)) {
+    if (token.type === 'text') {
+      appendText(top().children, token.value);
+    } else if (token.type === 'marker') {
+      const depth = findFrame(token.kind);
+      if (depth === -1) {
+        // Colors end up in a style attribute, so anything else falls back to the default
+        let color = token.color;
+        if (color !== undefined && !isMarkupColor(color)) {
+          warnings.push({ message: `Invalid color "${color}", using the default`, offset: token.start });
+          color = undefined;
+        }
+        stack.push({
+          type: token.kind,
+          children: [],
+          color: token.kind === 'color' ? color ?? '#FF0000' : undefined,
+          start: token.start,
+          end: token.end
+        });
+        continue;
+      }
+      // A closing && only spans two characters; a trailing {name} stays literal
+      const closeEnd = token.start + 2;
+      closeFrame(depth, token.start, closeEnd);
+      if (token.end > closeEnd) {
+        appendText(top().children, text.slice(closeEnd, token.end));
+      }
+    } else if (token.type === 'linkOpen') {
+      stack.push({ type: 'link', children: [], start: token.start, end: token.end });
+    } else {
+      // Like "[[<<<]](#/)", the outermost open bracket owns the link; inner ones stay literal
+      const depth = stack.findIndex(frame => frame.type === 'link');
+      if (depth === -1) {
+        appendText(top().children, text.slice(token.start, token.end));
+        continue;
+      }
+      closeFrame(depth, token.start, token.end, token.url);
+    }
+  }
+
+  unwindTo(1);
+  warnings.sort((a, b) => a.offset - b.offset);
+  return { children: stack[0].children, warnings };
+};
+
+// The text a reader sees, with every marker removed
+export const markupToPlainText = (nodes: MarkupNode[]): string =>
+  nodes.map(node => (node.type === 'text' ? node.value : markupToPlainText(node.children))).join('');
+
+// Backslash every markup character so the text renders exactly as given
+export const escapeMarkup = (text: string): string =>
+  text.replace(/[\\=/+^&[\](){}]/g, char => `\\${char}`);
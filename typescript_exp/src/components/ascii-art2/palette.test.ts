@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import {
+  COLOR_PALETTES,
+  ColorPaletteName,
+  createBackgroundColorLookup,
+  resolveColorPalette,
+  resolvePaletteColor
+} from './palette';
+import { CHARACTER_RAMP_PRESETS } from './characterRamps';
+import { buildTextPositionCache } from './hooks/useTextPositioning/buildTextPositionCache';
+
+describe('color palettes', () => {
+  it('resolves palette names and passes CSS colors through', () => {
+    const ocean = resolveColorPalette('ocean');
+    expect(resolvePaletteColor(ocean, 'accent')).toBe('#0077b6');
+    expect(resolvePaletteColor(ocean, 'red')).toBe('#FF0000');
+    expect(resolvePaletteColor(ocean, 'rgb(1, 2, 3)')).toBe('rgb(1, 2, 3)');
+    expect(() => resolveColorPalette('nope' as ColorPaletteName)).toThrow('Unknown color palette "nope"');
+  });
+
+  it('falls back to red for anything that is neither a palette name nor a CSS color', () => {
+    const mono = resolveColorPalette('mono');
+    expect(resolvePaletteColor(mono, '#abc')).toBe('#abc');
+    expect(resolvePaletteColor(mono, 'red;background:url(x)')).toBe('#FF0000');
+    expect(resolvePaletteColor(mono, '" onclick="x')).toBe('#FF0000');
+    expect(resolvePaletteColor(mono, 'constructor')).toBe('constructor');
+  });
+
+  it('shades ramp characters from dense to light and skips blanks', () => {
+    const lookup = createBackgroundColorLookup(COLOR_PALETTES.ember, [CHARACTER_RAMP_PRESETS.blocks]);
+    expect(lookup.get('█')).toBe('#370617');
+    expect(lookup.get('░')).toBe('#d00000');
+    expect(lookup.has(' ')).toBe(false);
+    expect(createBackgroundColorLookup(COLOR_PALETTES.mono, [CHARACTER_RAMP_PRESETS.blocks]).size).toBe(0);
+  });
+
+  it('carries markup colors and styles into the text grid', () => {
+    const { grid } = buildTextPositionCache(
+      [{ text: '&&{accent}ab&& ++cd++ ^^ef^^', x: 0, y: 0, usePercentPosition: false }],
+      40,
+      10
+    );
+    const cells = grid.filter(cell => cell !== null);
+
+    expect(cells.map(cell => cell?.char).join('')).toBe('abcdef');
+    expect(cells[0]).toMatchObject({ color: 'accent', isUnderline: false });
+    expect(cells[2]).toMatchObject({ isUnderline: true });
+    expect(cells[2]?.color).toBeUndefined();
+    expect(cells[5]).toMatchObject({ isInverse: true });
+  });
+});
@@ -0,0 +1,108 @@
+import type { CharacterRamp } from './characterRamps';
+
+// Named colors for &&{name}text&& markup plus the shades used for background cells
+export interface ColorPalette {
+  name: string;
+  colors: Record<string, string>;
+  background: string[]; // From the densest ramp character to the lightest; empty leaves the field uncolored
+}
+
+const BASE_COLORS: Record<string, string> = {
+  red: '#FF0000',
+  link: '#3498db',
+  ink: '#000000',
+  paper: '#ffffff'
+};
+
+export const createColorPalette = (
+  name: string,
+  colors: Record<string, string> = {},
+  background: string[] = []
+): ColorPalette => ({
+  name,
+  colors: { ...BASE_COLORS, ...colors },
+  background
+});
+
+export const COLOR_PALETTES = {
+  mono: createColorPalette('mono', { accent: '#3f34db', muted: '#777777' }),
+  ocean: createColorPalette(
+    'ocean',
+    { accent: '#0077b6', muted: '#5c7f99' },
+    ['#03045e', '#023e8a', '#0077b6', '#0096c7', '#48cae4', '#90e0ef']
+  ),
+  ember: createColorPalette(
+    'ember',
+    { accent: '#d62828', muted: '#9c6644' },
+    ['#370617', '#6a040f', '#9d0208', '#d00000', '#e85d04', '#faa307']
+  )
+} satisfies Record<string, ColorPalette>;
+
+export type ColorPaletteName = keyof typeof COLOR_PALETTES;
+export type ColorPaletteSpec = ColorPaletteName | ColorPalette;
+
+export const defaultColorPalette: ColorPalette = COLOR_PALETTES.mono;
+
+export const resolveColorPalette = (spec?: ColorPaletteSpec): ColorPalette => {
+  if (!spec) {
+    return defaultColorPalette;
+  }
+  if (typeof spec !== 'string') {
+    return spec;
+  }
+  const preset = COLOR_PALETTES[spec];
+  if (!preset) {
+    throw new Error(`Unknown color palette "${spec}"`);
+  }
+  return preset;
+};
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTIONAL_COLOR = /^(?:rgba?|hsla?)\([\d\s.,%/+-]*\)$/i;
+const NAMED_COLOR = /^[a-z]+$/i;
+const COLOR_NAME = /^[a-z][\w-]*$/i;
+
+// Whether a value is a CSS color that can go into a style attribute as it is
+export const isCssColor = (value: string): boolean =>
+  typeof CSS !== 'undefined' && typeof CSS.supports === 'function'
+    ? CSS.supports('color', value)
+    : HEX_COLOR.test(value) || FUNCTIONAL_COLOR.test(value) || NAMED_COLOR.test(value);
+
+// Markup is parsed before the palette is known, so any name passes there
+export const isMarkupColor = (value: string): boolean => COLOR_NAME.test(value) || isCssColor(value);
+
+// Palette names win, then CSS colors; anything else gets the default markup red
+export const resolvePaletteColor = (palette: ColorPalette, color: string): string => {
+  if (Object.prototype.hasOwnProperty.call(palette.colors, color)) {
+    return palette.colors[color];
+  }
+  return isCssColor(color) ? color : palette.colors.red ?? BASE_COLORS.red;
+};
+
+/**
+ * Map each ramp character to a background shade by its position in the ramp.
+ * Characters shared by several ramps keep the first ramp's shade; blank
+ * characters are never colored.
+ */
+export const createBackgroundColorLookup = (
+  palette: ColorPalette,
+  ramps: CharacterRamp[]
+): Map<string, string> => {
+  const lookup = new Map<string, string>();
+  const shades = palette.background;
+  if (!shades.length) {
+    return lookup;
+  }
+
+  for (const ramp of ramps) {
+    ramp.chars.forEach((char, index) => {
+      if (char.trim() === '' || lookup.has(char)) {
+        return;
+      }
+      const shade = Math.min(shades.length - 1, Math.floor((index / ramp.chars.length) * shades.length));
+      lookup.set(char, shades[shade]);
+    });
+  }
+
+  return lookup;
+};
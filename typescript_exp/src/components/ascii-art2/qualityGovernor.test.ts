@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createQualityGovernor, QUALITY_LEVELS } from './qualityGovernor';
+
+const top = QUALITY_LEVELS.length - 1;
+
+describe('createQualityGovernor', () => {
+  it('starts at the richest level', () => {
+    const governor = createQualityGovernor();
+    expect(governor.getLevel()).toBe(top);
+    expect(governor.getSettings().fieldStep).toBe(1);
+  });
+
+  it('steps down after sustained slow frames and ignores single spikes', () => {
+    const governor = createQualityGovernor({ targetFrameCost: 8 });
+
+    governor.recordFrame(40);
+    governor.recordFrame(2);
+    governor.recordFrame(2);
+    expect(governor.getLevel()).toBe(top);
+
+    for (let frame = 0; frame < 20 && governor.getLevel() === top; frame++) {
+      governor.recordFrame(30);
+    }
+    expect(governor.getLevel()).toBe(top - 1);
+    expect(governor.getSettings().frameInterval).toBeGreaterThan(QUALITY_LEVELS[top].frameInterval);
+  });
+
+  it('steps back up only after a long run of cheap frames', () => {
+    const governor = createQualityGovernor({ targetFrameCost: 8, initialLevel: 0, upgradeAfter: 30 });
+
+    for (let frame = 0; frame < 20; frame++) {
+      governor.recordFrame(1);
+    }
+    expect(governor.getLevel()).toBe(0);
+
+    for (let frame = 0; frame < 40; frame++) {
+      governor.recordFrame(1);
+    }
+    expect(governor.getLevel()).toBe(1);
+  });
+
+  it('holds a locked level and reports it for debugging', () => {
+    const governor = createQualityGovernor({ targetFrameCost: 8 });
+    governor.lock(1);
+
+    for (let frame = 0; frame < 50; frame++) {
+      governor.recordFrame(100);
+    }
+
+    expect(governor.getDebugInfo()).toMatchObject({ level: 1, name: QUALITY_LEVELS[1].name, locked: true });
+    governor.lock(null);
+    expect(governor.getDebugInfo().locked).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import { BLOB_PADDING_MULTIPLIER, FRAME_DURATION } from './constants';
+
+export interface QualityLevel {
+  name: string;
+  frameInterval: number; // Minimum ms between rendered frames
+  fieldStep: number; // Columns sharing one computed character (1 = every cell)
+  chunkSizeFactor: number; // Rows per render chunk relative to BASE_CHUNK_SIZE
+  maxClickRipples: number; // Newest ripples kept alive at once
+  blobPaddingMultiplier: number; // How far past the viewport blob planes are cached (x BLOB_RADIUS)
+  verticalPadding: number; // Rows rendered above/below the text content
+}
+
+// Ordered from cheapest to richest; the governor moves one step at a time
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { name: 'minimal', frameInterval: FRAME_DURATION * 3, fieldStep: 3, chunkSizeFactor: 3, maxClickRipples: 2, blobPaddingMultiplier: 1.4, verticalPadding: 24 },
+  { name: 'low', frameInterval: FRAME_DURATION * 2, fieldStep: 2, chunkSizeFactor: 2, maxClickRipples: 4, blobPaddingMultiplier: 1.9, verticalPadding: 32 },
+  { name: 'medium', frameInterval: FRAME_DURATION * 1.5, fieldStep: 1, chunkSizeFactor: 1.5, maxClickRipples: 8, blobPaddingMultiplier: 1.9, verticalPadding: 32 },
+  { name: 'high', frameInterval: FRAME_DURATION, fieldStep: 1, chunkSizeFactor: 1, maxClickRipples: Number.POSITIVE_INFINITY, blobPaddingMultiplier: BLOB_PADDING_MULTIPLIER, verticalPadding: 32 }
+];
+
+export type QualityGovernorOptions = {
+  levels?: QualityLevel[];
+  targetFrameCost?: number; // ms of render work per frame the governor tries to stay under
+  initialLevel?: number;
+  downgradeAfter?: number; // Consecutive slow frames before stepping down
+  upgradeAfter?: number; // Consecutive fast frames before stepping up
+};
+
+export interface QualityDebugInfo {
+  level: number;
+  name: string;
+  averageFrameCost: number;
+  targetFrameCost: number;
+  locked: boolean;
+}
+
+export interface QualityGovernor {
+  getLevel: () => number;
+  getSettings: () => QualityLevel;
+  recordFrame: (cost: number) => void;
+  // Pin a level (null resumes adapting); meant for debugging from the console
+  lock: (level: number | null) => void;
+  getDebugInfo: () => QualityDebugInfo;
+}
+
+const COST_SMOOTHING = 0.2;
+const SLOW_FRAME_RATIO = 1.3;
+const FAST_FRAME_RATIO = 0.5;
+
+export const createQualityGovernor = ({
+  levels = QUALITY_LEVELS,
+  targetFrameCost = FRAME_DURATION / 2,
+  initialLevel = levels.length - 1,
+  downgradeAfter = 4,
+  upgradeAfter = 90
+}: QualityGovernorOptions = {}): QualityGovernor => {
+  if (!levels.length) {
+    throw new Error('Quality governor needs at least one level');
+  }
+
+  const clampLevel = (level: number) => Math.max(0, Math.min(levels.length - 1, Math.round(level)));
+  let level = clampLevel(initialLevel);
+  let lockedLevel: number | null = null;
+  let averageFrameCost = targetFrameCost;
+  let slowStreak = 0;
+  let fastStreak = 0;
+
+  const changeLevel = (nextLevel: number) => {
+    level = clampLevel(nextLevel);
+    // Judge the new level on its own frames
+    averageFrameCost = targetFrameCost;
+    slowStreak = 0;
+    fastStreak = 0;
+  };
+
+  const recordFrame = (cost: number) => {
+    if (!Number.isFinite(cost) || cost < 0) {
+      return;
+    }
+
+    averageFrameCost += (cost - averageFrameCost) * COST_SMOOTHING;
+    if (lockedLevel !== null) {
+      return;
+    }
+
+    if (averageFrameCost > targetFrameCost * SLOW_FRAME_RATIO) {
+      slowStreak++;
+      fastStreak = 0;
+      if (slowStreak >= downgradeAfter && level > 0) {
+        changeLevel(level - 1);
+      }
+    } else if (averageFrameCost < targetFrameCost * FAST_FRAME_RATIO) {
+      fastStreak++;
+      slowStreak = 0;
+      if (fastStreak >= upgradeAfter && level < levels.length - 1) {
+        changeLevel(level + 1);
+      }
+    } else {
+      slowStreak = 0;
+      fastStreak = 0;
+    }
+  };
+
+  const getLevel = () => lockedLevel ?? level;
+
+  return {
+    getLevel,
+    getSettings: () => levels[getLevel()],
+    recordFrame,
+    lock: (nextLevel) => {
+      lockedLevel = nextLevel === null ? null : clampLevel(nextLevel);
+    },
+    getDebugInfo: () => ({
+      level: getLevel(),
+      name: levels[getLevel()].name,
+      averageFrameCost,
+      targetFrameCost,
+      locked: lockedLevel !== null
+    })
+  };
+};
+
+// Frame cost is a property of the page, so every generator shares one governor
+export const qualityGovernor = createQualityGovernor();
+
+type QualityDebugWindow = Window & {
+  __asciiQuality?: QualityGovernor;
+};
+
+// `window.__asciiQuality.getDebugInfo()` shows the current level; `.lock(n)` pins it
+if (typeof window !== 'undefined') {
+  (window as QualityDebugWindow).__asciiQuality = qualityGovernor;
+}
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createCanvasRenderBackend, createPreRenderBackend, RenderFrame } from './renderBackend';
+
+const frame: RenderFrame = {
+  rows: [
+    ['a', 'b', 'c'],
+    ['d', 'e', 'f']
+  ],
+  cols: 3,
+  rowCount: 2,
+  styles: new Map([
+    [1, { linkUrl: 'https://example.com' }],
+    [5, { bold: true }]
+  ])
+};
+
+describe('render backends', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes styled rows into the pre element', () => {
+    const pre = document.createElement('pre');
+    createPreRenderBackend(pre).present(frame);
+
+    const lines = pre.innerHTML.split('\n');
+    expect(lines).toHaveLength(2);
+    expect(pre.querySelector('a.ascii-link')?.getAttribute('href')).toBe('https://example.com');
+    expect(pre.querySelector('a.ascii-link')?.textContent).toBe('b');
+    expect(pre.querySelector('span')?.textContent).toBe('f');
+    expect(pre.textContent).toBe('abc\ndef');
+  });
+
+  it('merges neighbouring cells with the same style into one span', () => {
+    const pre = document.createElement('pre');
+    const shade = { color: '#0077b6' };
+    createPreRenderBackend(pre).present({
+      rows: [['a', 'b', 'c', 'd']],
+      cols: 4,
+      rowCount: 1,
+      styles: new Map([
+        [0, shade],
+        [1, shade],
+        [2, { inverse: true, color: '#d62828' }],
+        [3, { underline: true }]
+      ])
+    });
+
+    const spans = Array.from(pre.querySelectorAll('span'));
+    expect(spans.map(span => span.textContent)).toEqual(['ab', 'c', 'd']);
+    expect(spans[0].style.color).toBe('rgb(0, 119, 182)');
+    expect(spans[1].style.backgroundColor).toBe('rgb(214, 40, 40)');
+    expect(spans[2].style.textDecoration).toBe('underline');
+  });
+
+  it('pins only wide graphemes to two columns in plain rows', () => {
+    const pre = document.createElement('pre');
+    createPreRenderBackend(pre).present({
+      rows: [
+        ['░', '▒', '▓', '█'],
+        ['⠁', '⡇', '⣿', ' '],
+        ['東', '', 'a', 'b']
+      ],
+      cols: 4,
+      rowCount: 3,
+      styles: new Map()
+    });
+
+    const lines = pre.innerHTML.split('\n');
+    expect(lines.slice(0, 2)).toEqual(['░▒▓█', '⠁⡇⣿ ']);
+    expect(Array.from(pre.querySelectorAll('span')).map(span => span.textContent)).toEqual(['東']);
+  });
+
+  it('reports the same cell metrics for the pre and canvas backends', () => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    const pre = createPreRenderBackend(document.createElement('pre'));
+    const canvas = createCanvasRenderBackend(document.createElement('canvas'));
+
+    expect(canvas.getCellMetrics()).toEqual(pre.getCellMetrics());
+    expect(() => canvas.present(frame)).not.toThrow();
+  });
+});
@@ -0,0 +1,320 @@
+import { getCurrentCharMetrics } from './constants';
+import { isWideGrapheme, mayContainWideGraphemes } from './utils';
+
+export type RenderBackendKind = 'pre' | 'canvas';
+
+export interface CellStyle {
+  linkUrl?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean; // Draws the cell in the background color on a block of its text color
+  color?: string; // Resolved CSS color
+}
+
+export interface RenderFrame {
+  rows: string[][];
+  cols: number;
+  rowCount: number;
+  // Keyed by y * cols + x, only for cells that differ from plain text
+  styles: Map<number, CellStyle>;
+}
+
+export interface CellMetrics {
+  charWidth: number;
+  charHeight: number;
+  fontSize: number;
+}
+
+export interface RenderBackend {
+  kind: RenderBackendKind;
+  present: (frame: RenderFrame) => void;
+  // Both backends read the shared constants so hit-testing stays backend-agnostic
+  getCellMetrics: () => CellMetrics;
+  dispose: () => void;
+}
+
+const LINK_COLOR = 'rgb(63, 52, 219)';
+const TEXT_COLOR = '#000';
+const INVERSE_TEXT_COLOR = '#fff';
+
+const readCellMetrics = (): CellMetrics => {
+  const { charWidth, charHeight, scaleFactor } = getCurrentCharMetrics();
+  return { charWidth, charHeight, fontSize: scaleFactor };
+};
+
+// Cells with equal keys render identically, so the pre backend merges them into one span
+const getStyleKey = (style: CellStyle) =>
+  `${style.bold ? 'b' : ''}${style.italic ? 'i' : ''}${style.underline ? 'u' : ''}${style.inverse ? 'v' : ''}${style.linkUrl ? 'l' : ''}|${style.color ?? ''}`;
+
+const getSpanCss = (style: CellStyle) => {
+  const css: string[] = [];
+  const color = style.color ?? TEXT_COLOR;
+  if (style.inverse) {
+    css.push(`color:${INVERSE_TEXT_COLOR}`, `background-color:${color}`);
+  } else if (style.color) {
+    css.push(`color:${style.color}`);
+  }
+  if (style.bold) {
+    css.push('font-weight:bold', `text-shadow: 0px 0px 1px ${style.inverse ? INVERSE_TEXT_COLOR : color}`);
+  }
+  if (style.italic) {
+    css.push('font-style:italic');
+  }
+  if (style.underline) {
+    css.push('text-decoration: underline');
+  }
+  return css.join('; ');
+};
+
+const wrapStyledChars = (chars: string, style: CellStyle) => {
+  if (style.linkUrl) {
+    const url = style.linkUrl;
+    return `<a href="${url}" style="color:${LINK_COLOR}; text-decoration: underline; cursor: pointer;" data-link-url="${url}" class="ascii-link" target="_blank" onclick="window.open('${url}', '_blank')">${chars}</a>`;
+  }
+  const css = getSpanCss(style);
+  return css ? `<span style="${css};">${chars}</span>` : chars;
+};
+
+// Fallback fonts rarely draw CJK or emoji exactly two cells wide, so pin them to 2ch
+const fitWideGlyph = (char: string) =>
+  isWideGrapheme(char) ? `<span style="display:inline-block; width:2ch;">${char}</span>` : char;
+
+export const createPreRenderBackend = (element: HTMLPreElement): RenderBackend => ({
+  kind: 'pre',
+  present: ({ rows, cols, rowCount, styles }) => {
+    const lines = new Array(rowCount);
+
+    if (!styles.size) {
+      for (let y = 0; y < rowCount; y++) {
+        const line = rows[y].join('');
+        lines[y] = mayContainWideGraphemes(line) ? rows[y].map(fitWideGlyph).join('') : line;
+      }
+    } else {
+      for (let y = 0; y < rowCount; y++) {
+        const row = rows[y];
+        let line = '';
+        let x = 0;
+        while (x < cols) {
+          const style = styles.get(y * cols + x);
+          if (!style) {
+            line += fitWideGlyph(row[x++]);
+            continue;
+          }
+
+          // Each link keeps its own anchor; other styles merge with equal neighbours
+          let run = fitWideGlyph(row[x++]);
+          if (!style.linkUrl) {
+            const key = getStyleKey(style);
+            let next = styles.get(y * cols + x);
+            while (x < cols && next && !next.linkUrl && (next === style || getStyleKey(next) === key)) {
+              run += fitWideGlyph(row[x++]);
+              next = styles.get(y * cols + x);
+            }
+          }
+          line += wrapStyledChars(run, style);
+        }
+        lines[y] = line;
+      }
+    }
+
+    element.innerHTML = lines.join('\n');
+  },
+  getCellMetrics: readCellMetrics,
+  // Leave the last frame in place until the next effect run replaces it
+  dispose: () => undefined
+});
+
+type GlyphAtlas = {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D;
+  slots: Map<string, number>;
+  nextSlot: number;
+  slotWidth: number;
+  slotHeight: number;
+  columns: number;
+  capacity: number;
+};
+
+const ATLAS_COLUMNS = 32;
+const ATLAS_ROWS = 16;
+
+const getGlyphFont = (style: CellStyle | undefined, fontSize: number) => {
+  const fontStyle = style?.italic ? 'italic ' : '';
+  const fontWeight = style?.bold ? 'bold ' : '';
+  return `${fontStyle}${fontWeight}${fontSize}px monospace`;
+};
+
+const getGlyphKey = (char: string, style: CellStyle | undefined) => {
+  if (!style) {
+    return char;
+  }
+  return `${char}|${getStyleKey(style)}`;
+};
+
+const createGlyphAtlas = (metrics: CellMetrics, pixelRatio: number): GlyphAtlas | null => {
+  const canvas = document.createElement('canvas');
+  const slotWidth = Math.ceil(metrics.charWidth * pixelRatio);
+  const slotHeight = Math.ceil(metrics.charHeight * pixelRatio);
+  canvas.width = slotWidth * ATLAS_COLUMNS;
+  canvas.height = slotHeight * ATLAS_ROWS;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return null;
+  }
+
+  return {
+    canvas,
+    context,
+    slots: new Map(),
+    nextSlot: 0,
+    slotWidth,
+    slotHeight,
+    columns: ATLAS_COLUMNS,
+    capacity: ATLAS_COLUMNS * ATLAS_ROWS
+  };
+};
+
+// Rasterize a glyph once and return its slot; the atlas is wiped when it fills up
+const ensureGlyph = (
+  atlas: GlyphAtlas,
+  char: string,
+  style: CellStyle | undefined,
+  metrics: CellMetrics,
+  pixelRatio: number
+) => {
+  const key = getGlyphKey(char, style);
+  const existing = atlas.slots.get(key);
+  if (existing !== undefined) {
+    return existing;
+  }
+
+  // Wide glyphs take two neighbouring slots on the same atlas row
+  const span = isWideGrapheme(char) ? 2 : 1;
+  let slot = atlas.nextSlot;
+  if ((slot % atlas.columns) + span > atlas.columns) {
+    slot += atlas.columns - (slot % atlas.columns);
+  }
+  if (slot + span > atlas.capacity) {
+    atlas.slots.clear();
+    atlas.context.clearRect(0, 0, atlas.canvas.width, atlas.canvas.height);
+    slot = 0;
+  }
+  atlas.nextSlot = slot + span;
+
+  const slotX = (slot % atlas.columns) * atlas.slotWidth;
+  const slotY = Math.floor(slot / atlas.columns) * atlas.slotHeight;
+  const glyphWidth = atlas.slotWidth * span;
+  const { context } = atlas;
+
+  context.save();
+  context.beginPath();
+  context.rect(slotX, slotY, glyphWidth, atlas.slotHeight);
+  context.clip();
+  context.font = getGlyphFont(style, metrics.fontSize * pixelRatio);
+  context.textBaseline = 'middle';
+  context.textAlign = 'center';
+  const color = style?.linkUrl ? LINK_COLOR : style?.color ?? TEXT_COLOR;
+  if (style?.inverse) {
+    context.fillStyle = color;
+    context.fillRect(slotX, slotY, glyphWidth, atlas.slotHeight);
+    context.fillStyle = INVERSE_TEXT_COLOR;
+  } else {
+    context.fillStyle = color;
+  }
+  context.fillText(char, slotX + glyphWidth / 2, slotY + atlas.slotHeight / 2);
+  if (style?.linkUrl || style?.underline) {
+    context.fillRect(slotX, slotY + atlas.slotHeight - pixelRatio, glyphWidth, pixelRatio);
+  }
+  context.restore();
+
+  atlas.slots.set(key, slot);
+  return slot;
+};
+
+export type CanvasRenderBackendOptions = {
+  transparentBackground?: boolean;
+};
+
+/**
+ * Canvas 2D backend: draws each cell from a glyph atlas on a fixed
+ * CHAR_WIDTH x CHAR_HEIGHT grid, the same grid the DOM overlays assume.
+ */
+export const createCanvasRenderBackend = (
+  canvas: HTMLCanvasElement,
+  { transparentBackground = false }: CanvasRenderBackendOptions = {}
+): RenderBackend => {
+  const context = canvas.getContext('2d');
+  const pixelRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+  let atlas: GlyphAtlas | null = null;
+  let atlasMetrics: CellMetrics | null = null;
+
+  const present = ({ rows, cols, rowCount, styles }: RenderFrame) => {
+    if (!context) {
+      return;
+    }
+
+    const metrics = readCellMetrics();
+    if (!atlas || !atlasMetrics || atlasMetrics.charWidth !== metrics.charWidth || atlasMetrics.charHeight !== metrics.charHeight) {
+      atlas = createGlyphAtlas(metrics, pixelRatio);
+      atlasMetrics = metrics;
+    }
+    if (!atlas) {
+      return;
+    }
+
+    const cssWidth = cols * metrics.charWidth;
+    const cssHeight = rowCount * metrics.charHeight;
+    const pixelWidth = Math.ceil(cssWidth * pixelRatio);
+    const pixelHeight = Math.ceil(cssHeight * pixelRatio);
+    if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+      canvas.width = pixelWidth;
+      canvas.height = pixelHeight;
+      canvas.style.width = `${cssWidth}px`;
+      canvas.style.height = `${cssHeight}px`;
+    }
+
+    if (transparentBackground) {
+      context.clearRect(0, 0, pixelWidth, pixelHeight);
+    } else {
+      context.fillStyle = 'white';
+      context.fillRect(0, 0, pixelWidth, pixelHeight);
+    }
+
+    for (let y = 0; y < rowCount; y++) {
+      const row = rows[y];
+      const destY = Math.round(y * metrics.charHeight * pixelRatio);
+      for (let x = 0; x < cols; x++) {
+        const char = row[x];
+        if (!char || char === ' ') {
+          continue;
+        }
+        const style = styles.get(y * cols + x);
+        const slot = ensureGlyph(atlas, char, style, metrics, pixelRatio);
+        const glyphWidth = isWideGrapheme(char) ? atlas.slotWidth * 2 : atlas.slotWidth;
+        context.drawImage(
+          atlas.canvas,
+          (slot % atlas.columns) * atlas.slotWidth,
+          Math.floor(slot / atlas.columns) * atlas.slotHeight,
+          glyphWidth,
+          atlas.slotHeight,
+          Math.round(x * metrics.charWidth * pixelRatio),
+          destY,
+          glyphWidth,
+          atlas.slotHeight
+        );
+      }
+    }
+  };
+
+  return {
+    kind: 'canvas',
+    present,
+    getCellMetrics: readCellMetrics,
+    dispose: () => {
+      context?.clearRect(0, 0, canvas.width, canvas.height);
+      atlas = null;
+      atlasMetrics = null;
+    }
+  };
+};
@@ -0,0 +1,128 @@
+import { BackgroundField, defaultBackgroundField, getBuiltinBackgroundField } from './backgroundFields';
+import { CharacterRamp, defaultCharacterRamp } from './characterRamps';
+import { updateCharMetricsForViewport } from './constants';
+import { renderFrameRows } from './frameRenderer';
+import {
+  calculateCharacter,
+  clearCharacterCache,
+  createCharacterPrecomputation,
+  CharacterPrecomputation
+} from './renderer';
+import type { RenderWorkerRequest, RenderWorkerResponse } from './renderWorkerClient';
+import { BlobGridCache, TextPositionCacheResult } from './types';
+import { createCosTable, createFastCos, createFastSin, createSinTable } from './utils';
+
+// The app compiles against the DOM lib, so describe the worker scope we rely on
+type RenderWorkerScope = {
+  onmessage: ((event: MessageEvent<RenderWorkerRequest>) => void) | null;
+  postMessage: (message: RenderWorkerResponse) => void;
+};
+
+const scope = self as unknown as RenderWorkerScope;
+
+const fastSin = createFastSin(createSinTable());
+const fastCos = createFastCos(createCosTable());
+
+let textPositionCache: TextPositionCacheResult = {
+  cache: {},
+  grid: [],
+  bounds: {},
+  links: [],
+  gridCols: 0,
+  offsetY: 0
+};
+let blobGridCache: BlobGridCache | null = null;
+let suppressTextCharacters = false;
+let backgroundField: BackgroundField = defaultBackgroundField;
+let characterRamp: CharacterRamp = defaultCharacterRamp;
+let seed = 0;
+let precomputed: CharacterPrecomputation | null = null;
+let rowBuffers: string[][] = [];
+
+const ensureRowBuffers = (cols: number, rows: number) => {
+  if (rowBuffers.length === rows && (rows === 0 || rowBuffers[0].length === cols)) {
+    return rowBuffers;
+  }
+  rowBuffers = new Array(rows).fill(null).map(() => new Array(cols).fill(' '));
+  return rowBuffers;
+};
+
+scope.onmessage = (event) => {
+  const message = event.data;
+
+  if (message.type === 'scene') {
+    textPositionCache = {
+      cache: {},
+      grid: message.grid,
+      bounds: {},
+      links: [],
+      gridCols: message.gridCols,
+      offsetY: message.offsetY,
+      rampRegions: message.rampRegions
+    };
+    blobGridCache = message.blobGridCache;
+    suppressTextCharacters = message.suppressTextCharacters;
+    backgroundField = getBuiltinBackgroundField(message.backgroundFieldId) ?? defaultBackgroundField;
+    characterRamp = message.characterRamp;
+    seed = message.seed;
+    return;
+  }
+
+  const { frameId, frame } = message;
+
+  try {
+    if (!blobGridCache) {
+      throw new Error('Frame requested before scene was received');
+    }
+
+    const { timing, rowWindow, scrollY, viewportWidth } = frame;
+    const { cols, rows, aspect } = timing;
+    const cursorRef = { current: frame.cursor };
+    const sceneBlobCache = blobGridCache;
+
+    updateCharMetricsForViewport(viewportWidth);
+    clearCharacterCache();
+
+    if (!precomputed || precomputed.cols !== cols || precomputed.rows !== rows || precomputed.aspect !== aspect) {
+      precomputed = createCharacterPrecomputation(cols, rows, aspect);
+    }
+
+    const buffers = ensureRowBuffers(cols, rows);
+    renderFrameRows(buffers, rowWindow, timing, precomputed, (x, y, frameCols, frameRows, frameAspect, time, framePrecomputed, frameSeed, frameNow) =>
+      calculateCharacter(
+        x,
+        y,
+        frameCols,
+        frameRows,
+        frameAspect,
+        time,
+        textPositionCache,
+        sceneBlobCache,
+        cursorRef,
+        scrollY,
+        fastSin,
+        fastCos,
+        framePrecomputed,
+        frameSeed,
+        frameNow,
+        suppressTextCharacters,
+        backgroundField,
+        characterRamp,
+        seed
+      )
+    );
+
+    scope.postMessage({
+      type: 'rows',
+      frameId,
+      rowStart: rowWindow.rowStart,
+      rows: buffers.slice(rowWindow.rowStart, rowWindow.rowEnd)
+    });
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      frameId,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createRenderWorkerClient,
+  RenderWorkerFrame,
+  RenderWorkerLike,
+  RenderWorkerRequest,
+  RenderWorkerResponse,
+  RenderWorkerScene
+} from './renderWorkerClient';
+import type { CursorState } from './types';
+import { defaultCharacterRamp } from './characterRamps';
+
+const createFakeWorker = () => {
+  const posted: RenderWorkerRequest[] = [];
+  const worker: RenderWorkerLike = {
+    postMessage: (message) => {
+      posted.push(message);
+    },
+    terminate: vi.fn(),
+    onmessage: null,
+    onerror: null
+  };
+
+  const respond = (response: RenderWorkerResponse) => {
+    worker.onmessage?.({ data: response } as MessageEvent<RenderWorkerResponse>);
+  };
+
+  return { worker, posted, respond };
+};
+
+const cursor: CursorState = {
+  grid: { x: 0, y: 0 },
+  normalized: { x: 0, y: 0 },
+  isInWindow: false,
+  isActive: false,
+  clickRipples: [],
+  whiteout: {
+    active: true,
+    position: { x: 0, y: 0 },
+    timestamp: 0,
+    progress: 0.5,
+    duration: 1000,
+    onComplete: () => undefined
+  },
+  whiteIn: null,
+  whiteOverlay: null
+};
+
+const scene: RenderWorkerScene = {
+  textPositionCache: {
+    cache: {},
+    grid: [],
+    bounds: {},
+    links: [],
+    gridCols: 4,
+    offsetY: 0
+  },
+  blobGridCache: {
+    fixed: { grid: [], startX: 0, startY: 0, width: 0, height: 0, cacheGridWidth: 0 },
+    scroll: { grid: [], startX: 0, startY: 0, width: 0, height: 0, cacheGridWidth: 0 }
+  },
+  suppressTextCharacters: false,
+  backgroundFieldId: 'waves',
+  characterRamp: defaultCharacterRamp,
+  seed: 0
+};
+
+const frame: RenderWorkerFrame = {
+  timing: { cols: 4, rows: 2, aspect: 1, time: 0, frameSeed: 0, frameNow: 0 },
+  rowWindow: { rowStart: 0, rowEnd: 2, colStart: 0, colEnd: 4, skipFactor: 1, chunkSize: 15, baseChunkSize: 15 },
+  scrollY: 0,
+  viewportWidth: 800,
+  cursor
+};
+
+describe('createRenderWorkerClient', () => {
+  it('sends the scene once and strips callbacks from the cursor snapshot', () => {
+    const { worker, posted, respond } = createFakeWorker();
+    const client = createRenderWorkerClient(() => worker);
+    const onRows = vi.fn();
+
+    expect(client?.requestFrame(scene, frame, onRows)).toBe(true);
+    expect(client?.isBusy()).toBe(true);
+    expect(client?.requestFrame(scene, frame, onRows)).toBe(false);
+
+    respond({ type: 'rows', frameId: 1, rowStart: 0, rows: [['a'], ['b']] });
+    expect(onRows).toHaveBeenCalledWith(0, [['a'], ['b']]);
+
+    client?.requestFrame(scene, frame, onRows);
+
+    expect(posted.map(message => message.type)).toEqual(['scene', 'frame', 'frame']);
+    const framePayload = posted[1];
+    expect(framePayload.type === 'frame' && framePayload.frame.cursor.whiteout?.onComplete).toBeUndefined();
+  });
+
+  it('ignores stale responses and stops accepting frames after a worker error', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { worker, respond } = createFakeWorker();
+    const client = createRenderWorkerClient(() => worker);
+    const onRows = vi.fn();
+
+    client?.requestFrame(scene, frame, onRows);
+    respond({ type: 'rows', frameId: 99, rowStart: 0, rows: [] });
+    expect(onRows).not.toHaveBeenCalled();
+
+    respond({ type: 'error', frameId: 1, message: 'boom' });
+    expect(client?.isAvailable()).toBe(false);
+    expect(worker.terminate).toHaveBeenCalled();
+    expect(client?.requestFrame(scene, frame, onRows)).toBe(false);
+    warn.mockRestore();
+  });
+
+  it('returns null when the worker cannot be constructed', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(createRenderWorkerClient(() => {
+      throw new Error('no workers');
+    })).toBeNull();
+    warn.mockRestore();
+  });
+});
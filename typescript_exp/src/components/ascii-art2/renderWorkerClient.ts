@@ -0,0 +1,236 @@
+import { CharacterRamp, CharacterRampRegion } from './characterRamps';
+import { FrameRowWindow, FrameTiming } from './frameRenderer';
+import {
+  BlobGridCache,
+  CursorState,
+  TextGridCell,
+  TextPositionCacheResult
+} from './types';
+
+// Everything the worker needs to reproduce calculateCharacter off the main thread.
+// Only plain data crosses the boundary; refs and callbacks stay on the main thread.
+export interface RenderWorkerScene {
+  textPositionCache: TextPositionCacheResult;
+  blobGridCache: BlobGridCache;
+  suppressTextCharacters: boolean;
+  backgroundFieldId: string;
+  characterRamp: CharacterRamp;
+  seed: number;
+}
+
+export interface RenderWorkerSource {
+  getScene: () => RenderWorkerScene;
+  getCursorState: () => CursorState;
+}
+
+export interface RenderWorkerFrame {
+  timing: FrameTiming;
+  rowWindow: FrameRowWindow;
+  scrollY: number;
+  viewportWidth: number;
+  cursor: CursorState;
+}
+
+export type RenderWorkerRequest =
+  | {
+      type: 'scene';
+      grid: TextGridCell[];
+      gridCols: number;
+      offsetY: number;
+      blobGridCache: BlobGridCache;
+      suppressTextCharacters: boolean;
+      backgroundFieldId: string;
+      characterRamp: CharacterRamp;
+      rampRegions: CharacterRampRegion[];
+      seed: number;
+    }
+  | {
+      type: 'frame';
+      frameId: number;
+      frame: RenderWorkerFrame;
+    };
+
+export type RenderWorkerResponse =
+  | { type: 'rows'; frameId: number; rowStart: number; rows: string[][] }
+  | { type: 'error'; frameId: number; message: string };
+
+export type RenderWorkerLike = {
+  postMessage: (message: RenderWorkerRequest) => void;
+  terminate: () => void;
+  onmessage: ((event: MessageEvent<RenderWorkerResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+};
+
+export type RowsHandler = (rowStart: number, rows: string[][]) => void;
+
+export interface RenderWorkerClient {
+  isAvailable: () => boolean;
+  isBusy: () => boolean;
+  requestFrame: (scene: RenderWorkerScene, frame: RenderWorkerFrame, onRows: RowsHandler) => boolean;
+  dispose: () => void;
+}
+
+export const canUseRenderWorker = () => typeof Worker !== 'undefined';
+
+const createModuleWorker = (): RenderWorkerLike => {
+  return new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' }) as unknown as RenderWorkerLike;
+};
+
+// Strip callbacks (e.g. whiteout.onComplete) so the state survives structured cloning
+export const snapshotCursorState = (cursor: CursorState): CursorState => ({
+  grid: { ...cursor.grid },
+  normalized: { ...cursor.normalized },
+  isInWindow: cursor.isInWindow,
+  isActive: cursor.isActive,
+  clickRipples: cursor.clickRipples.map(ripple => ({
+    ...ripple,
+    position: { ...ripple.position }
+  })),
+  whiteout: cursor.whiteout
+    ? {
+        active: cursor.whiteout.active,
+        position: { ...cursor.whiteout.position },
+        timestamp: cursor.whiteout.timestamp,
+        progress: cursor.whiteout.progress,
+        duration: cursor.whiteout.duration
+      }
+    : null,
+  whiteIn: cursor.whiteIn ? { ...cursor.whiteIn, position: { ...cursor.whiteIn.position } } : null,
+  whiteOverlay: cursor.whiteOverlay ? { ...cursor.whiteOverlay } : null,
+  isScrolling: cursor.isScrolling
+});
+
+/**
+ * Create a client that offloads frame computation to a module worker.
+ * Returns null when workers are unavailable (tests, very old browsers) so the
+ * caller can keep using the in-thread loop. Only one frame is in flight at a time.
+ */
+export const createRenderWorkerClient = (
+  createWorker: () => RenderWorkerLike = createModuleWorker
+): RenderWorkerClient | null => {
+  let worker: RenderWorkerLike;
+  try {
+    worker = createWorker();
+  } catch (error) {
+    console.warn('Render worker unavailable, falling back to main thread', error);
+    return null;
+  }
+
+  let available = true;
+  let nextFrameId = 1;
+  let pendingFrameId: number | null = null;
+  let pendingHandler: RowsHandler | null = null;
+  let sentGrid: TextGridCell[] | null = null;
+  let sentBlobCache: BlobGridCache | null = null;
+  let sentSuppressText: boolean | null = null;
+  let sentBackgroundFieldId: string | null = null;
+  let sentCharacterRamp: CharacterRamp | null = null;
+  let sentSeed: number | null = null;
+
+  const fail = (reason: unknown) => {
+    if (!available) {
+      return;
+    }
+    console.warn('Render worker failed, falling back to main thread', reason);
+    available = false;
+    pendingFrameId = null;
+    pendingHandler = null;
+    worker.terminate();
+  };
+
+  worker.onmessage = (event) => {
+    const message = event.data;
+    if (message.frameId !== pendingFrameId) {
+      return;
+    }
+
+    const handler = pendingHandler;
+    pendingFrameId = null;
+    pendingHandler = null;
+
+    if (message.type === 'error') {
+      fail(message.message);
+      return;
+    }
+
+    handler?.(message.rowStart, message.rows);
+  };
+
+  worker.onerror = (event) => {
+    fail(event.message);
+  };
+
+  const syncScene = (scene: RenderWorkerScene) => {
+    const {
+      textPositionCache,
+      blobGridCache,
+      suppressTextCharacters,
+      backgroundFieldId,
+      characterRamp,
+      seed
+    } = scene;
+    if (
+      sentGrid === textPositionCache.grid &&
+      sentBlobCache === blobGridCache &&
+      sentSuppressText === suppressTextCharacters &&
+      sentBackgroundFieldId === backgroundFieldId &&
+      sentCharacterRamp === characterRamp &&
+      sentSeed === seed
+    ) {
+      return;
+    }
+
+    worker.postMessage({
+      type: 'scene',
+      grid: textPositionCache.grid,
+      gridCols: textPositionCache.gridCols,
+      offsetY: textPositionCache.offsetY,
+      blobGridCache,
+      suppressTextCharacters,
+      backgroundFieldId,
+      characterRamp,
+      rampRegions: textPositionCache.rampRegions ?? [],
+      seed
+    });
+    sentGrid = textPositionCache.grid;
+    sentBlobCache = blobGridCache;
+    sentSuppressText = suppressTextCharacters;
+    sentBackgroundFieldId = backgroundFieldId;
+    sentCharacterRamp = characterRamp;
+    sentSeed = seed;
+  };
+
+  return {
+    isAvailable: () => available,
+    isBusy: () => pendingFrameId !== null,
+    requestFrame: (scene, frame, onRows) => {
+      if (!available || pendingFrameId !== null) {
+        return false;
+      }
+
+      try {
+        syncScene(scene);
+        const frameId = nextFrameId++;
+        worker.postMessage({
+          type: 'frame',
+          frameId,
+          frame: { ...frame, cursor: snapshotCursorState(frame.cursor) }
+        });
+        pendingFrameId = frameId;
+        pendingHandler = onRows;
+        return true;
+      } catch (error) {
+        fail(error);
+        return false;
+      }
+    },
+    dispose: () => {
+      pendingFrameId = null;
+      pendingHandler = null;
+      if (available) {
+        available = false;
+        worker.terminate();
+      }
+    }
+  };
+};
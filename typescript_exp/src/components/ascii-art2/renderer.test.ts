@@ -1,5 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import { calculateCharacter, clearCharacterCache } from './renderer';
+import { BackgroundField, hazardStripeBackgroundField } from './backgroundFields';
+import { selectedCharacterSet } from './constants';
 import type { BlobGridCache, CursorState, TextPositionCacheResult } from './types';
 
 const cursorRef = {
@@ -85,4 +87,82 @@ describe('calculateCharacter', () => {
     expect(normalCharacter).toBe('A');
     expect(suppressedCharacter).not.toBe('A');
   });
+
+  it('shades background cells from the supplied background field', () => {
+    const emptyText: TextPositionCacheResult = { ...textPositionCache, grid: [] };
+    const flatField: BackgroundField = { id: 'flat', sample: () => 0.5 };
+    clearCharacterCache();
+    const character = calculateCharacter(
+      0,
+      0,
+      1,
+      1,
+      1,
+      0,
+      emptyText,
+      emptyBlobCache,
+      cursorRef,
+      0,
+      Math.sin,
+      Math.cos,
+      null,
+      undefined,
+      undefined,
+      false,
+      flatField
+    );
+
+    expect(character).toBe(selectedCharacterSet[Math.floor(0.5 * selectedCharacterSet.length)]);
+  });
+
+  it('draws hazard stripes as alternating dense and sparse bands', () => {
+    const sampleAt = (x: number) => hazardStripeBackgroundField.sample({
+      x,
+      y: 0,
+      normX: 0,
+      normY: 0,
+      posX: 0,
+      posY: 0,
+      time: 0,
+      timeFactor: 0,
+      mouseX: 0,
+      mouseY: 0,
+      isInWindow: false,
+      mouseInfluence: 0,
+      precomputed: null,
+      frameData: null,
+      fastSin: Math.sin,
+      fastCos: Math.cos
+    });
+
+    expect(sampleAt(4)).toBeLessThan(0.3);
+    expect(sampleAt(12)).toBeGreaterThan(0.7);
+  });
+
+  it('dissolves whiteout edges identically for the same seed and frame time', () => {
+    const emptyText: TextPositionCacheResult = { ...textPositionCache, grid: [] };
+    const whiteoutCursor = {
+      current: {
+        ...cursorRef.current,
+        whiteout: { active: true, position: { x: 0, y: 0 }, timestamp: 0, progress: 0.05, duration: 1000 }
+      } satisfies CursorState
+    };
+    const renderFrame = (seed: number, time: number) => {
+      clearCharacterCache();
+      let frame = '';
+      for (let y = 0; y < 12; y++) {
+        for (let x = 0; x < 24; x++) {
+          frame += calculateCharacter(
+            x, y, 24, 12, 2, time, emptyText, emptyBlobCache, whiteoutCursor, 0, Math.sin, Math.cos,
+            null, undefined, undefined, false, undefined, undefined, seed
+          );
+        }
+        frame += '\n';
+      }
+      return frame;
+    };
+
+    expect(renderFrame(3, 500)).toBe(renderFrame(3, 500));
+    expect(renderFrame(3, 500)).not.toBe(renderFrame(4, 500));
+  });
 });
@@ -1,18 +1,20 @@
-import React from 'react';
+import type React from 'react';
 import { 
   BLOB_CACHE_GRID_SIZE, 
   BORDER_FREQUENCY, 
   CHAR_HEIGHT, 
-  HORIZONTAL_PADDING, 
-  selectedCharacterSet, 
-  characterSetLength
+  HORIZONTAL_PADDING
 } from './constants';
 import { 
   TextPositionCacheResult, 
   BlobGridCache,
   BlobCachePlane,
+  ClickRipple,
   CursorState
 } from './types';
+import { BackgroundField, BackgroundFieldSample, defaultBackgroundField } from './backgroundFields';
+import { CharacterRamp, defaultCharacterRamp, findRegionRamp, sampleCharacterRamp } from './characterRamps';
+import { deriveFrameSeed, pseudoRandom } from './utils';
 
 export interface CharacterPrecomputation {
   cols: number;
@@ -41,18 +43,96 @@ export interface CharacterFrameData {
   rippleBase: number;
 }
 
+export const createCharacterPrecomputation = (
+  cols: number,
+  rows: number,
+  aspect: number
+): CharacterPrecomputation => {
+  const safeCols = Math.max(cols, 1);
+  const safeRows = Math.max(rows, 1);
+  const sizeVal = Math.max(1, Math.min(safeCols, safeRows));
+  const aspectWave = aspect * 0.2;
+
+  const normX = new Float32Array(safeCols);
+  const normY = new Float32Array(safeRows);
+  const posX = new Float32Array(safeCols);
+  const posY = new Float32Array(safeRows);
+  const posXScaled = new Float32Array(safeCols);
+  const posYScaled = new Float32Array(safeRows);
+  const posXWave2 = new Float32Array(safeCols);
+  const posXSquared = new Float32Array(safeCols);
+  const posYSquared = new Float32Array(safeRows);
+
+  const normXScale = 2 / safeCols;
+  const normYScale = 2 / safeRows;
+  const posXScale = (4 / sizeVal) * aspectWave;
+  const posYScale = 5 / sizeVal;
+  const posXOffset = cols / 6.25;
+  const posYOffset = rows / 4;
+
+  for (let x = 0; x < safeCols; x++) {
+    const normalizedX = x * normXScale - 1;
+    const basePosX = (x - posXOffset) * posXScale;
+    normX[x] = normalizedX;
+    posX[x] = basePosX;
+    posXScaled[x] = basePosX * 1.5;
+    posXWave2[x] = basePosX * 0.8;
+    posXSquared[x] = basePosX * basePosX;
+  }
+
+  for (let y = 0; y < safeRows; y++) {
+    const normalizedY = y * normYScale - 1;
+    const basePosY = (y - posYOffset) * posYScale;
+    normY[y] = normalizedY;
+    posY[y] = basePosY;
+    posYScaled[y] = basePosY * 1.5;
+    posYSquared[y] = basePosY * basePosY;
+  }
+
+  return {
+    cols,
+    rows,
+    aspect,
+    normX,
+    normY,
+    posX,
+    posY,
+    sizeVal,
+    aspectWave,
+    posXScaled,
+    posYScaled,
+    posXWave2,
+    posXSquared,
+    posYSquared
+  };
+};
+
 // Precomputed values
 const SPACE = ' ';
 const SQRT_8 = Math.sqrt(8); // Precompute √(2²+2²)
 const MAX_DISTANCE_MULT = SQRT_8 * 1.5; // Precompute the value used for maxDistance * 1.5
-const UINT32_MAX = 0xffffffff;
-
-const pseudoRandom = (x: number, y: number, seed: number): number => {
-  let h = (seed | 0) + Math.imul(x + 0x9e3779b9, 0x85ebca6b) + Math.imul(y + 0x27d4eb2f, 0xc2b2ae35);
-  h = (h ^ (h >>> 16)) >>> 0;
-  h = Math.imul(h, 0x27d4eb2f) >>> 0;
-  h = (h ^ (h >>> 15)) >>> 0;
-  return h / UINT32_MAX;
+const CURSOR_GLOW_RADIUS = 0.3;
+const CURSOR_RIPPLE_DECAY = 0.5;
+// Cells farther than this (normalized units) from a resting cursor ignore it
+export const CURSOR_EFFECT_RADIUS = Math.max(CURSOR_GLOW_RADIUS, 1 / CURSOR_RIPPLE_DECAY);
+
+// Radius (normalized units) of the cleared circle of a whiteout/white-in at a given progress
+export const getTransitionRadius = (progress: number) => progress * MAX_DISTANCE_MULT;
+
+/**
+ * Normalized distance band a click ripple can shade at `now`, or null once expired.
+ * Mirrors the ring maths in calculateCharacter, including the secondary ring.
+ */
+export const getClickRippleBand = (ripple: ClickRipple, now: number): { inner: number; outer: number } | null => {
+  const age = Math.max(0, now - ripple.timestamp);
+  if (age >= ripple.lifespan) {
+    return null;
+  }
+  const normalizedAge = age / ripple.lifespan;
+  const rippleSize = normalizedAge * (2.0 + (ripple.intensity - 0.5) * 0.6);
+  const rippleWidth = 0.05 + 0.1 * normalizedAge + (ripple.intensity - 0.5) * 0.05;
+  const inner = ripple.intensity > 0.8 ? rippleSize * 0.4 - rippleWidth : rippleSize - rippleWidth;
+  return { inner: Math.max(0, inner), outer: rippleSize + rippleWidth };
 };
 
 // Link underline characters lookup (faster than multiple === checks)
@@ -71,6 +151,53 @@ let cachedCols = 0;
 let cachedRows = 0;
 let frameDataCache: CharacterFrameData | null = null;
 
+// Reused for every background sample to avoid per-cell allocations
+const fieldSample: BackgroundFieldSample = {
+  x: 0,
+  y: 0,
+  normX: 0,
+  normY: 0,
+  posX: 0,
+  posY: 0,
+  time: 0,
+  timeFactor: 0,
+  mouseX: 0,
+  mouseY: 0,
+  isInWindow: false,
+  mouseInfluence: 0,
+  precomputed: null,
+  frameData: null,
+  fastSin: Math.sin,
+  fastCos: Math.cos
+};
+
+const STILL_POINTER = { x: 0, y: 0 };
+
+/**
+ * The cursor as reduced-motion frames see it: the pointer is left out of the
+ * window and centered, so the field, glow and cursor ripple hold still while
+ * it moves. Transitions and click rings still come from the real state.
+ */
+export const createStillCursorRef = (
+  cursorRef: React.MutableRefObject<CursorState>
+): React.MutableRefObject<CursorState> => {
+  let source: CursorState | null = null;
+  let still = cursorRef.current;
+  return {
+    get current() {
+      // The cursor hooks replace the state on every change, so identity tells when to rebuild
+      if (cursorRef.current !== source) {
+        source = cursorRef.current;
+        still = { ...source, normalized: STILL_POINTER, isInWindow: false };
+      }
+      return still;
+    },
+    set current(cursor: CursorState) {
+      cursorRef.current = cursor;
+    }
+  };
+};
+
 // Clear the cache at the beginning of each frame
 export const clearCharacterCache = () => {
   resultCache.clear();
@@ -140,7 +267,7 @@ const encodeCacheKey = (x: number, y: number, scrolledY: number): number => {
   return ((scrolledY & 0xfff) << 24) | ((y & 0xfff) << 12) | (x & 0xfff);
 };
 
-const readBlobCell = (
+export const readBlobCell = (
   plane: BlobCachePlane,
   x: number,
   y: number
@@ -185,7 +312,10 @@ export const calculateCharacter = (
   precomputed?: CharacterPrecomputation | null,
   frameSeed?: number,
   frameNow?: number,
-  suppressTextCharacters: boolean = false
+  suppressTextCharacters: boolean = false,
+  backgroundField: BackgroundField = defaultBackgroundField,
+  characterRamp: CharacterRamp = defaultCharacterRamp,
+  seed: number = 0
 ): string => {
   const scrolledY = Math.floor(scrollY / CHAR_HEIGHT);
 
@@ -215,9 +345,10 @@ export const calculateCharacter = (
   const frameData = precomputedData && typeof frameSeed === 'number'
     ? ensureFrameData(frameSeed, precomputedData, time, cursorState, fastSin, fastCos)
     : null;
-  const seed = (frameSeed ?? Math.floor(time)) | 0;
-  const currentTime = frameNow ?? Date.now();
-  const randomValue = (offset: number) => pseudoRandom(x + offset, y - offset, seed ^ offset);
+  // Without explicit frame values everything derives from the seed and frame time
+  const noiseSeed = (frameSeed ?? deriveFrameSeed(seed, time)) | 0;
+  const currentTime = frameNow ?? time;
+  const randomValue = (offset: number) => pseudoRandom(x + offset, y - offset, noiseSeed ^ offset);
   const timeFactor = frameData?.timeFactor ?? time * 0.00003;
   
   // EARLY EXIT 1: Check for white overlay (fastest path)
@@ -425,7 +556,7 @@ export const calculateCharacter = (
   
   // Cursor effect - only calculate if mouse is in window
   let cursorEffect = 0;
-  const cursorRadius = 0.3;
+  const cursorRadius = CURSOR_GLOW_RADIUS;
   const cursorRadiusSquared = cursorRadius * cursorRadius; // Precompute squared radius
   if (isInWindow) {
     // Use squared distance for comparison
@@ -442,7 +573,7 @@ export const calculateCharacter = (
   
   const rippleSpeed = 1.2;
   const rippleFrequency = 5;
-  const rippleDecay = 0.5;
+  const rippleDecay = CURSOR_RIPPLE_DECAY;
   let ripple = 0;
   if (isInWindow) {
     // Approximation for Math.exp(-mouseInfluence * rippleDecay)
@@ -528,27 +659,25 @@ export const calculateCharacter = (
     clickRipplesEffect = clickRipplesEffect > 1.0 ? 1.0 : clickRipplesEffect;
   }
   
-  // Calculate wave patterns
-  const wave1 = frameData 
-    ? frameData.sinPosX[x] * frameData.cosPosY[y]
-    : fastSin(posX * 1.5 + timeFactor + normMouseX) * fastCos(posY * 1.5 - timeFactor + normMouseY);
-
-  const wave2Base = precomputedData
-    ? precomputedData.posXWave2[x] * posY + (frameData?.wave2Phase ?? timeFactor * 1.2)
-    : posX * posY * 0.8 + timeFactor * 1.2;
-  const wave2 = fastCos(wave2Base);
-
-  const spiralMagnitude = precomputedData
-    ? Math.sqrt(precomputedData.posXSquared[x] + precomputedData.posYSquared[y]) * 3
-    : Math.sqrt(posX * posX + posY * posY) * 3;
-  const spiral = fastSin(spiralMagnitude - (frameData?.spiralPhase ?? timeFactor * 1.5));
-  let mouseRipple = 0;
-  if (isInWindow && mouseInfluence > 1e-6) { // Avoid division by zero/small number if mouseInfluence is 0
-    mouseRipple = fastSin(mouseInfluence * 5 - timeFactor * 2) / (mouseInfluence + 1);
-  }
-  
-  // Combined effects
-  let combined = (wave1 * 0.3 + wave2 * 0.2 + spiral * 0.2 + mouseRipple * 0.3 + 1) / 2;
+  fieldSample.x = x;
+  fieldSample.y = y;
+  fieldSample.normX = normX;
+  fieldSample.normY = normY;
+  fieldSample.posX = posX;
+  fieldSample.posY = posY;
+  fieldSample.time = time;
+  fieldSample.timeFactor = timeFactor;
+  fieldSample.mouseX = normMouseX;
+  fieldSample.mouseY = normMouseY;
+  fieldSample.isInWindow = isInWindow;
+  fieldSample.mouseInfluence = mouseInfluence;
+  fieldSample.precomputed = precomputedData;
+  fieldSample.frameData = frameData;
+  fieldSample.fastSin = fastSin;
+  fieldSample.fastCos = fastCos;
+
+  const fieldIntensity = backgroundField.sample(fieldSample);
+  let combined = fieldIntensity < 0 ? 0 : (fieldIntensity > 1 ? 1 : fieldIntensity);
   
   // Only apply cursor effects if in window (avoid unnecessary calculations)
   if (isInWindow) {
@@ -561,9 +690,8 @@ export const calculateCharacter = (
     }
   }
 
-  // Use bitwise OR for faster integer conversion
-  const index = (combined * characterSetLength + ((x + y) & 1)) | 0;
-  const result = selectedCharacterSet[index % characterSetLength];
+  const ramp = findRegionRamp(textPositionCache.rampRegions, x, y, scrolledY) ?? characterRamp;
+  const result = sampleCharacterRamp(ramp, combined, x, y, seed);
   
   // Add to cache before returning
   if (resultCache.size >= MAX_CACHE_SIZE) {
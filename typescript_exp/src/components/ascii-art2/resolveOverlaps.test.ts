@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { buildTextPositionCache } from './hooks/useTextPositioning/buildTextPositionCache';
+import { findOverlapNudge } from './hooks/useTextPositioning/resolveOverlaps';
+import { TextContentItem } from './types';
+
+const item = (text: string, extra: Partial<TextContentItem> = {}): TextContentItem => ({
+  text,
+  x: 0,
+  y: 0,
+  usePercentPosition: false,
+  ...extra
+});
+
+describe('overlap resolution', () => {
+  it('takes the cheapest clear move, counting a row as two columns', () => {
+    const obstacle = { minX: 10, maxX: 14, minY: 2, maxY: 2 };
+    expect(findOverlapNudge({ minX: 13, maxX: 17, minY: 2, maxY: 2 }, [obstacle], 1, 40)).toEqual({ x: 3, y: 0 });
+    // Sideways would leave the screen, so it drops below instead
+    expect(findOverlapNudge({ minX: 13, maxX: 17, minY: 2, maxY: 2 }, [obstacle], 1, 18)).toEqual({ x: 0, y: 2 });
+    expect(findOverlapNudge({ minX: 20, maxX: 24, minY: 2, maxY: 2 }, [obstacle], 1, 40)).toEqual({ x: 0, y: 0 });
+    // Boxed in on both sides: down past everything it meets
+    const walls = [obstacle, { minX: 0, maxX: 8, minY: 2, maxY: 6 }, { minX: 17, maxX: 39, minY: 0, maxY: 4 }];
+    expect(findOverlapNudge({ minX: 12, maxX: 16, minY: 2, maxY: 2 }, walls, 1, 40)).toEqual({ x: 0, y: 4 });
+  });
+
+  it('moves marked items with their links, and anchored items follow', () => {
+    const textContent = [
+      item('first', { x: 10, y: 2 }),
+      item('[next](n)', { name: 'next', x: 12, y: 2, avoidOverlap: true }),
+      item('caption', { anchorTo: 'next', anchorPoint: 'bottomLeft' }),
+      item('ghost', { x: 12, y: 2, fixed: true, avoidOverlap: true })
+    ];
+    const result = buildTextPositionCache(textContent, 40, 12);
+    const rows = (key: string) => result.cache[key].map(cell => cell.y);
+
+    expect(result.overlapNudges).toEqual({ 'next-[next](n)': { x: 0, y: 2 } });
+    expect(rows('next-[next](n)')).toEqual([4, 4, 4, 4]);
+    expect(result.links).toEqual([{ textKey: 'next-[next](n)', url: 'n', startX: 12, endX: 15, y: 4 }]);
+    expect(result.grid[(4 - result.offsetY) * result.gridCols + 12]?.char).toBe('n');
+    expect(result.bounds['caption-0-0'].minY).toBe(result.bounds['next-[next](n)'].maxY - 15);
+    // Fixed items sit in their own layer
+    expect(rows('ghost-12-2')).toEqual([2, 2, 2, 2, 2]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { matchTextBreakpoints, resolveResponsiveTextContent } from './responsive';
+import { TextContentItem } from './types';
+import { getGridDimensions } from './utils';
+
+const card: TextContentItem = {
+  name: 'card',
+  text: 'hello',
+  x: 72,
+  y: 4,
+  fixed: true,
+  maxWidthPercent: 26,
+  anchorTo: 'title',
+  responsive: {
+    portrait: { fixed: false, maxWidthPercent: 60 },
+    narrow: { x: 66, maxWidthPercent: 32, anchorTo: undefined }
+  }
+};
+
+describe('responsive text items', () => {
+  it('matches breakpoints from the viewport', () => {
+    expect(matchTextBreakpoints({ width: 1280, height: 800 })).toEqual([]);
+    expect(matchTextBreakpoints({ width: 900, height: 1200 })).toEqual(['portrait']);
+    expect(matchTextBreakpoints({ width: 390, height: 844 })).toEqual(['portrait', 'narrow']);
+  });
+
+  it('applies matching overrides in order, narrowest last', () => {
+    const plain: TextContentItem = { text: 'plain', x: 0, y: 0 };
+    const resolve = (width: number, height: number) => resolveResponsiveTextContent([card, plain], { width, height });
+
+    const [wide, wideText] = resolve(1280, 800);
+    expect(wide).toEqual({ name: 'card', text: 'hello', x: 72, y: 4, fixed: true, maxWidthPercent: 26, anchorTo: 'title' });
+    expect(wideText).toBe(plain);
+
+    expect(resolve(900, 1200)[0]).toMatchObject({ x: 72, fixed: false, maxWidthPercent: 60, anchorTo: 'title' });
+    const [phone] = resolve(390, 844);
+    expect(phone).toMatchObject({ x: 66, fixed: false, maxWidthPercent: 32 });
+    expect(phone.anchorTo).toBeUndefined();
+
+    const withoutOverrides = [plain];
+    expect(resolveResponsiveTextContent(withoutOverrides, { width: 390, height: 844 })).toBe(withoutOverrides);
+  });
+
+  it('swaps in text written for the breakpoint', () => {
+    const table: TextContentItem = {
+      name: 'table',
+      text: '2024 | Long venue name',
+      x: 0,
+      y: 0,
+      responsive: { narrow: { text: '2024 | Venue' } }
+    };
+
+    expect(resolveResponsiveTextContent([table], { width: 1280, height: 800 })[0].text).toBe('2024 | Long venue name');
+    expect(resolveResponsiveTextContent([table], { width: 390, height: 844 })[0].text).toBe('2024 | Venue');
+  });
+
+  it('fits content to the width in columns after breakpoint overrides', () => {
+    const fitWidth = vi.fn((maxWidth: number) => ({ text: '#'.repeat(maxWidth), anchorOffsetX: -Math.floor(maxWidth / 2) }));
+    const table: TextContentItem = {
+      name: 'table',
+      text: '',
+      x: 0,
+      y: 0,
+      maxWidthPercent: 60,
+      fitWidth,
+      responsive: { portrait: { maxWidthPercent: 94 } }
+    };
+
+    const { cols } = getGridDimensions(900, 1200);
+    const [resolved] = resolveResponsiveTextContent([table], { width: 900, height: 1200 });
+    const maxWidth = Math.floor((cols * 94) / 100);
+    expect(fitWidth).toHaveBeenCalledWith(maxWidth, cols);
+    expect(resolved).toMatchObject({ text: '#'.repeat(maxWidth), anchorOffsetX: -Math.floor(maxWidth / 2) });
+    expect(resolved.fitWidth).toBeUndefined();
+  });
+});
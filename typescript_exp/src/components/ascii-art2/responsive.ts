@@ -0,0 +1,61 @@
+import { TextBreakpoint, TextContentItem } from './types';
+import { getGridDimensions } from './utils';
+
+/**
+ * Breakpoint overrides for text items. Pages describe how an item changes on
+ * small or portrait screens with `responsive` instead of listening for resizes;
+ * the generator resolves them against the viewport before layout. Content that
+ * depends on the exact width in columns comes from `fitWidth` instead.
+ */
+
+export interface ViewportSize {
+  width: number; // CSS pixels
+  height: number;
+}
+
+export const NARROW_BREAKPOINT_PX = 720;
+
+// In order of precedence: when several match, later ones win
+const BREAKPOINTS: Array<[TextBreakpoint, (viewport: ViewportSize) => boolean]> = [
+  ['portrait', ({ width, height }) => height > width],
+  ['narrow', ({ width }) => width < NARROW_BREAKPOINT_PX]
+];
+
+export const matchTextBreakpoints = (viewport: ViewportSize): TextBreakpoint[] =>
+  BREAKPOINTS.filter(([, matches]) => matches(viewport)).map(([breakpoint]) => breakpoint);
+
+const hasOverrides = (item: TextContentItem): boolean =>
+  !!item.responsive || !!item.fitWidth || !!item.children?.some(hasOverrides);
+
+// Columns the item may wrap to, as calculateBounds measures them
+const maxWidthColumns = (item: TextContentItem, cols: number) =>
+  item.maxWidthPercent && item.maxWidthPercent > 0 && item.maxWidthPercent <= 100
+    ? Math.floor((cols * item.maxWidthPercent) / 100)
+    : cols;
+
+/**
+ * The item as it applies to this viewport, without its `responsive` and
+ * `fitWidth` fields, along with its container children. Items without
+ * overrides are returned as they are. Character metrics must already match the
+ * viewport (see updateCharMetricsForViewport).
+ */
+export const resolveResponsiveItem = (item: TextContentItem, viewport: ViewportSize): TextContentItem => {
+  if (!hasOverrides(item)) {
+    return item;
+  }
+  const { responsive, ...base } = item;
+  const { fitWidth, ...matched } = matchTextBreakpoints(viewport).reduce<TextContentItem>(
+    (current, breakpoint) => ({ ...current, ...responsive?.[breakpoint] }),
+    base
+  );
+  const { cols } = getGridDimensions(viewport.width, viewport.height);
+  const resolved = fitWidth ? { ...matched, ...fitWidth(maxWidthColumns(matched, cols), cols) } : matched;
+  return item.children
+    ? { ...resolved, children: item.children.map(child => resolveResponsiveItem(child, viewport)) }
+    : resolved;
+};
+
+export const resolveResponsiveTextContent = (textContent: TextContentItem[], viewport: ViewportSize) =>
+  textContent.some(hasOverrides)
+    ? textContent.map(item => resolveResponsiveItem(item, viewport))
+    : textContent;
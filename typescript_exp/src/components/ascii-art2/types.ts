@@ -1,4 +1,9 @@
 import { FontName } from './ASCII_text_renderer';
+import { RenderBackendKind } from './renderBackend';
+import { BackgroundField } from './backgroundFields';
+import type { CharacterRampRegion, CharacterRampSpec } from './characterRamps';
+import type { AnimationClock } from './animationClock';
+import type { ColorPaletteSpec } from './palette';
 import React from 'react';
 
 /**
@@ -21,6 +26,13 @@ export interface AsciiArtGeneratorProps {
   scrollToOffset?: number | null;
   whiteInRequest?: { position: { x: number; y: number }; token: number; startProgress?: number };
   externalContainerRef?: React.MutableRefObject<HTMLDivElement | null>;
+  renderBackend?: RenderBackendKind; // 'pre' (default) writes HTML rows, 'canvas' draws from a glyph atlas
+  backgroundField?: BackgroundField; // Ambient pattern behind the text; defaults to the wave/spiral field
+  characterRamp?: CharacterRampSpec; // Preset name or custom ramp for background shading
+  seed?: number; // Seeds ramp dithering, transition noise and click ripples
+  clock?: AnimationClock; // Time source; frozen or stepped clocks make frames reproducible
+  reducedMotion?: boolean; // Overrides the visitor's motion preference when set
+  palette?: ColorPaletteSpec; // Preset name or custom palette for markup colors and background shades
 }
 
 /**
@@ -31,10 +43,13 @@ export interface TextContentItem {
   x: number;
   y: number;
   fontName?: FontName;
+  headingFont?: FontName; // Font for "# Heading" lines when fontName is 'regular'
   preRenderedAscii?: string;
   fixed?: boolean;
   maxWidthPercent?: number;
-  alignment?: 'left' | 'center' | 'right';
+  alignment?: 'left' | 'center' | 'right' | 'justify'; // justify applies to regular text; lines are placed like left
+  hyphenation?: string; // Hyphenation language for regular text, e.g. 'en' or 'nl'
+  direction?: 'ltr' | 'rtl' | 'auto'; // Paragraph direction for regular text (default 'auto': first strong character); rtl defaults alignment to right
   usePercentPosition?: boolean;
   centered?: boolean;
   name?: string;
@@ -42,7 +57,33 @@ export interface TextContentItem {
   anchorOffsetX?: number;
   anchorOffsetY?: number;
   anchorPoint?: 'topLeft' | 'topCenter' | 'topRight' | 'bottomLeft' | 'bottomRight' | 'center' | 'bottomCenter' | 'middleLeft' | 'middleRight';
-}
+  characterRamp?: CharacterRampSpec; // Shades the background around this item's blob
+  avoidOverlap?: boolean | { gap?: number }; // Nudged clear of items laid out before it (gap: empty cells kept between, default 1)
+  responsive?: Partial<Record<TextBreakpoint, ResponsiveTextOverrides>>; // Applied when the viewport matches (see ./responsive)
+  fitWidth?: (maxWidth: number, cols: number) => ResponsiveTextOverrides; // For content cut to the exact width, e.g. tables; called after `responsive`
+  layout?: TextLayout; // Makes this item a container that places `children` instead of drawing text
+  children?: TextContentItem[]; // Positioned by the container; their own placement fields are ignored
+}
+
+// Container arrangement, see hooks/useTextPositioning/layoutContainers
+export interface TextLayout {
+  type: 'stack' | 'row' | 'grid';
+  gap?: number; // Cells between children (default 1); rowGap and columnGap override it per axis
+  rowGap?: number;
+  columnGap?: number;
+  align?: 'start' | 'center' | 'end'; // Across a stack, down a row, or inside a grid cell (default start)
+  wrap?: boolean; // Rows continue on a new line past the container's maxWidthPercent
+  columns?: number; // Grid only (default 2)
+}
+
+// Viewport conditions for `responsive` overrides; several can match at once
+export type TextBreakpoint = 'portrait' | 'narrow';
+
+// `text` swaps in a variant written for the breakpoint, such as a table with narrow columns
+export type ResponsiveTextOverrides = Partial<Pick<
+  TextContentItem,
+  'text' | 'fitWidth' | 'x' | 'y' | 'maxWidthPercent' | 'alignment' | 'fontName' | 'fixed' | 'anchorTo' | 'anchorPoint' | 'anchorOffsetX' | 'anchorOffsetY' | 'layout'
+>>;
 
 export interface TextBox extends TextContentItem {
   maxWidth?: number;
@@ -92,8 +133,24 @@ export type TextGridCell = {
   char: string; 
   fixed: boolean; 
   isBold?: boolean; 
-  isItalic?: boolean 
-} | null; // Use null for empty cells
+  isItalic?: boolean;
+  isUnderline?: boolean;
+  isInverse?: boolean;
+  color?: string; // Palette name or CSS color from &&{color}text&& markup
+} | null; // Use null for empty cells; char is '' right of a wide (two-column) grapheme
+
+// A problem with `name`/`anchorTo` wiring found before layout (see anchorGraph)
+export interface AnchorDiagnostic {
+  type: 'cycle' | 'missingAnchor' | 'duplicateName';
+  message: string;
+  items: number[]; // Indexes into textContent of the offending items
+}
+
+// How far overlap resolution moved an item, in cells (see resolveOverlaps)
+export interface OverlapNudge {
+  x: number;
+  y: number;
+}
 
 export interface TextPositionCacheResult {
   cache: TextPositionCache; 
@@ -102,6 +159,11 @@ export interface TextPositionCacheResult {
   links: LinkPosition[];
   gridCols: number; // Store grid width (columns)
   offsetY: number;  // Store vertical offset for grid indexing
+  rampRegions?: CharacterRampRegion[]; // Items with their own character ramp
+  hasWideCells?: boolean; // Some text spans two columns per grapheme (CJK, emoji)
+  anchorDiagnostics?: AnchorDiagnostic[];
+  overlapNudges?: Record<string, OverlapNudge>; // By item key, for items that had to move
+  items?: TextContentItem[]; // As laid out: containers expanded, broken anchors dropped
 }
 
 export interface SpatialGrid {
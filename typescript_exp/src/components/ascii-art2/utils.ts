@@ -5,6 +5,11 @@ export type GraphemeCell = {
   cell: string;
   start: number;
   end: number;
+  width: number; // Grid columns: 2 for East Asian wide characters and emoji, otherwise 1
+};
+
+export type GraphemeColumn = GraphemeCell & {
+  column: number; // First grid column the grapheme occupies
 };
 
 /**
@@ -49,6 +54,73 @@ const getGraphemeSegmenter = (): SegmenterLike | null => {
   return graphemeSegmenter;
 };
 
+// East Asian Wide and Fullwidth blocks (UAX #11) that occur in practice
+const WIDE_CODE_POINT_RANGES: Array<[number, number]> = [
+  [0x1100, 0x115f], // Hangul Jamo initials
+  [0x2e80, 0x303e], // CJK radicals, Kangxi radicals, ideographic punctuation
+  [0x3041, 0x33ff], // Hiragana, Katakana, Bopomofo, CJK compatibility
+  [0x3400, 0x4dbf], // CJK extension A
+  [0x4e00, 0x9fff], // CJK unified ideographs
+  [0xa000, 0xa4cf], // Yi
+  [0xac00, 0xd7a3], // Hangul syllables
+  [0xf900, 0xfaff], // CJK compatibility ideographs
+  [0xfe30, 0xfe4f], // CJK compatibility forms
+  [0xff00, 0xff60], // Fullwidth forms
+  [0xffe0, 0xffe6], // Fullwidth signs
+  [0x20000, 0x3fffd] // CJK extensions B and beyond
+];
+
+// Emoji drawn as pictures: default emoji presentation, VS16 requests and flags
+const WIDE_EMOJI_PATTERN = /\p{Emoji_Presentation}|\p{Extended_Pictographic}\uFE0F|\p{Regional_Indicator}/u;
+
+/**
+ * Number of grid columns a grapheme occupies
+ * @param grapheme - One grapheme cluster
+ * @returns 2 for East Asian wide characters and emoji, otherwise 1
+ */
+export const getGraphemeWidth = (grapheme: string): number => {
+  const codePoint = grapheme.codePointAt(0) ?? 0;
+  if (codePoint < 0x1100) {
+    return 1;
+  }
+  if (WIDE_CODE_POINT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end)) {
+    return 2;
+  }
+  return WIDE_EMOJI_PATTERN.test(grapheme) ? 2 : 1;
+};
+
+// Any code point from the ranges above or a wide emoji, for screening whole rows at once
+const WIDE_TEXT_PATTERN = new RegExp(
+  `[${WIDE_CODE_POINT_RANGES.map(([start, end]) => `\\u{${start.toString(16)}}-\\u{${end.toString(16)}}`).join('')}]|${WIDE_EMOJI_PATTERN.source}`,
+  'u'
+);
+
+/**
+ * Cheap row-level screen before per-cell width checks; block and Braille ramps do not match
+ * @param text - Joined row of grid cells
+ * @returns Whether the text may hold a grapheme that spans two columns
+ */
+export const mayContainWideGraphemes = (text: string): boolean => WIDE_TEXT_PATTERN.test(text);
+
+const wideGraphemeCache = new Map<string, boolean>();
+
+/**
+ * Cached width check for per-cell render loops
+ * @param grapheme - Character stored in a grid cell
+ * @returns Whether the grapheme spans two columns
+ */
+export const isWideGrapheme = (grapheme: string): boolean => {
+  if (!grapheme || grapheme.charCodeAt(0) < 0x1100) {
+    return false;
+  }
+  let wide = wideGraphemeCache.get(grapheme);
+  if (wide === undefined) {
+    wide = getGraphemeWidth(grapheme) === 2;
+    wideGraphemeCache.set(grapheme, wide);
+  }
+  return wide;
+};
+
 export const segmentGraphemeCells = (input: string): GraphemeCell[] => {
   if (!input) {
     return [];
@@ -61,6 +133,7 @@ export const segmentGraphemeCells = (input: string): GraphemeCell[] => {
       cell: segment.segment,
       start: segment.index,
       end: index + 1 < segments.length ? segments[index + 1].index : input.length,
+      width: getGraphemeWidth(segment.segment),
     }));
   }
 
@@ -86,7 +159,7 @@ export const segmentGraphemeCells = (input: string): GraphemeCell[] => {
     }
 
     if (currentCell) {
-      cells.push({ cell: currentCell, start: currentStart, end: cursor });
+      cells.push({ cell: currentCell, start: currentStart, end: cursor, width: getGraphemeWidth(currentCell) });
     }
 
     currentCell = char;
@@ -95,25 +168,42 @@ export const segmentGraphemeCells = (input: string): GraphemeCell[] => {
   }
 
   if (currentCell) {
-    cells.push({ cell: currentCell, start: currentStart, end: input.length });
+    cells.push({ cell: currentCell, start: currentStart, end: input.length, width: getGraphemeWidth(currentCell) });
   }
 
   return cells;
 };
 
-export const countGraphemeCells = (input: string): number => segmentGraphemeCells(input).length;
+/**
+ * Place each grapheme of a line on grid columns
+ * @param input - One line of text
+ * @param maxColumns - Graphemes that would run past this many columns are dropped
+ * @returns The placed graphemes and the number of columns they span
+ */
+export const layoutGraphemeColumns = (input: string, maxColumns = Infinity): { cells: GraphemeColumn[]; width: number } => {
+  const cells: GraphemeColumn[] = [];
+  let width = 0;
+  for (const cell of segmentGraphemeCells(input)) {
+    if (width + cell.width > maxColumns) {
+      break;
+    }
+    cells.push({ ...cell, column: width });
+    width += cell.width;
+  }
+  return { cells, width };
+};
+
+// Counts grid columns, so wide characters count twice
+export const countGraphemeCells = (input: string): number =>
+  segmentGraphemeCells(input).reduce((width, cell) => width + cell.width, 0);
 
 export const truncateToCellCount = (input: string, maxCells: number): string => {
   if (maxCells <= 0 || !input) {
     return '';
   }
 
-  const cells = segmentGraphemeCells(input);
-  if (cells.length <= maxCells) {
-    return input;
-  }
-
-  return input.slice(0, cells[maxCells].start);
+  const { cells } = layoutGraphemeColumns(input, maxCells);
+  return cells.length ? input.slice(0, cells[cells.length - 1].end) : '';
 };
 
 /**
@@ -163,3 +253,45 @@ export const createFastCos = (cosTable: number[]) => {
     return cosTable[index >= 0 ? index : index + 360];
   };
 }; 
+
+const UINT32_MAX = 0xffffffff;
+
+/**
+ * Stateless hash noise for a grid cell
+ * @param x - Column
+ * @param y - Row
+ * @param seed - Seed mixed into the hash
+ * @returns Value in [0, 1]
+ */
+export const pseudoRandom = (x: number, y: number, seed: number): number => {
+  let h = (seed | 0) + Math.imul(x + 0x9e3779b9, 0x85ebca6b) + Math.imul(y + 0x27d4eb2f, 0xc2b2ae35);
+  h = (h ^ (h >>> 16)) >>> 0;
+  h = Math.imul(h, 0x27d4eb2f) >>> 0;
+  h = (h ^ (h >>> 15)) >>> 0;
+  return h / UINT32_MAX;
+};
+
+/**
+ * Per-frame hash seed, so transition noise depends only on the seed and frame time
+ * @param seed - Generator seed
+ * @param time - Frame time in milliseconds
+ * @returns 32-bit integer seed
+ */
+export const deriveFrameSeed = (seed: number, time: number): number => {
+  return Math.floor(pseudoRandom(Math.floor(time), 0, seed) * UINT32_MAX) | 0;
+};
+
+/**
+ * Seeded replacement for Math.random (mulberry32)
+ * @param seed - Initial state
+ * @returns Generator of values in [0, 1)
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countGraphemeCells,
+  getGraphemeWidth,
+  layoutGraphemeColumns,
+  mayContainWideGraphemes,
+  truncateToCellCount
+} from './utils';
+import { renderFormattedText } from './ASCII_text_renderer';
+import { buildTextPositionCache } from './hooks/useTextPositioning/buildTextPositionCache';
+import { alignWideCells } from './frameRenderer';
+
+describe('wide graphemes', () => {
+  it('measures CJK and emoji as two columns', () => {
+    expect(['a', 'é', '東', 'ｶ', '😀', '❤️', '🇯🇵'].map(getGraphemeWidth)).toEqual([1, 1, 2, 1, 2, 2, 2]);
+    expect(countGraphemeCells('東京 art')).toBe(8);
+    expect(truncateToCellCount('東京都', 5)).toBe('東京');
+    expect(layoutGraphemeColumns('a東b').cells.map(cell => cell.column)).toEqual([0, 1, 3]);
+    expect(['░▒▓█', '⠁⡇⣿', 'ｶﾀ', 'a東', 'ok 😀'].map(mayContainWideGraphemes))
+      .toEqual([false, false, false, true, true]);
+  });
+
+  it('wraps between wide characters and keeps closing punctuation attached', () => {
+    expect(renderFormattedText('展覧会のお知らせ', 'regular', { maxWidth: 10 }).text.split('\n').filter(Boolean))
+      .toEqual(['展覧会のお', '知らせ']);
+    expect(renderFormattedText('東京都美術館。', 'regular', { maxWidth: 12 }).text.split('\n').filter(Boolean))
+      .toEqual(['東京都美術', '館。']);
+  });
+
+  it('lays wide cells and links out on grid columns', () => {
+    const cache = buildTextPositionCache(
+      [{ text: '見て [東京](u) ok', x: 0, y: 0, usePercentPosition: false, name: 'title' }],
+      40,
+      10
+    );
+    const row = cache.grid.slice(-cache.offsetY * cache.gridCols, (1 - cache.offsetY) * cache.gridCols).slice(0, 12);
+    expect(row.map(cell => cell?.char ?? ' ').join('|')).toBe('見||て|| |東||京|| |o|k');
+    expect(cache.links).toEqual([{ textKey: 'title-見て [東京](u) ok', url: 'u', startX: 5, endX: 8, y: 0 }]);
+    expect(cache.hasWideCells).toBe(true);
+  });
+
+  it('repairs wide pairs split by per-cell effects', () => {
+    const row = [' ', '', '京', 'x', 'y'];
+    alignWideCells(row, 0, row.length);
+    expect(row).toEqual([' ', ' ', '京', '', 'y']);
+  });
+});
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from 'react';
 import AsciiArtGenerator from '../ascii-art2/AsciiArtGenerator';
 import { AsciiLayoutInfo, TextContentItem } from '../ascii-art2/types';
+import type { BackgroundField } from '../ascii-art2/backgroundFields';
 import { CHAR_HEIGHT, getCurrentCharMetrics } from '../ascii-art2/constants';
 import PhotorealisticLayer, {
   PhotoLayerItem,
@@ -68,6 +69,7 @@ type PhotoModeSceneProps = {
   exportMetadataKey?: string;
   exportPrimaryPhotoItemId?: string;
   exportBackgroundOnly?: boolean;
+  backgroundField?: BackgroundField;
 };
 
 const PHOTO_EXIT_FADE_DURATION = 1000;
@@ -280,7 +282,8 @@ const PhotoModeScene = ({
   alwaysVisiblePhotoItemIds = [],
   exportMetadataKey,
   exportPrimaryPhotoItemId,
-  exportBackgroundOnly = false
+  exportBackgroundOnly = false,
+  backgroundField
 }: PhotoModeSceneProps) => {
   const photoModeEnabled = useMemo(() => {
     if (disablePhotoMode) {
@@ -1508,6 +1511,7 @@ const PhotoModeScene = ({
           suppressTextCharacters={exportBackgroundOnly}
           whiteInRequest={whiteInRequest}
           externalContainerRef={asciiContainerRef}
+          backgroundField={backgroundField}
         />
       </div>
     </>
@@ -1,5 +1,7 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useId, useRef } from 'react';
 import { getCurrentCharMetrics } from '../ascii-art2/constants';
+import { useLayoutInspectorOpen } from '../ascii-art2/hooks';
+import { publishInspectorPhotoRects } from '../ascii-art2/layoutInspector';
 import { TextBounds } from '../ascii-art2/types';
 
 export type PhotoContentInsets = {
@@ -187,6 +189,20 @@ const PhotorealisticLayer: React.FC<PhotorealisticLayerProps> = ({
     moved: false
   });
 
+  // The layout inspector outlines photo rects over the text, even while this layer is hidden
+  const inspectorSource = useId();
+  const layoutInspectorOpen = useLayoutInspectorOpen();
+  useEffect(() => {
+    if (!layoutInspectorOpen) {
+      return;
+    }
+    publishInspectorPhotoRects(inspectorSource, items.flatMap(item => {
+      const rect = resolvePhotoItemPixelRect(item, layout);
+      return rect ? [{ ...rect, id: item.id, anchorName: item.anchorName, fixed: !!item.fixed }] : [];
+    }));
+    return () => publishInspectorPhotoRects(inspectorSource, null);
+  }, [charHeight, charWidth, inspectorSource, items, layout, layoutInspectorOpen]);
+
   const markHighResLoaded = useCallback((id: string) => {
     setLoadedHighRes(prev => {
       if (prev.has(id)) return prev;
@@ -3,6 +3,7 @@ import ReactDOM from 'react-dom/client'
 import { HashRouter } from 'react-router-dom'
 import App from './App.tsx'
 import './index.css'
+import { applyMotionPreferenceFromUrl } from './utils/reducedMotion'
 
 const SESSION_INIT_KEY = 'sessionInitialized';
 
@@ -20,6 +21,7 @@ const ensureSessionWhiteIn = () => {
 };
 
 ensureSessionWhiteIn();
+applyMotionPreferenceFromUrl(window.location.search);
 
 // Normal app initialization - removing the redirect code
 ReactDOM.createRoot(document.getElementById('root')!).render(
@@ -1,7 +1,6 @@
 import { useEffect, useState } from 'react';
 import AsciiArtGenerator from '../components/ascii-art2/AsciiArtGenerator';
 import { TextContentItem } from '../components/ascii-art2/types';
-import { updateCharMetricsForViewport } from '../components/ascii-art2/constants';
 import { loadCsv } from '../utils/csv';
 import {
   FALLBACK_PRESENTATIONS,
@@ -27,36 +26,12 @@ import {
 
 const CV_PATH = new URL('../assets/CV_minimal_NOV25.pdf', import.meta.url).href;
 
-const getViewportSize = () => {
-  if (typeof window === 'undefined') {
-    return { width: 1200, height: 900 };
-  }
-
-  const width = window.visualViewport?.width ?? window.innerWidth;
-  const height = window.visualViewport?.height ?? window.innerHeight;
-
-  return { width, height };
-};
-
 function AboutPage() {
   const [presentations, setPresentations] = useState<Presentation[]>(FALLBACK_PRESENTATIONS);
   const [awards, setAwards] = useState<Award[]>(FALLBACK_AWARDS);
   const [publications, setPublications] = useState<Publication[]>(FALLBACK_PUBLICATIONS);
   const [textContent, setTextContent] = useState<TextContentItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [{ width: windowWidth, height: windowHeight }, setWindowSize] = useState(getViewportSize);
-
-  useEffect(() => {
-    const handleResize = () => {
-      setWindowSize(getViewportSize());
-    };
-    window.addEventListener('resize', handleResize);
-    window.visualViewport?.addEventListener('resize', handleResize);
-    return () => {
-      window.removeEventListener('resize', handleResize);
-      window.visualViewport?.removeEventListener('resize', handleResize);
-    };
-  }, []);
 
   useEffect(() => {
     let isMounted = true;
@@ -157,34 +132,20 @@ function AboutPage() {
   }, []);
 
   useEffect(() => {
-    const { charWidth, charHeight } = updateCharMetricsForViewport(windowWidth);
-    const isNarrow = windowWidth < 720;
-    const aspectRatio = windowWidth / Math.max(1, windowHeight);
-    const isWideAspect = aspectRatio >= 1.0; // Wide mode until square aspect ratio
-    const rows = Math.max(1, Math.ceil(windowHeight / charHeight));
-    const titleStartRow = Math.floor((12 / 100) * rows);
-    const asciiTitleHeight = 5; // Height of "ABOUT" in ascii font rows
     const subtitleOffsetRows = -10; // Gap between title and micro subtitle
-    const microSubtitleHeight = 3; // Height of micro subtitle in rows
-    const bioAnchorOffsetRows = isWideAspect ? -12 : -12; // Pull bio into the subtitle so they touch on wide view
-    const percentFromRow = (row: number) => Math.min(100, (row / rows) * 100);
-    const subtitleRow = titleStartRow + asciiTitleHeight + subtitleOffsetRows;
-    const approxBioRow = subtitleRow + microSubtitleHeight + bioAnchorOffsetRows;
-    const subtitleYPercent = Math.min(90, percentFromRow(subtitleRow));
-    const approxBioYPercent = Math.min(90, percentFromRow(approxBioRow));
+    const bioAnchorOffsetRows = -12; // Pull bio into the subtitle so they touch on wide view
     const janArt = [
       '  _/\\_',
       ' (o  o)',
       '  \\__/'
     ].join('\n');
 
-    const columnCount = Math.max(20, Math.floor(windowWidth / charWidth));
-    const bioMaxWidthPercent = isWideAspect ? 60 : 92;
+    // Wide mode until square aspect ratio; portrait screens widen the bio and tables
+    const bioWidePercent = 60;
+    const bioPortraitPercent = 92;
     // Keep table widths aligned with the bio on wide viewports
-    const tableMaxWidthPercent = isWideAspect ? bioMaxWidthPercent : 94;
-    const maxTableWidth = Math.max(20, Math.floor(columnCount * (tableMaxWidthPercent / 100)));
-    const awardsMaxWidth = Math.max(15, Math.floor(columnCount * (tableMaxWidthPercent / 100)));
-    const presentationsAnchorOffsetX = -Math.floor(maxTableWidth / 2);
+    const tableWidePercent = bioWidePercent;
+    const tablePortraitPercent = 94;
 
     const janText = [
       janArt,
@@ -195,10 +156,6 @@ function AboutPage() {
       `[[CV](${CV_PATH})]`,
     ].join('\n');
 
-    const presentationsTableText = formatPresentationsTable(presentations, isNarrow, maxTableWidth);
-    const awardsTableText = formatAwardsTable(awards, isNarrow, awardsMaxWidth);
-    const publicationsTableText = formatPublicationsTable(publications, isNarrow, maxTableWidth);
-
     const presentationsDrip = [
 '⋰⋱⋰⋱⋰⋱⋰⋱⋰⋱⋰⋱',
 '╭═╦══╦══╦══╦══╦═╮',
@@ -226,9 +183,24 @@ function AboutPage() {
       '==SELECTED PUBLICATIONS=='
     ].join('\n');
 
-    const presentationsBlobText = [presentationsDrip, presentationsTableText, '[[ALL PRESENTATIONS]](#/presentations)'].join('\n\n');
-    const awardsBlobText = [awardsDrip, awardsTableText].join('\n');
-    const publicationsBlobText = [publicationsDrip, publicationsTableText].join('\n');
+    // Tables are cut to the item's width in columns; narrow screens get the short titles and venues
+    const fitPresentationsBlob = (isNarrow: boolean) => (maxWidth: number) => {
+      const tableWidth = Math.max(20, maxWidth);
+      return {
+        text: [
+          presentationsDrip,
+          formatPresentationsTable(presentations, isNarrow, tableWidth),
+          '[[ALL PRESENTATIONS]](#/presentations)'
+        ].join('\n\n'),
+        anchorOffsetX: -Math.floor(tableWidth / 2)
+      };
+    };
+    const fitAwardsBlob = (isNarrow: boolean) => (maxWidth: number) => ({
+      text: [awardsDrip, formatAwardsTable(awards, isNarrow, Math.max(15, maxWidth))].join('\n')
+    });
+    const fitPublicationsBlob = (isNarrow: boolean) => (maxWidth: number) => ({
+      text: [publicationsDrip, formatPublicationsTable(publications, isNarrow, Math.max(20, maxWidth))].join('\n')
+    });
 
     const subtitleXOffsetPercent = 0;
     const bioXOffsetPercent = 0;
@@ -248,11 +220,11 @@ function AboutPage() {
       'These installations are performative probes, completed by the audience. A visitor leans toward a vending machine, whispering, trying to convince it. The machine pauses, deliberates, refuses. They\'re publicly rehearsing a new social relationship. The work lives in this spectacle: a human genuinely negotiating with an object, an object responding as if it has a position. The tool stops being a servant. It becomes something that holds your gaze.'
 
     ].join('\n');
-    const janMaxWidthPercent = isNarrow ? 32 : 26;
-    const janXPercent = 98 - janMaxWidthPercent; // Position so right edge is near screen edge
+    // Keep the right edge near the screen edge: x = 98 - maxWidthPercent
+    const janWidePercent = 26;
+    const janNarrowPercent = 32;
 
     const exhibitionsAnchorOffsetY = 4;
-    const exhibitionsMaxWidthPercent = tableMaxWidthPercent;
     const exhibitionsXPercent = bioXOffsetPercent;
 
     const textItems: TextContentItem[] = [
@@ -262,7 +234,7 @@ function AboutPage() {
         name: 'subtitle',
         text: 'ARTIFICIAL PHYSICAL INTELLIGENCE',
         x: subtitleXOffsetPercent,
-        y: subtitleYPercent,
+        y: 0,
         centered: true,
         fontName: 'microAscii',
         anchorTo: 'title',
@@ -274,12 +246,13 @@ function AboutPage() {
         name: 'bio-intro',
         text: bioIntroText,
         x: bioXOffsetPercent,
-        y: approxBioYPercent,
+        y: 0,
         centered: true,
         anchorTo: 'subtitle',
         anchorPoint: 'bottomCenter',
         anchorOffsetY: bioAnchorOffsetRows,
-        maxWidthPercent: bioMaxWidthPercent,
+        maxWidthPercent: bioWidePercent,
+        responsive: { portrait: { maxWidthPercent: bioPortraitPercent } },
         alignment: 'center'
       },
       {
@@ -292,7 +265,8 @@ function AboutPage() {
         anchorTo: 'bio-intro',
         anchorPoint: 'bottomCenter',
         anchorOffsetY: 0,
-        maxWidthPercent: bioMaxWidthPercent,
+        maxWidthPercent: bioWidePercent,
+        responsive: { portrait: { maxWidthPercent: bioPortraitPercent } },
         alignment: 'left'
       },
       {
@@ -304,22 +278,32 @@ function AboutPage() {
         anchorTo: 'bio-approach',
         anchorPoint: 'bottomCenter',
         anchorOffsetY: -10,
-        maxWidthPercent: bioMaxWidthPercent,
+        maxWidthPercent: bioWidePercent,
+        responsive: { portrait: { maxWidthPercent: bioPortraitPercent } },
         alignment: 'left'
       },
       {
         name: 'jan',
         text: janText,
-        x: janXPercent,
+        x: 98 - janWidePercent,
         y: 4,
         centered: false,
-        fixed: isWideAspect,
-        maxWidthPercent: janMaxWidthPercent,
-        alignment: 'right'
+        fixed: true,
+        maxWidthPercent: janWidePercent,
+        alignment: 'right',
+        responsive: {
+          portrait: { fixed: false },
+          narrow: { x: 98 - janNarrowPercent, maxWidthPercent: janNarrowPercent }
+        }
       },
       {
         name: 'exhibitions-blob',
-        text: presentationsBlobText,
+        text: '', // Filled in by fitWidth
+        fitWidth: fitPresentationsBlob(false),
+        responsive: {
+          portrait: { maxWidthPercent: tablePortraitPercent },
+          narrow: { fitWidth: fitPresentationsBlob(true) }
+        },
         x: exhibitionsXPercent,
         y: 0,
         centered: false,
@@ -327,14 +311,18 @@ function AboutPage() {
         anchorTo: 'bio-middle',
         anchorPoint: 'bottomCenter',
         anchorOffsetY: exhibitionsAnchorOffsetY,
-        anchorOffsetX: presentationsAnchorOffsetX,
-        maxWidthPercent: exhibitionsMaxWidthPercent,
+        maxWidthPercent: tableWidePercent,
         alignment: 'center'
       },
       // Awards always below presentations
       {
         name: 'awards-blob',
-        text: awardsBlobText,
+        text: '', // Filled in by fitWidth
+        fitWidth: fitAwardsBlob(false),
+        responsive: {
+          portrait: { maxWidthPercent: tablePortraitPercent },
+          narrow: { fitWidth: fitAwardsBlob(true) }
+        },
         x: 0,
         y: 0,
         centered: true,
@@ -342,12 +330,17 @@ function AboutPage() {
         anchorTo: 'exhibitions-blob',
         anchorPoint: 'bottomCenter',
         anchorOffsetY: 4,
-        maxWidthPercent: tableMaxWidthPercent,
+        maxWidthPercent: tableWidePercent,
         alignment: 'center'
       },
       {
         name: 'publications-blob',
-        text: publicationsBlobText,
+        text: '', // Filled in by fitWidth
+        fitWidth: fitPublicationsBlob(false),
+        responsive: {
+          portrait: { maxWidthPercent: tablePortraitPercent },
+          narrow: { fitWidth: fitPublicationsBlob(true) }
+        },
         x: 0,
         y: 0,
         centered: true,
@@ -355,7 +348,7 @@ function AboutPage() {
         anchorTo: 'awards-blob',
         anchorPoint: 'bottomCenter',
         anchorOffsetY: 4,
-        maxWidthPercent: tableMaxWidthPercent,
+        maxWidthPercent: tableWidePercent,
         alignment: 'center'
       }
     ];
@@ -364,7 +357,7 @@ function AboutPage() {
       setTextContent(textItems);
       setIsLoading(false);
     }, 50);
-  }, [windowWidth, windowHeight, presentations, awards, publications]);
+  }, [presentations, awards, publications]);
 
   return (
     <div style={{
@@ -1,7 +1,6 @@
 import { useEffect, useState } from 'react';
 import AsciiArtGenerator from '../components/ascii-art2/AsciiArtGenerator';
 import { TextContentItem } from '../components/ascii-art2/types';
-import { updateCharMetricsForViewport } from '../components/ascii-art2/constants';
 import { loadCsv } from '../utils/csv';
 import {
   ALL_PRESENTATIONS_PATH,
@@ -15,22 +14,6 @@ function AllPresentationsPage() {
   const [presentations, setPresentations] = useState<Presentation[]>(FALLBACK_PRESENTATIONS);
   const [textContent, setTextContent] = useState<TextContentItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [windowWidth, setWindowWidth] = useState(
-    typeof window !== 'undefined' ? window.innerWidth : 1200
-  );
-  const [windowHeight, setWindowHeight] = useState(
-    typeof window !== 'undefined' ? window.innerHeight : 900
-  );
-
-  useEffect(() => {
-    const handleResize = () => {
-      setWindowWidth(window.innerWidth);
-      setWindowHeight(window.innerHeight);
-    };
-
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, []);
 
   useEffect(() => {
     let isMounted = true;
@@ -58,13 +41,7 @@ function AllPresentationsPage() {
   }, []);
 
   useEffect(() => {
-    const { charWidth } = updateCharMetricsForViewport(windowWidth);
-    const isNarrow = windowWidth < 720;
     const tableOffsetRows = 5;
-    const columnCount = Math.max(20, Math.floor(windowWidth / charWidth));
-    const maxTableWidth = Math.max(20, Math.floor(columnCount * 0.92));
-
-    const tableText = formatPresentationsTable(presentations, isNarrow, maxTableWidth);
 
     const tapeHeader = [
       '╭────────────────────────────────────────╮',
@@ -72,7 +49,13 @@ function AllPresentationsPage() {
       '╰────────────────────────────────────────╯'
     ].join('\n');
 
-    const tableBlock = [tapeHeader, '', tableText].join('\n');
+    // Cut to the screen's columns; narrow screens get the short titles and venues
+    const fitTableBlock = (isNarrow: boolean) => (_maxWidth: number, cols: number) => {
+      const maxTableWidth = Math.max(20, Math.floor(Math.max(20, cols) * 0.92));
+      return {
+        text: [tapeHeader, '', formatPresentationsTable(presentations, isNarrow, maxTableWidth)].join('\n')
+      };
+    };
 
     const textItems: TextContentItem[] = [
       { name: 'back', text: '[[<<<]](#/about)', x: 2, y: 4, fixed: true },
@@ -80,7 +63,9 @@ function AllPresentationsPage() {
       // { name: 'title', text: 'ALL PRESENTATIONS', x: 0, y: percentFromRow(titleStartRow), centered: true, fontName: 'ascii' },
       {
         name: 'table',
-        text: tableBlock,
+        text: '', // Filled in by fitWidth
+        fitWidth: fitTableBlock(false),
+        responsive: { narrow: { fitWidth: fitTableBlock(true) } },
         x: 0,
         y: 30,
         centered: true,
@@ -96,7 +81,7 @@ function AllPresentationsPage() {
       setTextContent(textItems);
       setIsLoading(false);
     }, 50);
-  }, [presentations, windowWidth, windowHeight]);
+  }, [presentations]);
 
   return (
     <div style={{
@@ -2,6 +2,7 @@
 import { useState, useEffect, useMemo } from 'react';
 import AsciiArtGenerator from '../components/ascii-art2/AsciiArtGenerator';
 import { TextContentItem } from '../components/ascii-art2/types';
+import { hazardStripeBackgroundField } from '../components/ascii-art2/backgroundFields';
 import constructionAsciiArt from '../assets/construction/construction_ascii.txt?raw';
 function ConstructionPage() {
   
@@ -66,7 +67,7 @@ function ConstructionPage() {
           <div style={{ color: 'white', fontSize: '18px' }}>Loading...</div>
         </div>
       ) : (
-        <AsciiArtGenerator textContent={textContent} />
+        <AsciiArtGenerator textContent={textContent} backgroundField={hazardStripeBackgroundField} />
       )}
     </div>
   );
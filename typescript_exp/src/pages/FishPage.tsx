@@ -1,6 +1,7 @@
 import ProjectPage from '../components/ProjectPage';
 import { getCurrentCharMetrics } from '../components/ascii-art2/constants';
 import { getGridDimensions } from '../components/ascii-art2/utils';
+import { waterCurrentBackgroundField } from '../components/ascii-art2/backgroundFields';
 import type { PhotorealisticLayout } from '../components/photorealistic/PhotorealisticLayer';
 import fishAscii from '../assets/fish/fish_ascii.txt?raw';
 import fishText from '../assets/fish/fish_text.txt?raw';
@@ -90,6 +91,7 @@ function FishPage() {
       photoInitialScrollPaddingRows={FISH_VIDEO_SCROLL_PADDING_ROWS}
       photoCenterOnEnter
       photoLayoutAugmenter={augmentFishPhotoLayout}
+      backgroundField={waterCurrentBackgroundField}
     />
   );
 }
@@ -1,6 +1,7 @@
 import { render, screen } from '@testing-library/react';
 import { act } from 'react';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getAsciiArt } from '../components/ascii-art2/artRegistry';
 import HomePage from './HomePage';
 
 const asciiArtGeneratorSpy = vi.fn();
@@ -66,4 +67,11 @@ describe('HomePage', () => {
       })
     ]);
   });
+
+  it('registers the about burst for art embeds', () => {
+    const burst = getAsciiArt('about-burst');
+
+    expect(burst.rows).toHaveLength(5);
+    expect(burst.rows[2].trim()).toBe('–   ABOUT   –');
+  });
 });
@@ -3,6 +3,8 @@ import AsciiArtGenerator from '../components/ascii-art2/AsciiArtGenerator';
 import { BLOB_PADDING, getCurrentCharMetrics } from '../components/ascii-art2/constants';
 import { loadCsv, CsvRecord } from '../utils/csv';
 import { AsciiLayoutInfo } from '../components/ascii-art2/types';
+import { useReducedMotion } from '../components/ascii-art2/hooks';
+import { registerAsciiArt } from '../components/ascii-art2/artRegistry';
 // You might want to add your own ASCII art for the homepage
 // import homeAsciiArt from '../assets/home/home_ascii.txt?raw';
 
@@ -24,6 +26,7 @@ type TextContentItem = {
   anchorOffsetY?: number; // Vertical offset from the anchor
   anchorPoint?: 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight' | 'center' | 'bottomCenter' | 'middleLeft' | 'middleRight'; // Anchor point
   fontName?: 'regular' | 'ascii' | 'smallAscii'; // Add fontName explicitly if needed
+  avoidOverlap?: boolean; // Nudged clear of earlier items instead of colliding
 };
 
 type Exhibition = {
@@ -92,6 +95,8 @@ const ABOUT_BOX_LINES = [
   { name: 'about-air-bottom', text: ABOUT_AIRY_LINE, offsetY: 1 },
   { name: 'about-burst-bottom', text: ABOUT_BOTTOM_BURST, offsetY: 2 },
 ];
+// The same burst as one block for `{{art:about-burst}}` (art rows carry no links, so the label is plain)
+registerAsciiArt('about-burst', ABOUT_BOX_LINES.map(line => (line.name === 'about' ? ABOUT_CORE_VISIBLE : line.text)));
 const TITLE_TO_SUBTITLE_OFFSET_Y = -BLOB_PADDING + 0;
 // const TITLE_TO_SUBTITLE_OFFSET_Y = -BLOB_PADDING + 4;
 // const SUBTITLE_TO_UPCOMING_OFFSET_Y = -BLOB_PADDING + 6;
@@ -237,6 +242,7 @@ function HomePage({ compatibilityOverlayActive = false }: HomePageProps) {
   const introRippleScheduledRef = useRef(false);
   const hasBootstrappedContentRef = useRef(false);
   const [exhibitions, setExhibitions] = useState<Exhibition[]>(FALLBACK_EXHIBITIONS);
+  const reducedMotion = useReducedMotion();
 
   // Always use the stacked (narrow) layout.
   const isNarrow = true;
@@ -329,7 +335,7 @@ function HomePage({ compatibilityOverlayActive = false }: HomePageProps) {
   }, []);
 
   useEffect(() => {
-    if (isLoading || compatibilityOverlayActive || hasSeenHomeIntroRipple()) {
+    if (isLoading || compatibilityOverlayActive || reducedMotion || hasSeenHomeIntroRipple()) {
       return;
     }
 
@@ -340,7 +346,7 @@ function HomePage({ compatibilityOverlayActive = false }: HomePageProps) {
         window.clearTimeout(introRippleTimeoutRef.current);
       }
     };
-  }, [compatibilityOverlayActive, isLoading, triggerIntroRipple]);
+  }, [compatibilityOverlayActive, isLoading, reducedMotion, triggerIntroRipple]);
 
   useEffect(() => {
     let isMounted = true;
@@ -464,7 +470,8 @@ function HomePage({ compatibilityOverlayActive = false }: HomePageProps) {
               anchorOffsetY: isFirstWork ? 0 : 15, // Larger gaps for Safari mobile rendering
               alignment: "center" as const,
               isTitle: false,
-              useSmallFont: true
+              useSmallFont: true,
+              avoidOverlap: true // Scattered titles can meet at some widths; keep them apart and clickable
             };
           }),
           // // Add a spacer at the end to ensure Safari recognizes there's scrollable space beyond the last item
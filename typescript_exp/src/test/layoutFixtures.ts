@@ -0,0 +1,50 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  diffLayoutSnapshots,
+  formatLayoutDeltas,
+  LayoutSnapshot,
+  serializeLayoutSnapshots
+} from '../components/ascii-art2/layoutSnapshot';
+
+/**
+ * Layout fixtures live in src/test/layouts/<name>.json, one snapshot per
+ * viewport. They are only written with `UPDATE_LAYOUT_FIXTURES=1 npm test`, both
+ * for a new route and after an intended change; otherwise a missing one fails.
+ */
+
+const FIXTURE_DIR = join(dirname(fileURLToPath(import.meta.url)), 'layouts');
+
+export const layoutFixturePath = (name: string) => join(FIXTURE_DIR, `${name}.json`);
+
+/**
+ * Throws with the per-item deltas of every viewport that no longer matches
+ */
+export const expectLayoutsToMatchFixture = (name: string, snapshots: Record<string, LayoutSnapshot>) => {
+  const path = layoutFixturePath(name);
+  if (process.env.UPDATE_LAYOUT_FIXTURES) {
+    mkdirSync(FIXTURE_DIR, { recursive: true });
+    writeFileSync(path, serializeLayoutSnapshots(snapshots));
+    return;
+  }
+  if (!existsSync(path)) {
+    throw new Error(`Layout fixture ${name} missing, run with UPDATE_LAYOUT_FIXTURES=1`);
+  }
+
+  const expected = JSON.parse(readFileSync(path, 'utf8')) as Record<string, LayoutSnapshot>;
+  const labels = Array.from(new Set([...Object.keys(expected), ...Object.keys(snapshots)])).sort();
+  const failures = labels.flatMap(label => {
+    if (!expected[label] || !snapshots[label]) {
+      return [`${label}: viewport ${expected[label] ? 'no longer captured' : 'not in the fixture'}`];
+    }
+    const deltas = diffLayoutSnapshots(expected[label], snapshots[label]);
+    return deltas.length ? [formatLayoutDeltas(label, deltas)] : [];
+  });
+
+  if (failures.length) {
+    throw new Error(
+      `Layout of ${name} changed (UPDATE_LAYOUT_FIXTURES=1 accepts it):\n${failures.join('\n')}`
+    );
+  }
+};
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  applyMotionPreferenceFromUrl,
+  getMotionPreference,
+  prefersReducedMotion,
+  setMotionPreference,
+  subscribeToMotionPreference
+} from './reducedMotion';
+
+const mockSystemPreference = (reduce: boolean) => {
+  vi.stubGlobal('matchMedia', vi.fn((query: string) => ({
+    matches: reduce && query === '(prefers-reduced-motion: reduce)',
+    media: query,
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn()
+  })));
+};
+
+describe('reduced motion preference', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('follows the media query until the visitor stores an override', () => {
+    mockSystemPreference(true);
+    expect(prefersReducedMotion()).toBe(true);
+
+    setMotionPreference('full');
+    expect(prefersReducedMotion()).toBe(false);
+
+    setMotionPreference(null);
+    expect(getMotionPreference()).toBeNull();
+    expect(prefersReducedMotion()).toBe(true);
+  });
+
+  it('persists overrides requested through the URL', () => {
+    mockSystemPreference(false);
+
+    applyMotionPreferenceFromUrl('?motion=reduce');
+    expect(localStorage.getItem('motionPreference')).toBe('reduce');
+    expect(prefersReducedMotion()).toBe(true);
+
+    applyMotionPreferenceFromUrl('?motion=sideways');
+    expect(getMotionPreference()).toBe('reduce');
+
+    applyMotionPreferenceFromUrl('?motion=system');
+    expect(prefersReducedMotion()).toBe(false);
+  });
+
+  it('notifies subscribers when the override changes', () => {
+    mockSystemPreference(false);
+    const listener = vi.fn();
+    const unsubscribe = subscribeToMotionPreference(listener);
+
+    setMotionPreference('reduce');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    setMotionPreference(null);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
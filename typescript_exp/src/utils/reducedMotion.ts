@@ -0,0 +1,87 @@
+export type MotionPreference = 'reduce' | 'full';
+
+const MOTION_PREFERENCE_KEY = 'motionPreference';
+const MOTION_PREFERENCE_EVENT = 'motionpreferencechange';
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const isMotionPreference = (value: unknown): value is MotionPreference =>
+  value === 'reduce' || value === 'full';
+
+// The user's explicit choice, or null to follow the operating system setting
+export const getMotionPreference = (): MotionPreference | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    const stored = localStorage.getItem(MOTION_PREFERENCE_KEY);
+    return isMotionPreference(stored) ? stored : null;
+  } catch (error) {
+    console.warn('Unable to read motion preference', error);
+    return null;
+  }
+};
+
+export const setMotionPreference = (preference: MotionPreference | null) => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  try {
+    if (preference) {
+      localStorage.setItem(MOTION_PREFERENCE_KEY, preference);
+    } else {
+      localStorage.removeItem(MOTION_PREFERENCE_KEY);
+    }
+  } catch (error) {
+    console.warn('Unable to store motion preference', error);
+  }
+  window.dispatchEvent(new Event(MOTION_PREFERENCE_EVENT));
+};
+
+const systemPrefersReducedMotion = () =>
+  typeof window !== 'undefined' &&
+  typeof window.matchMedia === 'function' &&
+  window.matchMedia(REDUCED_MOTION_QUERY).matches;
+
+export const prefersReducedMotion = () => {
+  const preference = getMotionPreference();
+  return preference ? preference === 'reduce' : systemPrefersReducedMotion();
+};
+
+/**
+ * `?motion=reduce`, `?motion=full` or `?motion=system` stores (or clears) the
+ * override, so the choice survives navigation and reloads.
+ */
+export const applyMotionPreferenceFromUrl = (search: string) => {
+  const requested = new URLSearchParams(search).get('motion');
+  if (requested === 'system') {
+    setMotionPreference(null);
+  } else if (isMotionPreference(requested)) {
+    setMotionPreference(requested);
+  }
+};
+
+// Calls the listener whenever the system setting or the stored override may have changed
+export const subscribeToMotionPreference = (listener: () => void) => {
+  if (typeof window === 'undefined') {
+    return () => {};
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === null || event.key === MOTION_PREFERENCE_KEY) {
+      listener();
+    }
+  };
+  const mediaQuery = typeof window.matchMedia === 'function'
+    ? window.matchMedia(REDUCED_MOTION_QUERY)
+    : null;
+
+  window.addEventListener(MOTION_PREFERENCE_EVENT, listener);
+  window.addEventListener('storage', handleStorage);
+  mediaQuery?.addEventListener?.('change', listener);
+
+  return () => {
+    window.removeEventListener(MOTION_PREFERENCE_EVENT, listener);
+    window.removeEventListener('storage', handleStorage);
+    mediaQuery?.removeEventListener?.('change', listener);
+  };
+};